@@ -0,0 +1,216 @@
+// 边界条件
+// 画布的四条边各自可以是：
+// - 墙壁：反弹，可设置恢复系数和摩擦
+// - 环绕：从一边离开的粒子从对边进入（周期边界，左右/上下必须成对设置）
+// - 开放：离开的粒子被删除，或者从对边重新放入（回收）
+
+import { random } from "./random";
+import {
+  FIELD_X,
+  FIELD_Y,
+  FIELD_VX,
+  FIELD_VY,
+  FIELD_RADIUS,
+  FIELD_AGE,
+} from "./layout";
+
+// 边的编号
+export const EDGE_LEFT: i32 = 0;
+export const EDGE_RIGHT: i32 = 1;
+export const EDGE_TOP: i32 = 2;
+export const EDGE_BOTTOM: i32 = 3;
+
+// 边界模式
+export const BOUNDARY_WALL: i32 = 0; // 反弹墙壁
+export const BOUNDARY_WRAP: i32 = 1; // 周期环绕
+export const BOUNDARY_REMOVE: i32 = 2; // 开放，离开的粒子被删除
+export const BOUNDARY_RECYCLE: i32 = 3; // 开放，离开的粒子从对边重新放入
+
+const edgeMode = new StaticArray<i32>(4);
+const edgeRestitution = new StaticArray<f32>(4);
+const edgeFriction = new StaticArray<f32>(4);
+
+// 默认：四面都是恢复系数 0.8、无摩擦的墙壁
+for (let edge = 0; edge < 4; edge++) {
+  edgeMode[edge] = BOUNDARY_WALL;
+  edgeRestitution[edge] = 0.8;
+  edgeFriction[edge] = 0;
+}
+
+// 设置某条边的边界条件
+// restitution: 反弹后法向速度保留的比例 [0, 1]
+// friction: 每次碰撞墙壁时切向速度损失的比例 [0, 1]
+// 环绕必须成对：把一条边设为环绕时，对边也会变为环绕；
+// 把环绕边改为其他模式时，对边会变为墙壁
+export function setBoundary(
+  edge: i32,
+  mode: i32,
+  restitution: f32,
+  friction: f32
+): void {
+  if (edge < 0 || edge > 3) return;
+  const opposite = edge ^ 1;
+
+  edgeMode[edge] = mode;
+  edgeRestitution[edge] = restitution;
+  edgeFriction[edge] = friction;
+
+  if (mode == BOUNDARY_WRAP) {
+    edgeMode[opposite] = BOUNDARY_WRAP;
+  } else if (edgeMode[opposite] == BOUNDARY_WRAP) {
+    edgeMode[opposite] = BOUNDARY_WALL;
+  }
+}
+
+// 获取某条边的边界模式
+export function getBoundary(edge: i32): i32 {
+  return edgeMode[edge];
+}
+
+// 某条边墙壁的恢复系数和摩擦（SIMD 核函数使用，见 simd.ts）
+export function getEdgeRestitution(edge: i32): f32 {
+  return edgeRestitution[edge];
+}
+
+export function getEdgeFriction(edge: i32): f32 {
+  return edgeFriction[edge];
+}
+
+// 是否有开放边界（删除或回收粒子，需要逐个粒子处理）
+export function hasOpenEdge(): bool {
+  for (let edge = 0; edge < 4; edge++) {
+    const mode = unchecked(edgeMode[edge]);
+    if (mode == BOUNDARY_REMOVE || mode == BOUNDARY_RECYCLE) return true;
+  }
+  return false;
+}
+
+// 水平方向是否周期环绕
+export function wrapsX(): bool {
+  return unchecked(edgeMode[EDGE_LEFT]) == BOUNDARY_WRAP;
+}
+
+// 竖直方向是否周期环绕
+export function wrapsY(): bool {
+  return unchecked(edgeMode[EDGE_TOP]) == BOUNDARY_WRAP;
+}
+
+// 对单个粒子应用边界条件
+// 返回 false 表示粒子已经离开开放边界，需要被删除
+export function applyBoundary(
+  particles: Float32Array,
+  offset: i32,
+  width: f32,
+  height: f32
+): bool {
+  let x = particles[offset + FIELD_X];
+  let y = particles[offset + FIELD_Y];
+  let vx = particles[offset + FIELD_VX];
+  let vy = particles[offset + FIELD_VY];
+  const radius = particles[offset + FIELD_RADIUS];
+
+  // 左右两边
+  let edge = -1;
+  if (x - radius < 0) edge = EDGE_LEFT;
+  else if (x + radius > width) edge = EDGE_RIGHT;
+
+  if (edge >= 0) {
+    const mode = unchecked(edgeMode[edge]);
+    const sign: f32 = edge == EDGE_LEFT ? 1 : -1;
+
+    if (mode == BOUNDARY_WALL) {
+      x = edge == EDGE_LEFT ? radius : width - radius;
+      vx = <f32>(Math.abs(vx) * sign * unchecked(edgeRestitution[edge]));
+      vy *= 1 - unchecked(edgeFriction[edge]);
+    } else if (mode == BOUNDARY_WRAP) {
+      // 以粒子中心越过边界为准
+      if (x < 0) x += width;
+      else if (x >= width) x -= width;
+    } else if (x + radius < 0 || x - radius > width) {
+      // 开放边界：粒子完全离开画布后才处理
+      if (mode == BOUNDARY_REMOVE) return false;
+
+      // 回收：从对边重新进入，保持速度
+      x = edge == EDGE_LEFT ? width - radius : radius;
+      y = <f32>(radius + random() * max(height - radius * 2, 0));
+      particles[offset + FIELD_AGE] = 0;
+    }
+  }
+
+  // 上下两边
+  edge = -1;
+  if (y - radius < 0) edge = EDGE_TOP;
+  else if (y + radius > height) edge = EDGE_BOTTOM;
+
+  if (edge >= 0) {
+    const mode = unchecked(edgeMode[edge]);
+    const sign: f32 = edge == EDGE_TOP ? 1 : -1;
+
+    if (mode == BOUNDARY_WALL) {
+      y = edge == EDGE_TOP ? radius : height - radius;
+      vy = <f32>(Math.abs(vy) * sign * unchecked(edgeRestitution[edge]));
+      vx *= 1 - unchecked(edgeFriction[edge]);
+    } else if (mode == BOUNDARY_WRAP) {
+      if (y < 0) y += height;
+      else if (y >= height) y -= height;
+    } else if (y + radius < 0 || y - radius > height) {
+      if (mode == BOUNDARY_REMOVE) return false;
+
+      y = edge == EDGE_TOP ? height - radius : radius;
+      x = <f32>(radius + random() * max(width - radius * 2, 0));
+      particles[offset + FIELD_AGE] = 0;
+    }
+  }
+
+  particles[offset + FIELD_X] = x;
+  particles[offset + FIELD_Y] = y;
+  particles[offset + FIELD_VX] = vx;
+  particles[offset + FIELD_VY] = vy;
+  return true;
+}
+
+// 碰撞分离之后修正位置（不改变速度）
+// 墙壁边把粒子限制在边界内，环绕边把坐标折回 [0, size)，开放边不处理
+export function constrainPosition(
+  particles: Float32Array,
+  offset: i32,
+  width: f32,
+  height: f32
+): void {
+  const radius = particles[offset + FIELD_RADIUS];
+  particles[offset + FIELD_X] = constrainAxis(
+    particles[offset + FIELD_X],
+    radius,
+    width,
+    EDGE_LEFT
+  );
+  particles[offset + FIELD_Y] = constrainAxis(
+    particles[offset + FIELD_Y],
+    radius,
+    height,
+    EDGE_TOP
+  );
+}
+
+function constrainAxis(value: f32, radius: f32, size: f32, low: i32): f32 {
+  const lowMode = unchecked(edgeMode[low]);
+  const highMode = unchecked(edgeMode[low + 1]);
+
+  if (lowMode == BOUNDARY_WRAP) {
+    if (value < 0) return value + size;
+    if (value >= size) return value - size;
+    return value;
+  }
+  if (lowMode == BOUNDARY_WALL && value < radius) return radius;
+  if (highMode == BOUNDARY_WALL && value > size - radius) return size - radius;
+  return value;
+}
+
+// 最小镜像：周期边界下两点之间的最短分量
+export function wrapDelta(delta: f32, size: f32, wraps: bool): f32 {
+  if (!wraps) return delta;
+  const half = size * 0.5;
+  if (delta > half) return delta - size;
+  if (delta < -half) return delta + size;
+  return delta;
+}
@@ -0,0 +1,173 @@
+// 粒子之间的碰撞响应
+// 法向冲量按恢复系数反弹，切向冲量按库仑摩擦限制在 friction × 法向冲量以内
+// 恢复系数和摩擦有全局值，每个种类可以单独覆盖；两个粒子碰撞时取双方的平均值
+// 开启旋转后，接触点的速度包含角速度，摩擦冲量同时改变角速度（粒子视为均匀圆盘）
+// 默认值（恢复系数 0.8、无摩擦、不旋转）就是原来的弹性碰撞模型
+
+import { MAX_SPECIES, speciesOf } from "./forces";
+import {
+  FIELD_VX,
+  FIELD_VY,
+  FIELD_RADIUS,
+  FIELD_MASS,
+  FIELD_ANGULAR_VELOCITY,
+} from "./layout";
+
+let restitution: f32 = 0.8;
+let friction: f32 = 0;
+let rotation: bool = false;
+
+// 每个种类的材质，speciesOverride 为 false 时使用全局值
+// （不是 const：辅助线程的模块实例通过 loadMaterials 指向主实例的数组）
+let speciesOverride = new StaticArray<bool>(MAX_SPECIES);
+let speciesRestitution = new StaticArray<f32>(MAX_SPECIES);
+let speciesFriction = new StaticArray<f32>(MAX_SPECIES);
+
+// saveMaterials 写入的字节数
+export const MATERIAL_BYTES: usize = 24;
+
+// 设置全局的恢复系数 [0, 1] 和摩擦系数（≥ 0）
+export function setCollisionMaterial(_restitution: f32, _friction: f32): void {
+  restitution = clampRestitution(_restitution);
+  friction = max<f32>(_friction, 0);
+}
+
+// 单独设置某个种类的恢复系数和摩擦系数
+export function setSpeciesMaterial(
+  species: i32,
+  _restitution: f32,
+  _friction: f32
+): void {
+  if (species < 0 || species >= MAX_SPECIES) return;
+  speciesOverride[species] = true;
+  speciesRestitution[species] = clampRestitution(_restitution);
+  speciesFriction[species] = max<f32>(_friction, 0);
+}
+
+// 取消所有种类的单独设置，全部使用全局值
+export function clearSpeciesMaterials(): void {
+  for (let species = 0; species < MAX_SPECIES; species++) {
+    speciesOverride[species] = false;
+  }
+}
+
+// 开启或关闭旋转（关闭时角速度保持不变，摩擦只作用于线速度）
+export function setRotation(enabled: bool): void {
+  rotation = enabled;
+}
+
+export function getRotation(): bool {
+  return rotation;
+}
+
+// 处理一对接触的粒子
+// (nx, ny) 是从粒子 1 指向粒子 2 的单位法线
+// 返回 false 表示两者正在分离，不需要处理
+export function resolveCollision(
+  particles: Float32Array,
+  offset1: i32,
+  offset2: i32,
+  nx: f32,
+  ny: f32
+): bool {
+  const vx1 = particles[offset1 + FIELD_VX];
+  const vy1 = particles[offset1 + FIELD_VY];
+  const vx2 = particles[offset2 + FIELD_VX];
+  const vy2 = particles[offset2 + FIELD_VY];
+
+  // 碰撞法线方向的相对速度，dvn > 0 表示两者正在远离
+  const dvx = vx2 - vx1;
+  const dvy = vy2 - vy1;
+  const dvn = dvx * nx + dvy * ny;
+  if (dvn > 0) return false;
+
+  const m1 = particles[offset1 + FIELD_MASS];
+  const m2 = particles[offset2 + FIELD_MASS];
+  const inverseMass: f32 = 1 / m1 + 1 / m2;
+
+  const species1 = speciesOf(particles, offset1);
+  const species2 = speciesOf(particles, offset2);
+  const e = (restitutionOf(species1) + restitutionOf(species2)) * 0.5;
+  const mu = (frictionOf(species1) + frictionOf(species2)) * 0.5;
+
+  // 法向冲量（作用在粒子 2 上为正，粒子 1 上为负），动量守恒
+  const normalImpulse: f32 = (-(1 + e) * dvn) / inverseMass;
+  let jx = normalImpulse * nx;
+  let jy = normalImpulse * ny;
+
+  if (mu > 0) {
+    // 切线方向 t = (-ny, nx)，接触点的切向相对速度包括旋转造成的部分
+    const tx = -ny;
+    const ty = nx;
+    const r1 = particles[offset1 + FIELD_RADIUS];
+    const r2 = particles[offset2 + FIELD_RADIUS];
+    let dvt = dvx * tx + dvy * ty;
+    // 圆盘的转动惯量 I = m·r²/2，切向有效质量的倒数为 1/m + r²/I = 3/m
+    let inverseTangentMass: f32 = inverseMass;
+    if (rotation) {
+      dvt -=
+        particles[offset1 + FIELD_ANGULAR_VELOCITY] * r1 +
+        particles[offset2 + FIELD_ANGULAR_VELOCITY] * r2;
+      inverseTangentMass *= 3;
+    }
+
+    // 让切向相对速度归零所需的冲量，超过库仑摩擦上限时截断（滑动）
+    const limit = mu * normalImpulse;
+    const tangentImpulse = max<f32>(
+      -limit,
+      min<f32>(-dvt / inverseTangentMass, limit)
+    );
+    jx += tangentImpulse * tx;
+    jy += tangentImpulse * ty;
+
+    if (rotation) {
+      particles[offset1 + FIELD_ANGULAR_VELOCITY] -=
+        (2 * tangentImpulse) / (m1 * r1);
+      particles[offset2 + FIELD_ANGULAR_VELOCITY] -=
+        (2 * tangentImpulse) / (m2 * r2);
+    }
+  }
+
+  particles[offset1 + FIELD_VX] = vx1 - jx / m1;
+  particles[offset1 + FIELD_VY] = vy1 - jy / m1;
+  particles[offset2 + FIELD_VX] = vx2 + jx / m2;
+  particles[offset2 + FIELD_VY] = vy2 + jy / m2;
+  return true;
+}
+
+// 把材质写入共享内存中的 target（多线程碰撞检测，见 tiles.ts）
+// 种类材质只写数组的地址，辅助线程直接读取主实例的数组
+export function saveMaterials(target: usize): void {
+  store<f32>(target, restitution, 0);
+  store<f32>(target, friction, 4);
+  store<i32>(target, rotation ? 1 : 0, 8);
+  store<usize>(target, changetype<usize>(speciesOverride), 12);
+  store<usize>(target, changetype<usize>(speciesRestitution), 16);
+  store<usize>(target, changetype<usize>(speciesFriction), 20);
+}
+
+// 从 saveMaterials 写入的数据恢复材质
+export function loadMaterials(source: usize): void {
+  restitution = load<f32>(source, 0);
+  friction = load<f32>(source, 4);
+  rotation = load<i32>(source, 8) != 0;
+  speciesOverride = changetype<StaticArray<bool>>(load<usize>(source, 12));
+  speciesRestitution = changetype<StaticArray<f32>>(load<usize>(source, 16));
+  speciesFriction = changetype<StaticArray<f32>>(load<usize>(source, 20));
+}
+
+function restitutionOf(species: i32): f32 {
+  return unchecked(speciesOverride[species])
+    ? unchecked(speciesRestitution[species])
+    : restitution;
+}
+
+function frictionOf(species: i32): f32 {
+  return unchecked(speciesOverride[species])
+    ? unchecked(speciesFriction[species])
+    : friction;
+}
+
+function clampRestitution(value: f32): f32 {
+  return max<f32>(0, min<f32>(value, 1));
+}
@@ -0,0 +1,343 @@
+// 发射器与汇
+// 发射器按速率持续生成粒子，支持三种形状：
+// - 点：从一个点发射
+// - 线：从线段上均匀随机的位置发射
+// - 区域：从矩形区域内均匀随机的位置发射
+// 发射方向在以 direction 为中心、半角为 spread 的锥形内随机，速度和半径在各自的范围内均匀随机
+// 汇（sink）删除中心进入其区域的粒子，支持圆形和矩形
+
+import { random } from "./random";
+
+// 发射器类型
+export const EMITTER_NONE: i32 = -1; // 已删除的空位
+export const EMITTER_POINT: i32 = 0;
+export const EMITTER_LINE: i32 = 1;
+export const EMITTER_AREA: i32 = 2;
+
+// 汇类型
+export const SINK_NONE: i32 = -1; // 已删除的空位
+export const SINK_CIRCLE: i32 = 0;
+export const SINK_RECT: i32 = 1;
+
+class Emitter {
+  constructor(
+    public kind: i32,
+    // 点: [x, y, x, y]，线: [x1, y1, x2, y2]，区域: [minX, minY, maxX, maxY]
+    public shape: StaticArray<f32>
+  ) {}
+
+  // 每秒生成的粒子数
+  rate: f32 = 30;
+
+  // 发射方向（弧度，屏幕坐标下 0 指向右，-π/2 指向上）和锥形的半角
+  direction: f32 = <f32>(-Math.PI / 2);
+  spread: f32 = 0;
+
+  // 初速度范围（像素/秒）
+  minSpeed: f32 = 100;
+  maxSpeed: f32 = 100;
+
+  // 半径范围（像素）
+  minRadius: f32 = 3;
+  maxRadius: f32 = 8;
+
+  // 寿命（秒），0 表示永久存在
+  lifetime: f32 = 0;
+
+  // 累积的待生成粒子数（不足一个的部分留到下一步）
+  pending: f32 = 0;
+}
+
+class Sink {
+  constructor(
+    public kind: i32,
+    // 圆形: [x, y, radius, 0]，矩形: [minX, minY, maxX, maxY]
+    public shape: StaticArray<f32>
+  ) {}
+}
+
+// 发射器和汇的下标就是它们的 id，删除后留下空位，id 不会变化
+let emitters = new Array<Emitter | null>();
+let sinks = new Array<Sink | null>();
+
+// 发射器或汇每次变化时递增，渲染器据此判断是否需要重新生成绘制数据
+let version: i32 = 0;
+
+// 粒子总数达到这个数量后发射器暂停，避免没有汇时粒子无限增加
+let particleLimit: i32 = 5000;
+
+// 生成一个粒子（由 index.ts 提供，写入粒子数组）
+export type EmitFunction = (
+  x: f32,
+  y: f32,
+  vx: f32,
+  vy: f32,
+  radius: f32,
+  lifetime: f32
+) => void;
+
+// 添加点发射器，返回 id
+export function addPointEmitter(x: f32, y: f32): i32 {
+  return addEmitter(EMITTER_POINT, x, y, x, y);
+}
+
+// 添加线发射器，返回 id
+export function addLineEmitter(x1: f32, y1: f32, x2: f32, y2: f32): i32 {
+  return addEmitter(EMITTER_LINE, x1, y1, x2, y2);
+}
+
+// 添加矩形区域发射器，返回 id
+export function addAreaEmitter(
+  minX: f32,
+  minY: f32,
+  maxX: f32,
+  maxY: f32
+): i32 {
+  return addEmitter(
+    EMITTER_AREA,
+    min(minX, maxX),
+    min(minY, maxY),
+    max(minX, maxX),
+    max(minY, maxY)
+  );
+}
+
+// 设置发射速率（粒子/秒）
+export function setEmitterRate(id: i32, rate: f32): void {
+  const emitter = getEmitter(id);
+  if (emitter) emitter.rate = max(rate, 0);
+}
+
+// 设置发射方向（弧度）、锥形半角（弧度）和初速度范围（像素/秒）
+export function setEmitterVelocity(
+  id: i32,
+  direction: f32,
+  spread: f32,
+  minSpeed: f32,
+  maxSpeed: f32
+): void {
+  const emitter = getEmitter(id);
+  if (!emitter) return;
+  emitter.direction = direction;
+  emitter.spread = abs(spread);
+  emitter.minSpeed = min(minSpeed, maxSpeed);
+  emitter.maxSpeed = max(minSpeed, maxSpeed);
+}
+
+// 设置生成粒子的半径范围（像素）
+export function setEmitterRadius(
+  id: i32,
+  minRadius: f32,
+  maxRadius: f32
+): void {
+  const emitter = getEmitter(id);
+  if (!emitter) return;
+  emitter.minRadius = max(min(minRadius, maxRadius), 0.5);
+  emitter.maxRadius = max(max(minRadius, maxRadius), 0.5);
+}
+
+// 设置生成粒子的寿命（秒），0 表示永久存在
+export function setEmitterLifetime(id: i32, lifetime: f32): void {
+  const emitter = getEmitter(id);
+  if (emitter) emitter.lifetime = max(lifetime, 0);
+}
+
+// 删除发射器，id 不存在时返回 false
+export function removeEmitter(id: i32): bool {
+  if (!getEmitter(id)) return false;
+  emitters[id] = null;
+  version++;
+  return true;
+}
+
+// 删除所有发射器
+export function clearEmitters(): void {
+  emitters.length = 0;
+  version++;
+}
+
+// 设置发射器允许的粒子总数上限
+export function setParticleLimit(limit: i32): void {
+  particleLimit = max(limit, 0);
+}
+
+// 添加圆形汇，返回 id
+export function addCircleSink(x: f32, y: f32, radius: f32): i32 {
+  return addSink(SINK_CIRCLE, x, y, max(radius, 0), 0);
+}
+
+// 添加矩形汇，返回 id
+export function addRectSink(minX: f32, minY: f32, maxX: f32, maxY: f32): i32 {
+  return addSink(
+    SINK_RECT,
+    min(minX, maxX),
+    min(minY, maxY),
+    max(minX, maxX),
+    max(minY, maxY)
+  );
+}
+
+// 删除汇，id 不存在时返回 false
+export function removeSink(id: i32): bool {
+  if (id < 0 || id >= sinks.length || !sinks[id]) return false;
+  sinks[id] = null;
+  version++;
+  return true;
+}
+
+// 删除所有汇
+export function clearSinks(): void {
+  sinks.length = 0;
+  version++;
+}
+
+// 发射器的槽位数（包括已删除的空位），id 的范围是 [0, slots)
+export function getEmitterSlots(): i32 {
+  return emitters.length;
+}
+
+export function getEmitterKind(id: i32): i32 {
+  const emitter = getEmitter(id);
+  return emitter ? emitter.kind : EMITTER_NONE;
+}
+
+// 发射器形状的第 i 个值（i 为 0-3，含义见 Emitter.shape）
+export function getEmitterShape(id: i32, i: i32): f32 {
+  const emitter = getEmitter(id);
+  return emitter && i >= 0 && i < 4 ? emitter.shape[i] : 0;
+}
+
+// 汇的槽位数（包括已删除的空位），id 的范围是 [0, slots)
+export function getSinkSlots(): i32 {
+  return sinks.length;
+}
+
+export function getSinkKind(id: i32): i32 {
+  if (id < 0 || id >= sinks.length) return SINK_NONE;
+  const sink = sinks[id];
+  return sink ? sink.kind : SINK_NONE;
+}
+
+// 汇形状的第 i 个值（i 为 0-3，含义见 Sink.shape）
+export function getSinkShape(id: i32, i: i32): f32 {
+  if (id < 0 || id >= sinks.length || i < 0 || i >= 4) return 0;
+  const sink = sinks[id];
+  return sink ? sink.shape[i] : 0;
+}
+
+export function getEmitterVersion(): i32 {
+  return version;
+}
+
+// 清空所有发射器累积的待生成粒子（重新初始化粒子时调用，保证结果可以复现）
+export function resetEmitters(): void {
+  for (let id = 0; id < emitters.length; id++) {
+    const emitter = emitters[id];
+    if (emitter) emitter.pending = 0;
+  }
+}
+
+// 运行所有发射器：按 deltaTime 累积待生成的粒子，对每个粒子调用 emit
+export function runEmitters(
+  deltaTime: f32,
+  particleCount: i32,
+  emit: EmitFunction
+): void {
+  let room = particleLimit - particleCount;
+
+  for (let id = 0; id < emitters.length; id++) {
+    const emitter = emitters[id];
+    if (!emitter) continue;
+
+    emitter.pending += emitter.rate * deltaTime;
+    const due = <i32>emitter.pending;
+    emitter.pending -= <f32>due;
+
+    // 达到上限后多出的粒子直接丢弃
+    const count = min(due, max(room, 0));
+    room -= count;
+
+    const shape = emitter.shape;
+    for (let i = 0; i < count; i++) {
+      // 发射位置
+      let x = shape[0];
+      let y = shape[1];
+      if (emitter.kind == EMITTER_LINE) {
+        const t = <f32>random();
+        x += (shape[2] - shape[0]) * t;
+        y += (shape[3] - shape[1]) * t;
+      } else if (emitter.kind == EMITTER_AREA) {
+        x += (shape[2] - shape[0]) * <f32>random();
+        y += (shape[3] - shape[1]) * <f32>random();
+      }
+
+      // 锥形内的方向和速度
+      const angle =
+        emitter.direction + emitter.spread * <f32>(random() * 2 - 1);
+      const speed =
+        emitter.minSpeed +
+        (emitter.maxSpeed - emitter.minSpeed) * <f32>random();
+      const radius =
+        emitter.minRadius +
+        (emitter.maxRadius - emitter.minRadius) * <f32>random();
+
+      emit(
+        x,
+        y,
+        <f32>Math.cos(angle) * speed,
+        <f32>Math.sin(angle) * speed,
+        radius,
+        emitter.lifetime
+      );
+    }
+  }
+}
+
+// 点 (x, y) 是否在任意一个汇中
+export function insideSink(x: f32, y: f32): bool {
+  for (let id = 0; id < sinks.length; id++) {
+    const sink = sinks[id];
+    if (!sink) continue;
+
+    const shape = sink.shape;
+    if (sink.kind == SINK_CIRCLE) {
+      const dx = x - shape[0];
+      const dy = y - shape[1];
+      if (dx * dx + dy * dy < shape[2] * shape[2]) return true;
+    } else if (
+      x >= shape[0] &&
+      x <= shape[2] &&
+      y >= shape[1] &&
+      y <= shape[3]
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function addEmitter(kind: i32, a: f32, b: f32, c: f32, d: f32): i32 {
+  emitters.push(new Emitter(kind, shapeOf(a, b, c, d)));
+  version++;
+  return emitters.length - 1;
+}
+
+function addSink(kind: i32, a: f32, b: f32, c: f32, d: f32): i32 {
+  sinks.push(new Sink(kind, shapeOf(a, b, c, d)));
+  version++;
+  return sinks.length - 1;
+}
+
+function getEmitter(id: i32): Emitter | null {
+  if (id < 0 || id >= emitters.length) return null;
+  return emitters[id];
+}
+
+function shapeOf(a: f32, b: f32, c: f32, d: f32): StaticArray<f32> {
+  const shape = new StaticArray<f32>(4);
+  shape[0] = a;
+  shape[1] = b;
+  shape[2] = c;
+  shape[3] = d;
+  return shape;
+}
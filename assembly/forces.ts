@@ -0,0 +1,235 @@
+// 粒子间作用力
+// 碰撞之外的成对作用力，同一时间只有一种模式生效：
+// - 软排斥：距离小于作用范围时互相推开，线性衰减到范围边缘为 0
+// - Lennard-Jones：接触距离处平衡，更近时强烈排斥，稍远处微弱吸引
+// - 凝聚：接触距离到作用范围之间互相吸引
+// - 种类吸引矩阵："particle life" 式的作用力，吸引或排斥由双方的种类查表决定，可以不对称
+// - 万有引力：所有粒子之间按质量互相吸引，使用 Barnes–Hut 四叉树近似
+// 短程作用力复用碰撞检测的空间网格，只遍历作用范围覆盖的单元
+// strength 是加速度的尺度（像素/秒²），万有引力模式下是引力常数
+
+import {
+  gridWidth,
+  gridHeight,
+  cellSizeX,
+  cellSizeY,
+  cellStart,
+  cellIndices,
+  particleCell,
+  wrapCell,
+} from "./grid";
+import { wrapDelta } from "./boundary";
+import {
+  buildQuadtree,
+  accumulate,
+  accelerationX,
+  accelerationY,
+} from "./quadtree";
+import {
+  PARTICLE_STRIDE,
+  FIELD_X,
+  FIELD_Y,
+  FIELD_VX,
+  FIELD_VY,
+  FIELD_RADIUS,
+  FIELD_SPECIES,
+} from "./layout";
+
+// 作用力模式
+export const PAIR_FORCE_NONE: i32 = 0;
+export const PAIR_FORCE_SOFT: i32 = 1;
+export const PAIR_FORCE_LENNARD_JONES: i32 = 2;
+export const PAIR_FORCE_COHESION: i32 = 3;
+export const PAIR_FORCE_SPECIES: i32 = 4;
+export const PAIR_FORCE_GRAVITY: i32 = 5;
+
+// 种类数上限（吸引矩阵的大小）
+export const MAX_SPECIES: i32 = 8;
+
+let mode: i32 = PAIR_FORCE_NONE;
+let strength: f32 = 1000;
+
+// 作用范围（像素），万有引力模式下是软化长度
+let range: f32 = 40;
+
+// Barnes–Hut 的开角：节点边长与距离之比小于它时整体计算，越小越精确
+let theta: f32 = 0.7;
+
+// 吸引矩阵：attraction[a * MAX_SPECIES + b] 是种类 b 对种类 a 的作用 [-1, 1]，正数为吸引
+const attraction = new StaticArray<f32>(MAX_SPECIES * MAX_SPECIES);
+
+// Lennard-Jones 排斥的上限：距离小于接触距离的 1/1.2 时不再增大，避免重叠时速度爆炸
+const MAX_LJ_RATIO: f32 = 1.2;
+
+// 设置作用力模式、强度和作用范围
+export function setPairForce(_mode: i32, _strength: f32, _range: f32): void {
+  mode = _mode;
+  strength = _strength;
+  range = max(_range, 1);
+}
+
+export function getPairForceMode(): i32 {
+  return mode;
+}
+
+// 设置 Barnes–Hut 的开角，0 表示精确计算所有粒子对
+export function setBarnesHutTheta(value: f32): void {
+  theta = max(value, 0);
+}
+
+// 设置种类 target 受到种类 source 的作用 [-1, 1]
+export function setSpeciesAttraction(
+  target: i32,
+  source: i32,
+  value: f32
+): void {
+  if (!validSpecies(target) || !validSpecies(source)) return;
+  attraction[target * MAX_SPECIES + source] = max<f32>(-1, min<f32>(value, 1));
+}
+
+export function getSpeciesAttraction(target: i32, source: i32): f32 {
+  if (!validSpecies(target) || !validSpecies(source)) return 0;
+  return attraction[target * MAX_SPECIES + source];
+}
+
+// 在 deltaTime 内积分粒子间作用力（空间网格必须已经按当前位置构建）
+export function applyPairForces(
+  particles: Float32Array,
+  count: i32,
+  deltaTime: f32,
+  width: f32,
+  height: f32,
+  wrapX: bool,
+  wrapY: bool
+): void {
+  if (mode == PAIR_FORCE_NONE || strength == 0) return;
+  if (mode == PAIR_FORCE_GRAVITY) {
+    applyGravitation(particles, count, deltaTime);
+    return;
+  }
+
+  // 作用范围覆盖的单元数（每个方向），环绕方向上不超过网格本身
+  const reachX = <i32>Mathf.ceil(range / cellSizeX);
+  const reachY = <i32>Mathf.ceil(range / cellSizeY);
+  const spanX = wrapX ? min(reachX * 2 + 1, gridWidth) : reachX * 2 + 1;
+  const spanY = wrapY ? min(reachY * 2 + 1, gridHeight) : reachY * 2 + 1;
+  const firstX = spanX == reachX * 2 + 1 ? -reachX : 0;
+  const firstY = spanY == reachY * 2 + 1 ? -reachY : 0;
+  const rangeSq = range * range;
+
+  for (let i = 0; i < count; i++) {
+    const offset1 = i * PARTICLE_STRIDE;
+    const x1 = particles[offset1 + FIELD_X];
+    const y1 = particles[offset1 + FIELD_Y];
+    const r1 = particles[offset1 + FIELD_RADIUS];
+    const s1 = speciesOf(particles, offset1);
+
+    const cell = unchecked(particleCell[i]);
+    const cellX = cell % gridWidth;
+    const cellY = cell / gridWidth;
+
+    for (let offsetY = 0; offsetY < spanY; offsetY++) {
+      const checkCellY = wrapCell(cellY + firstY + offsetY, gridHeight, wrapY);
+      if (checkCellY < 0 || checkCellY >= gridHeight) continue;
+
+      for (let offsetX = 0; offsetX < spanX; offsetX++) {
+        const checkCellX = wrapCell(cellX + firstX + offsetX, gridWidth, wrapX);
+        if (checkCellX < 0 || checkCellX >= gridWidth) continue;
+
+        const cellIndex = checkCellY * gridWidth + checkCellX;
+        const start = unchecked(cellStart[cellIndex]);
+        const end = unchecked(cellStart[cellIndex + 1]);
+
+        for (let k = start; k < end; k++) {
+          // 每对粒子只处理一次，同时更新双方
+          const j = unchecked(cellIndices[k]);
+          if (j <= i) continue;
+
+          const offset2 = j * PARTICLE_STRIDE;
+          const dx = wrapDelta(particles[offset2 + FIELD_X] - x1, width, wrapX);
+          const dy = wrapDelta(
+            particles[offset2 + FIELD_Y] - y1,
+            height,
+            wrapY
+          );
+          const distSq = dx * dx + dy * dy;
+          if (distSq >= rangeSq || distSq < 0.01) continue;
+
+          const dist = Mathf.sqrt(distSq);
+          const contact = r1 + particles[offset2 + FIELD_RADIUS];
+
+          // 沿 i → j 方向的加速度，正数为吸引
+          let toJ: f32 = 0;
+          let toI: f32 = 0;
+          if (mode == PAIR_FORCE_SOFT) {
+            toJ = -strength * (1 - dist / range);
+            toI = toJ;
+          } else if (mode == PAIR_FORCE_LENNARD_JONES) {
+            // 势能最低点在接触距离处：a ∝ (s¹² - s⁶)，s = 接触距离 / 距离
+            const s = min(contact / dist, MAX_LJ_RATIO);
+            const s6 = s * s * s * s * s * s;
+            toJ = -strength * (s6 * s6 - s6);
+            toI = toJ;
+          } else {
+            const hump = bump(dist, contact);
+            if (mode == PAIR_FORCE_COHESION) {
+              toJ = strength * hump;
+              toI = toJ;
+            } else if (mode == PAIR_FORCE_SPECIES) {
+              const s2 = speciesOf(particles, offset2);
+              toJ =
+                strength * hump * unchecked(attraction[s1 * MAX_SPECIES + s2]);
+              toI =
+                strength * hump * unchecked(attraction[s2 * MAX_SPECIES + s1]);
+            }
+          }
+
+          const nx = dx / dist;
+          const ny = dy / dist;
+          particles[offset1 + FIELD_VX] += nx * toJ * deltaTime;
+          particles[offset1 + FIELD_VY] += ny * toJ * deltaTime;
+          particles[offset2 + FIELD_VX] -= nx * toI * deltaTime;
+          particles[offset2 + FIELD_VY] -= ny * toI * deltaTime;
+        }
+      }
+    }
+  }
+}
+
+// 接触距离到作用范围之间的钟形曲线，中点处为 1，两端为 0
+function bump(dist: f32, contact: f32): f32 {
+  if (dist <= contact || contact >= range) return 0;
+  const half = (range - contact) * 0.5;
+  return ((dist - contact) * (range - dist)) / (half * half);
+}
+
+// 万有引力：a = G · Σ m·d / (|d|² + ε²)^1.5，边界环绕时不考虑镜像
+function applyGravitation(
+  particles: Float32Array,
+  count: i32,
+  deltaTime: f32
+): void {
+  buildQuadtree(particles, count);
+  const scale = strength * deltaTime;
+  for (let i = 0; i < count; i++) {
+    const offset = i * PARTICLE_STRIDE;
+    accumulate(
+      i,
+      particles[offset + FIELD_X],
+      particles[offset + FIELD_Y],
+      theta,
+      range
+    );
+    particles[offset + FIELD_VX] += accelerationX * scale;
+    particles[offset + FIELD_VY] += accelerationY * scale;
+  }
+}
+
+// 粒子的种类（超出矩阵范围的按最后一个种类处理）
+export function speciesOf(particles: Float32Array, offset: i32): i32 {
+  return max(0, min(<i32>particles[offset + FIELD_SPECIES], MAX_SPECIES - 1));
+}
+
+function validSpecies(species: i32): bool {
+  return species >= 0 && species < MAX_SPECIES;
+}
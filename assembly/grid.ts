@@ -0,0 +1,129 @@
+// 空间网格（宽相位碰撞检测）
+// 使用计数排序把粒子按所在网格单元排列，每个单元对应 cellIndices 中连续的一段：
+//   cellIndices[cellStart[c] .. cellStart[c + 1]) 是单元 c 中的粒子下标
+// 所有缓冲区都是预分配的 StaticArray，只在容量不足时扩容，每步构建不产生垃圾
+
+import { PARTICLE_STRIDE, FIELD_X, FIELD_Y } from "./layout";
+
+// 单元边长（环绕方向上会略微放大，使单元恰好铺满世界）
+export let cellSizeX: f32 = 20.0;
+export let cellSizeY: f32 = 20.0;
+export let gridWidth: i32 = 0;
+export let gridHeight: i32 = 0;
+
+// 每个单元在 cellIndices 中的起始位置，长度为单元数 + 1
+export let cellStart = new StaticArray<i32>(2);
+
+// 按单元排序后的粒子下标
+export let cellIndices = new StaticArray<i32>(0);
+
+// 每个粒子所在的单元
+export let particleCell = new StaticArray<i32>(0);
+
+// 计数排序时的写入游标
+let cellCursor = new StaticArray<i32>(0);
+
+// 单元边长的下限（默认的最大粒子半径）
+// 没有粒子或粒子都很小时，单元不会小到 1 px，否则每步都要清空百万级的单元
+const MIN_CELL_SIZE: f32 = 8.0;
+
+// 构建空间网格
+// minCellSize 应不小于最大粒子直径，这样相互碰撞的粒子一定位于相邻的单元中
+// wrapX / wrapY 为 true 时，该方向的单元数取整，保证首尾单元在环绕后相邻
+// 没有粒子时构建只有 1 个空单元的网格
+export function buildGrid(
+  particles: Float32Array,
+  count: i32,
+  width: f32,
+  height: f32,
+  minCellSize: f32,
+  wrapX: bool,
+  wrapY: bool
+): void {
+  if (count == 0) {
+    gridWidth = 1;
+    gridHeight = 1;
+    cellSizeX = max(width, MIN_CELL_SIZE);
+    cellSizeY = max(height, MIN_CELL_SIZE);
+    unchecked((cellStart[0] = 0));
+    unchecked((cellStart[1] = 0));
+    return;
+  }
+
+  const size = max(minCellSize, MIN_CELL_SIZE);
+  if (wrapX) {
+    gridWidth = max(<i32>(width / size), 1);
+    cellSizeX = width / <f32>gridWidth;
+  } else {
+    gridWidth = <i32>(width / size) + 1;
+    cellSizeX = size;
+  }
+  if (wrapY) {
+    gridHeight = max(<i32>(height / size), 1);
+    cellSizeY = height / <f32>gridHeight;
+  } else {
+    gridHeight = <i32>(height / size) + 1;
+    cellSizeY = size;
+  }
+  const totalCells = gridWidth * gridHeight;
+
+  // 按需扩容
+  if (cellStart.length < totalCells + 1) {
+    cellStart = new StaticArray<i32>(totalCells + 1);
+    cellCursor = new StaticArray<i32>(totalCells);
+  }
+  if (cellIndices.length < count) {
+    cellIndices = new StaticArray<i32>(count);
+    particleCell = new StaticArray<i32>(count);
+  }
+
+  // 1. 统计每个单元的粒子数
+  for (let c = 0; c < totalCells; c++) {
+    unchecked((cellCursor[c] = 0));
+  }
+  for (let i = 0; i < count; i++) {
+    const offset = i * PARTICLE_STRIDE;
+    const x = particles[offset + FIELD_X];
+    const y = particles[offset + FIELD_Y];
+    const cell = cellOf(x, y);
+    unchecked((particleCell[i] = cell));
+    unchecked((cellCursor[cell] += 1));
+  }
+
+  // 2. 前缀和得到每个单元的起始位置
+  let start = 0;
+  for (let c = 0; c < totalCells; c++) {
+    unchecked((cellStart[c] = start));
+    start += unchecked(cellCursor[c]);
+    unchecked((cellCursor[c] = unchecked(cellStart[c])));
+  }
+  unchecked((cellStart[totalCells] = start));
+
+  // 3. 把粒子下标写入各自单元的区间
+  for (let i = 0; i < count; i++) {
+    const cell = unchecked(particleCell[i]);
+    const slot = unchecked(cellCursor[cell]);
+    unchecked((cellIndices[slot] = i));
+    unchecked((cellCursor[cell] = slot + 1));
+  }
+}
+
+// 计算坐标所在的单元
+// 超出边界的坐标归入最近的边缘单元，而不是被丢弃
+export function cellOf(x: f32, y: f32): i32 {
+  const cellX = clampCell(<i32>Mathf.floor(x / cellSizeX), gridWidth);
+  const cellY = clampCell(<i32>Mathf.floor(y / cellSizeY), gridHeight);
+  return cellY * gridWidth + cellX;
+}
+
+function clampCell(cell: i32, size: i32): i32 {
+  return max(0, min(cell, size - 1));
+}
+
+// 网格坐标环绕：周期方向上越界的单元折回另一侧
+export function wrapCell(cell: i32, size: i32, wraps: bool): i32 {
+  if (!wraps) return cell;
+  if (cell < 0) return cell + size;
+  if (cell >= size) return cell - size;
+  return cell;
+}
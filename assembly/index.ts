@@ -1,51 +1,215 @@
+import { random } from "./random";
+import {
+  buildGrid,
+  gridWidth,
+  gridHeight,
+  cellStart,
+  cellIndices,
+  particleCell,
+  cellOf,
+  wrapCell,
+} from "./grid";
+import {
+  applyBoundary,
+  constrainPosition,
+  wrapsX,
+  wrapsY,
+  wrapDelta,
+} from "./boundary";
+import { prepareObstacles, collideObstacles } from "./obstacles";
+import { runEmitters, insideSink, resetEmitters } from "./emitters";
+import { applyPairForces, MAX_SPECIES } from "./forces";
+import { collideTiles, getWatchedCollisions } from "./tiles";
+import { integrateSimd, applyGravitySimd, applyForceSimd } from "./simd";
+
+import {
+  PARTICLE_STRIDE,
+  FIELD_X,
+  FIELD_Y,
+  FIELD_VX,
+  FIELD_VY,
+  FIELD_RADIUS,
+  FIELD_MASS,
+  FIELD_COLOR_R,
+  FIELD_COLOR_G,
+  FIELD_COLOR_B,
+  FIELD_SPECIES,
+  FIELD_AGE,
+  FIELD_LIFETIME,
+  FIELD_FLAGS,
+  FIELD_DENSITY,
+  FIELD_ANGLE,
+  FIELD_ANGULAR_VELOCITY,
+} from "./layout";
+
+export { setSeed, getSeed } from "./random";
+export {
+  setBoundary,
+  getBoundary,
+  EDGE_LEFT,
+  EDGE_RIGHT,
+  EDGE_TOP,
+  EDGE_BOTTOM,
+  BOUNDARY_WALL,
+  BOUNDARY_WRAP,
+  BOUNDARY_REMOVE,
+  BOUNDARY_RECYCLE,
+} from "./boundary";
+export {
+  addCircleObstacle,
+  addSegment,
+  beginPolygon,
+  addPolygonVertex,
+  endPolygon,
+  removeObstacle,
+  clearObstacles,
+  setObstacleMaterial,
+  getObstacleSlots,
+  getObstacleVersion,
+  getObstacleKind,
+  getObstacleRadius,
+  getObstaclePointCount,
+  getObstaclePointX,
+  getObstaclePointY,
+  OBSTACLE_NONE,
+  OBSTACLE_CIRCLE,
+  OBSTACLE_SEGMENT,
+  OBSTACLE_POLYGON,
+} from "./obstacles";
+export {
+  addPointEmitter,
+  addLineEmitter,
+  addAreaEmitter,
+  setEmitterRate,
+  setEmitterVelocity,
+  setEmitterRadius,
+  setEmitterLifetime,
+  removeEmitter,
+  clearEmitters,
+  setParticleLimit,
+  addCircleSink,
+  addRectSink,
+  removeSink,
+  clearSinks,
+  getEmitterSlots,
+  getEmitterKind,
+  getEmitterShape,
+  getSinkSlots,
+  getSinkKind,
+  getSinkShape,
+  getEmitterVersion,
+  EMITTER_NONE,
+  EMITTER_POINT,
+  EMITTER_LINE,
+  EMITTER_AREA,
+  SINK_NONE,
+  SINK_CIRCLE,
+  SINK_RECT,
+} from "./emitters";
+export {
+  setPairForce,
+  getPairForceMode,
+  setBarnesHutTheta,
+  setSpeciesAttraction,
+  getSpeciesAttraction,
+  PAIR_FORCE_NONE,
+  PAIR_FORCE_SOFT,
+  PAIR_FORCE_LENNARD_JONES,
+  PAIR_FORCE_COHESION,
+  PAIR_FORCE_SPECIES,
+  PAIR_FORCE_GRAVITY,
+  MAX_SPECIES,
+} from "./forces";
+export { getQuadtreeNodeCount } from "./quadtree";
+export {
+  setCollisionMaterial,
+  setSpeciesMaterial,
+  clearSpeciesMaterials,
+  setRotation,
+  getRotation,
+} from "./collision";
+export {
+  getPairsChecked,
+  getCollisionsResolved,
+  getCollisionContext,
+  runCollisionWorker,
+} from "./tiles";
+export {
+  setParticleStorage,
+  getParticleStorage,
+  PARTICLE_STORAGE_AOS,
+  PARTICLE_STORAGE_SOA,
+} from "./simd";
+export * from "./layout";
+
 // 粒子数据结构
 // 使用平坦数组存储粒子数据以提高性能
-// 每个粒子: [x, y, vx, vy, radius, mass]
-
-const PARTICLE_SIZE = 6; // 每个粒子的属性数量
+// 每个粒子占 PARTICLE_STRIDE 个 float，字段偏移见 layout.ts
 let particleCount: i32 = 0;
 let particles: Float32Array = new Float32Array(0);
-let damping: f32 = 0.999; // 阻尼系数
+let damping: f32 = 0.999; // 阻尼系数（每 1/60 秒保留的速度比例）
 let minRadius: f32 = 3.0; // 最小半径
 let maxRadius: f32 = 8.0; // 最大半径
-
-// 空间分区优化
-let gridCellSize: f32 = 20.0;
-let gridWidth: i32 = 0;
-let gridHeight: i32 = 0;
-let grid: Array<Array<i32>> = new Array<Array<i32>>(0);
+let speciesCount: i32 = 1; // 新粒子的种类在 [0, speciesCount) 中随机
 
 // 初始化粒子系统
+// 粒子的初始状态完全由随机种子决定（见 setSeed）
 export function initParticles(
   count: i32,
   width: f32,
   height: f32,
   _damping: f32
 ): void {
-  particleCount = count;
-  particles = new Float32Array(count * PARTICLE_SIZE);
+  particleCount = 0;
+  particles = new Float32Array(count * PARTICLE_STRIDE);
   damping = _damping;
+  releaseAllParticles();
+  resetEmitters();
+  addRandomParticles(count, width, height);
+}
 
-  for (let i = 0; i < count; i++) {
-    const offset = i * PARTICLE_SIZE;
-
-    // 随机位置
-    particles[offset] = <f32>(Math.random() * width); // x
-    particles[offset + 1] = <f32>(Math.random() * height); // y
-
-    // 随机速度（降低初始速度）
-    particles[offset + 2] = <f32>((Math.random() - 0.5) * 50); // vx
-    particles[offset + 3] = <f32>((Math.random() - 0.5) * 50); // vy
+// 在设置的半径范围内随机取一个半径
+function randomRadius(): f32 {
+  return <f32>(minRadius + random() * (maxRadius - minRadius));
+}
 
-    // 半径（使用可配置的范围）
-    particles[offset + 4] = <f32>(
-      (minRadius + Math.random() * (maxRadius - minRadius))
-    ); // radius
+// 随机取一个种类（只有一个种类时不消耗随机数）
+function randomSpecies(): f32 {
+  if (speciesCount <= 1) return 0;
+  return <f32>Math.floor(random() * speciesCount);
+}
 
-    // 质量 (与半径成正比)
-    const radius = particles[offset + 4];
-    particles[offset + 5] = radius * radius; // mass
-  }
+// 在 offset 处写入一个新粒子，其余字段为默认值
+function writeParticle(
+  offset: i32,
+  x: f32,
+  y: f32,
+  vx: f32,
+  vy: f32,
+  radius: f32
+): void {
+  particles[offset + FIELD_X] = x;
+  particles[offset + FIELD_Y] = y;
+  particles[offset + FIELD_VX] = vx;
+  particles[offset + FIELD_VY] = vy;
+  particles[offset + FIELD_RADIUS] = radius;
+
+  // 质量 (与半径成正比)
+  particles[offset + FIELD_MASS] = radius * radius;
+
+  // 默认颜色（浅蓝色）
+  particles[offset + FIELD_COLOR_R] = 0.4;
+  particles[offset + FIELD_COLOR_G] = 0.7;
+  particles[offset + FIELD_COLOR_B] = 1.0;
+
+  // 种类、寿命与标志位
+  particles[offset + FIELD_SPECIES] = randomSpecies();
+  particles[offset + FIELD_AGE] = 0;
+  particles[offset + FIELD_LIFETIME] = 0; // 永久存在
+  particles[offset + FIELD_FLAGS] = 0;
+  particles[offset + FIELD_DENSITY] = 0;
+  particles[offset + FIELD_ANGLE] = 0;
+  particles[offset + FIELD_ANGULAR_VELOCITY] = 0;
 }
 
 // 设置粒子半径范围
@@ -54,6 +218,21 @@ export function setRadiusRange(min: f32, max: f32): void {
   maxRadius = max;
 }
 
+// 设置种类数 [1, MAX_SPECIES]
+// 数量改变时现有粒子按下标轮流分配种类，之后加入的粒子随机取种类
+export function setSpeciesCount(count: i32): void {
+  const clamped = max(1, min(count, MAX_SPECIES));
+  if (clamped == speciesCount) return;
+  speciesCount = clamped;
+  for (let i = 0; i < particleCount; i++) {
+    particles[i * PARTICLE_STRIDE + FIELD_SPECIES] = <f32>(i % speciesCount);
+  }
+}
+
+export function getSpeciesCount(): i32 {
+  return speciesCount;
+}
+
 // 设置阻尼系数
 export function setDamping(value: f32): void {
   damping = value;
@@ -64,211 +243,431 @@ export function getParticlesPtr(): usize {
   return particles.dataStart;
 }
 
-// 更新粒子物理
-export function updateParticles(deltaTime: f32, width: f32, height: f32): void {
-  const dt = deltaTime;
+// 获取当前粒子数量（开放边界会删除粒子，数量可能减少）
+export function getParticleCount(): i32 {
+  return particleCount;
+}
 
-  // 更新位置和速度
-  for (let i = 0; i < particleCount; i++) {
-    const offset = i * PARTICLE_SIZE;
-
-    let x = particles[offset];
-    let y = particles[offset + 1];
-    let vx = particles[offset + 2];
-    let vy = particles[offset + 3];
-    const radius = particles[offset + 4];
-
-    // 应用速度
-    x += vx * dt;
-    y += vy * dt;
-
-    // 应用阻尼
-    vx *= damping;
-    vy *= damping;
-
-    // 边界碰撞检测
-    if (x - radius < 0) {
-      x = radius;
-      vx = <f32>(Math.abs(vx) * 0.8);
-    } else if (x + radius > width) {
-      x = width - radius;
-      vx = <f32>(-Math.abs(vx) * 0.8);
-    }
+// 导入粒子用的暂存缓冲区（JavaScript 写入数据后调用 loadParticles）
+let stagingBuffer: Float32Array = new Float32Array(0);
 
-    if (y - radius < 0) {
-      y = radius;
-      vy = <f32>(Math.abs(vy) * 0.8);
-    } else if (y + radius > height) {
-      y = height - radius;
-      vy = <f32>(-Math.abs(vy) * 0.8);
+// 分配可以容纳 count 个粒子的暂存缓冲区，返回数据指针
+// 内存可能因此增长，调用后需要重新创建 memory.buffer 上的视图
+export function allocParticleBuffer(count: i32): usize {
+  stagingBuffer = new Float32Array(count * PARTICLE_STRIDE);
+  return stagingBuffer.dataStart;
+}
+
+// 从 ptr 处复制 count 个粒子（按当前布局），追加到现有粒子之后
+export function appendParticles(ptr: usize, count: i32): void {
+  reserveParticles(particleCount + count);
+  memory.copy(
+    particles.dataStart +
+      <usize>(particleCount * PARTICLE_STRIDE) * sizeof<f32>(),
+    ptr,
+    <usize>(count * PARTICLE_STRIDE) * sizeof<f32>()
+  );
+  particleCount += count;
+
+  // 释放暂存缓冲区
+  stagingBuffer = new Float32Array(0);
+}
+
+// 从 ptr 处复制 count 个粒子（按当前布局），替换现有的全部粒子
+export function loadParticles(ptr: usize, count: i32): void {
+  particles = new Float32Array(count * PARTICLE_STRIDE);
+  memory.copy(
+    particles.dataStart,
+    ptr,
+    <usize>(count * PARTICLE_STRIDE) * sizeof<f32>()
+  );
+  particleCount = count;
+  releaseAllParticles();
+  resetEmitters();
+
+  // 释放暂存缓冲区
+  stagingBuffer = new Float32Array(0);
+}
+
+// 删除粒子：把最后一个粒子移到被删除的位置（不保持顺序）
+function removeParticle(index: i32): void {
+  const last = particleCount - 1;
+  if (index != last) {
+    particles.copyWithin(
+      index * PARTICLE_STRIDE,
+      last * PARTICLE_STRIDE,
+      (last + 1) * PARTICLE_STRIDE
+    );
+  }
+  particleCount = last;
+
+  // 被拖动的粒子：被删除的自动松开，被移动的更新下标
+  for (let handle = 0; handle < dragHandles.length; handle++) {
+    const dragged = unchecked(dragHandles[handle]);
+    if (dragged == index) {
+      dragHandles[handle] = -1;
+    } else if (dragged == last) {
+      dragHandles[handle] = index;
     }
+  }
 
-    // 更新数据
-    particles[offset] = x;
-    particles[offset + 1] = y;
-    particles[offset + 2] = vx;
-    particles[offset + 3] = vy;
+  // 检查器选中的粒子同样处理
+  if (selectedParticle == index) {
+    selectedParticle = -1;
+  } else if (selectedParticle == last) {
+    selectedParticle = index;
   }
+}
 
-  // 构建空间网格
-  buildGrid(width, height);
+// 粒子数组容量的最小增长量（粒子数）
+const MIN_CAPACITY: i32 = 64;
 
-  // 使用网格优化的碰撞检测
-  for (let i = 0; i < particleCount; i++) {
-    const offset1 = i * PARTICLE_SIZE;
-    const x1 = particles[offset1];
-    const y1 = particles[offset1 + 1];
-    const vx1 = particles[offset1 + 2];
-    const vy1 = particles[offset1 + 3];
-    const r1 = particles[offset1 + 4];
-    const m1 = particles[offset1 + 5];
-
-    // 获取粒子所在的网格单元
-    const cellX = <i32>(x1 / gridCellSize);
-    const cellY = <i32>(y1 / gridCellSize);
-
-    // 检查相邻的9个网格单元
-    for (let offsetY = -1; offsetY <= 1; offsetY++) {
-      for (let offsetX = -1; offsetX <= 1; offsetX++) {
-        const checkCellX = cellX + offsetX;
-        const checkCellY = cellY + offsetY;
-
-        // 检查网格边界
-        if (
-          checkCellX < 0 ||
-          checkCellX >= gridWidth ||
-          checkCellY < 0 ||
-          checkCellY >= gridHeight
-        ) {
-          continue;
-        }
+// 粒子数组的容量（粒子数）
+// 追加粒子时容量不足则按 2 倍增长，删除粒子时不收缩
+export function getParticleCapacity(): i32 {
+  return particles.length / PARTICLE_STRIDE;
+}
 
-        const cellIndex = checkCellY * gridWidth + checkCellX;
-        const cell = grid[cellIndex];
-
-        // 检查该网格中的所有粒子
-        for (let k = 0; k < cell.length; k++) {
-          const j = cell[k];
-
-          // 避免重复检查和自身检查
-          if (j <= i) continue;
-
-          const offset2 = j * PARTICLE_SIZE;
-          const x2 = particles[offset2];
-          const y2 = particles[offset2 + 1];
-          const vx2 = particles[offset2 + 2];
-          const vy2 = particles[offset2 + 3];
-          const r2 = particles[offset2 + 4];
-          const m2 = particles[offset2 + 5];
-
-          // 计算距离
-          const dx = x2 - x1;
-          const dy = y2 - y1;
-          const distSq = dx * dx + dy * dy;
-          const minDist = r1 + r2;
-          const minDistSq = minDist * minDist;
-
-          // 检测碰撞
-          if (distSq < minDistSq && distSq > 0.01) {
-            const dist = Math.sqrt(distSq);
-
-            // 归一化碰撞向量
-            const nx = dx / dist;
-            const ny = dy / dist;
-
-            // 相对速度
-            const dvx = vx2 - vx1;
-            const dvy = vy2 - vy1;
-
-            // 碰撞法线方向的相对速度
-            const dvn = dvx * nx + dvy * ny;
-
-            // 如果粒子正在分离，忽略碰撞
-            if (dvn < 0) continue;
-
-            // 弹性碰撞响应 (动量守恒)
-            const restitution: f32 = 0.9; // 恢复系数
-            const impulse = ((2 * dvn) / (m1 + m2)) * restitution;
-
-            // 更新速度
-            particles[offset1 + 2] += <f32>(impulse * m2 * nx);
-            particles[offset1 + 3] += <f32>(impulse * m2 * ny);
-            particles[offset2 + 2] -= <f32>(impulse * m1 * nx);
-            particles[offset2 + 3] -= <f32>(impulse * m1 * ny);
-
-            // 分离重叠的粒子
-            const overlap = minDist - dist;
-            const separationRatio = overlap / (m1 + m2);
-
-            particles[offset1] -= <f32>(nx * separationRatio * m2);
-            particles[offset1 + 1] -= <f32>(ny * separationRatio * m2);
-            particles[offset2] += <f32>(nx * separationRatio * m1);
-            particles[offset2 + 1] += <f32>(ny * separationRatio * m1);
-          }
-        }
-      }
-    }
+// 确保粒子数组至少能容纳 count 个粒子（保留现有粒子）
+// 数组被替换后数据指针会改变，JavaScript 侧需要重新读取 getParticlesPtr
+function reserveParticles(count: i32): void {
+  const capacity = getParticleCapacity();
+  if (capacity >= count) return;
+  const grown = new Float32Array(
+    max(count, max(capacity * 2, MIN_CAPACITY)) * PARTICLE_STRIDE
+  );
+  grown.set(particles.subarray(0, particleCount * PARTICLE_STRIDE));
+  particles = grown;
+}
+
+// 在指定位置追加一个粒子，返回它的下标
+// 半径在 setRadiusRange 设置的范围内随机，其余字段为默认值
+export function addParticle(x: f32, y: f32, vx: f32, vy: f32): i32 {
+  reserveParticles(particleCount + 1);
+  writeParticle(particleCount * PARTICLE_STRIDE, x, y, vx, vy, randomRadius());
+  return particleCount++;
+}
+
+// 在整个世界内随机追加 count 个粒子，分布与 initParticles 相同
+export function addRandomParticles(count: i32, width: f32, height: f32): void {
+  reserveParticles(particleCount + count);
+
+  for (let i = 0; i < count; i++) {
+    // 随机位置
+    const x = <f32>(random() * width);
+    const y = <f32>(random() * height);
+
+    // 随机速度（降低初始速度）
+    const vx = <f32>((random() - 0.5) * 50);
+    const vy = <f32>((random() - 0.5) * 50);
+
+    writeParticle(
+      particleCount * PARTICLE_STRIDE,
+      x,
+      y,
+      vx,
+      vy,
+      randomRadius()
+    );
+    particleCount++;
+  }
+}
+
+// 发射器生成粒子（见 emitters.ts 的 runEmitters）
+function emitParticle(
+  x: f32,
+  y: f32,
+  vx: f32,
+  vy: f32,
+  radius: f32,
+  lifetime: f32
+): void {
+  reserveParticles(particleCount + 1);
+  const offset = particleCount * PARTICLE_STRIDE;
+  writeParticle(offset, x, y, vx, vy, radius);
+  particles[offset + FIELD_LIFETIME] = lifetime;
+  particleCount++;
+}
+
+// 删除指定下标的粒子，最后一个粒子会移到这个下标（下标无效时返回 false）
+export function removeParticleAt(index: i32): bool {
+  if (index < 0 || index >= particleCount) return false;
+  removeParticle(index);
+  return true;
+}
+
+// 删除最后 count 个粒子，返回删除的数量
+export function removeLastParticles(count: i32): i32 {
+  const removed = min(count, particleCount);
+  for (let i = 0; i < removed; i++) {
+    removeParticle(particleCount - 1);
   }
+  return removed;
 }
 
-// 构建空间网格
-function buildGrid(width: f32, height: f32): void {
-  gridWidth = <i32>(width / gridCellSize) + 1;
-  gridHeight = <i32>(height / gridCellSize) + 1;
-  const totalCells = gridWidth * gridHeight;
+// 删除中心在圆形区域内的粒子，返回删除的数量
+export function removeParticlesInCircle(
+  centerX: f32,
+  centerY: f32,
+  radius: f32
+): i32 {
+  const radiusSq = radius * radius;
+  let removed = 0;
+
+  // 从后向前遍历：删除时移过来的最后一个粒子已经检查过
+  for (let i = particleCount - 1; i >= 0; i--) {
+    const offset = i * PARTICLE_STRIDE;
+    const dx = particles[offset + FIELD_X] - centerX;
+    const dy = particles[offset + FIELD_Y] - centerY;
+    if (dx * dx + dy * dy < radiusSq) {
+      removeParticle(i);
+      removed++;
+    }
+  }
+  return removed;
+}
 
-  // 初始化网格
-  if (grid.length != totalCells) {
-    grid = new Array<Array<i32>>(totalCells);
-    for (let i = 0; i < totalCells; i++) {
-      grid[i] = new Array<i32>(0);
+// 删除中心在矩形区域内的粒子，返回删除的数量
+export function removeParticlesInRect(
+  minX: f32,
+  minY: f32,
+  maxX: f32,
+  maxY: f32
+): i32 {
+  let removed = 0;
+
+  // 从后向前遍历：删除时移过来的最后一个粒子已经检查过
+  for (let i = particleCount - 1; i >= 0; i--) {
+    const offset = i * PARTICLE_STRIDE;
+    const x = particles[offset + FIELD_X];
+    const y = particles[offset + FIELD_Y];
+    if (x >= minX && x <= maxX && y >= minY && y <= maxY) {
+      removeParticle(i);
+      removed++;
     }
-  } else {
-    // 清空现有网格
-    for (let i = 0; i < totalCells; i++) {
-      grid[i].length = 0;
+  }
+  return removed;
+}
+
+// 删除中心在世界 [0, width] × [0, height] 之外的粒子（世界缩小后裁剪），返回删除的数量
+export function removeParticlesOutside(width: f32, height: f32): i32 {
+  let removed = 0;
+
+  for (let i = particleCount - 1; i >= 0; i--) {
+    const offset = i * PARTICLE_STRIDE;
+    const x = particles[offset + FIELD_X];
+    const y = particles[offset + FIELD_Y];
+    if (x < 0 || x > width || y < 0 || y > height) {
+      removeParticle(i);
+      removed++;
     }
   }
+  return removed;
+}
 
-  // 将粒子分配到网格单元
+// 按比例缩放所有粒子的位置（世界大小改变后保持粒子的相对位置），速度和半径不变
+export function scaleParticlePositions(scaleX: f32, scaleY: f32): void {
   for (let i = 0; i < particleCount; i++) {
-    const offset = i * PARTICLE_SIZE;
-    const x = particles[offset];
-    const y = particles[offset + 1];
+    const offset = i * PARTICLE_STRIDE;
+    particles[offset + FIELD_X] *= scaleX;
+    particles[offset + FIELD_Y] *= scaleY;
+  }
+}
+
+const TWO_PI = <f32>(Math.PI * 2);
+
+// 更新粒子物理
+// deltaTime 应该是固定的物理步长（见 src/Simulation.ts），过大的步长会导致粒子穿透
+export function updateParticles(deltaTime: f32, width: f32, height: f32): void {
+  const dt = deltaTime;
+
+  // 阻尼按时间缩放，使衰减速度与步长无关
+  const stepDamping = <f32>Math.pow(damping, dt * 60);
+
+  // 障碍物或世界大小变化时重建障碍物网格
+  prepareObstacles(width, height);
+
+  // 发射器生成的粒子追加在末尾，本步就参与积分和碰撞
+  runEmitters(dt, particleCount, emitParticle);
+
+  // 本步中最大的粒子半径，决定网格单元大小
+  let largestRadius: f32 = 0;
+
+  // SIMD 构建中位置、速度和边界（没有开放边界时）先按 4 个粒子一组处理，见 simd.ts
+  let boundaryDone = false;
+  if (ASC_FEATURE_SIMD) {
+    boundaryDone = integrateSimd(
+      particles,
+      particleCount,
+      dt,
+      stepDamping,
+      width,
+      height
+    );
+  }
 
-    const cellX = <i32>(x / gridCellSize);
-    const cellY = <i32>(y / gridCellSize);
+  // 更新位置和速度
+  let i = 0;
+  while (i < particleCount) {
+    const offset = i * PARTICLE_STRIDE;
+
+    if (!ASC_FEATURE_SIMD) {
+      let x = particles[offset + FIELD_X];
+      let y = particles[offset + FIELD_Y];
+      let vx = particles[offset + FIELD_VX];
+      let vy = particles[offset + FIELD_VY];
+
+      // 应用速度
+      x += vx * dt;
+      y += vy * dt;
+
+      // 应用阻尼
+      vx *= stepDamping;
+      vy *= stepDamping;
+
+      // 更新数据
+      particles[offset + FIELD_X] = x;
+      particles[offset + FIELD_Y] = y;
+      particles[offset + FIELD_VX] = vx;
+      particles[offset + FIELD_VY] = vy;
+    }
+
+    // 转动（朝向保持在 [0, 2π) 内，避免 f32 精度随时间下降）
+    const angularVelocity = particles[offset + FIELD_ANGULAR_VELOCITY];
+    if (angularVelocity != 0) {
+      const angle = particles[offset + FIELD_ANGLE] + angularVelocity * dt;
+      particles[offset + FIELD_ANGLE] =
+        angle - TWO_PI * Mathf.floor(angle / TWO_PI);
+      particles[offset + FIELD_ANGULAR_VELOCITY] =
+        angularVelocity * stepDamping;
+    }
+
+    // 累计存活时间
+    particles[offset + FIELD_AGE] += dt;
+
+    // 边界处理（墙壁反弹、环绕或开放边界）
+    if (!boundaryDone && !applyBoundary(particles, offset, width, height)) {
+      // 离开开放边界的粒子被删除，最后一个粒子移到这里，需要重新处理下标 i
+      removeParticle(i);
+      continue;
+    }
+
+    // 寿命到期或进入汇的粒子被删除
+    const lifetime = particles[offset + FIELD_LIFETIME];
+    if (
+      (lifetime > 0 && particles[offset + FIELD_AGE] >= lifetime) ||
+      insideSink(particles[offset + FIELD_X], particles[offset + FIELD_Y])
+    ) {
+      removeParticle(i);
+      continue;
+    }
+
+    // 静态障碍物
+    collideObstacles(particles, offset);
 
-    // 确保在边界内
-    if (cellX >= 0 && cellX < gridWidth && cellY >= 0 && cellY < gridHeight) {
-      const cellIndex = cellY * gridWidth + cellX;
-      grid[cellIndex].push(i);
+    largestRadius = max(largestRadius, particles[offset + FIELD_RADIUS]);
+    i++;
+  }
+
+  // 构建空间网格（单元边长 = 最大直径，碰撞的粒子一定在相邻单元中）
+  const wrapX = wrapsX();
+  const wrapY = wrapsY();
+  buildGrid(
+    particles,
+    particleCount,
+    width,
+    height,
+    largestRadius * 2,
+    wrapX,
+    wrapY
+  );
+  updateDensity();
+
+  // 粒子间作用力（复用刚构建的网格）
+  applyPairForces(particles, particleCount, dt, width, height, wrapX, wrapY);
+
+  // 粒子之间的碰撞（分块处理，多线程构建中由多个线程并行，见 tiles.ts）
+  collideTiles(particles, width, height, wrapX, wrapY, selectedParticle);
+  if (selectedParticle >= 0) selectedCollisions += getWatchedCollisions();
+
+  // 碰撞分离可能把贴着边界或障碍物的粒子推出去，最后再修正一次位置
+  for (let i = 0; i < particleCount; i++) {
+    const offset = i * PARTICLE_STRIDE;
+    collideObstacles(particles, offset);
+    constrainPosition(particles, offset, width, height);
+  }
+}
+
+// 统计每个粒子周围 3×3 网格内的粒子数，作为局部密度
+function updateDensity(): void {
+  for (let i = 0; i < particleCount; i++) {
+    const cell = unchecked(particleCell[i]);
+    const cellX = cell % gridWidth;
+    const cellY = cell / gridWidth;
+
+    const minX = max(cellX - 1, 0);
+    const maxX = min(cellX + 1, gridWidth - 1);
+    const minY = max(cellY - 1, 0);
+    const maxY = min(cellY + 1, gridHeight - 1);
+
+    let count = 0;
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const c = y * gridWidth + x;
+        count += unchecked(cellStart[c + 1]) - unchecked(cellStart[c]);
+      }
     }
+    particles[i * PARTICLE_STRIDE + FIELD_DENSITY] = <f32>count;
   }
 }
 
 // 应用重力
-export function applyGravity(gravityX: f32, gravityY: f32): void {
+// gravityX/gravityY 是加速度（像素/秒²），在 deltaTime 内积分到速度上
+export function applyGravity(
+  gravityX: f32,
+  gravityY: f32,
+  deltaTime: f32
+): void {
+  const dvx = gravityX * deltaTime;
+  const dvy = gravityY * deltaTime;
+  if (ASC_FEATURE_SIMD) {
+    applyGravitySimd(particles, particleCount, dvx, dvy);
+    return;
+  }
   for (let i = 0; i < particleCount; i++) {
-    const offset = i * PARTICLE_SIZE;
-    particles[offset + 2] += gravityX;
-    particles[offset + 3] += gravityY;
+    const offset = i * PARTICLE_STRIDE;
+    particles[offset + FIELD_VX] += dvx;
+    particles[offset + FIELD_VY] += dvy;
   }
 }
 
 // 在鼠标位置添加推力
+// strength 是力场中心处的加速度（像素/秒²），向外线性衰减到 forceRadius 处为 0
 export function applyForce(
   mouseX: f32,
   mouseY: f32,
   forceRadius: f32,
-  strength: f32
+  strength: f32,
+  deltaTime: f32
 ): void {
+  if (ASC_FEATURE_SIMD) {
+    applyForceSimd(
+      particles,
+      particleCount,
+      mouseX,
+      mouseY,
+      forceRadius,
+      strength,
+      deltaTime
+    );
+    return;
+  }
   const radiusSq = forceRadius * forceRadius;
 
   for (let i = 0; i < particleCount; i++) {
-    const offset = i * PARTICLE_SIZE;
-    const x = particles[offset];
-    const y = particles[offset + 1];
+    const offset = i * PARTICLE_STRIDE;
+    const x = particles[offset + FIELD_X];
+    const y = particles[offset + FIELD_Y];
 
     const dx = x - mouseX;
     const dy = y - mouseY;
@@ -276,10 +675,218 @@ export function applyForce(
 
     if (distSq < radiusSq && distSq > 0.01) {
       const dist = Math.sqrt(distSq);
-      const force = strength * (1 - dist / forceRadius);
+      const force = strength * (1 - dist / forceRadius) * deltaTime;
 
-      particles[offset + 2] += <f32>((dx / dist) * force);
-      particles[offset + 3] += <f32>((dy / dist) * force);
+      particles[offset + FIELD_VX] += <f32>((dx / dist) * force);
+      particles[offset + FIELD_VY] += <f32>((dy / dist) * force);
     }
   }
 }
+
+// 在指定位置添加漩涡力
+// 力沿切线方向（屏幕坐标下 strength > 0 为顺时针），大小与 applyForce 相同，
+// 从中心处的 strength 线性衰减到 forceRadius 处为 0
+export function applyVortex(
+  centerX: f32,
+  centerY: f32,
+  forceRadius: f32,
+  strength: f32,
+  deltaTime: f32
+): void {
+  const radiusSq = forceRadius * forceRadius;
+
+  for (let i = 0; i < particleCount; i++) {
+    const offset = i * PARTICLE_STRIDE;
+    const dx = particles[offset + FIELD_X] - centerX;
+    const dy = particles[offset + FIELD_Y] - centerY;
+    const distSq = dx * dx + dy * dy;
+
+    if (distSq < radiusSq && distSq > 0.01) {
+      const dist = Math.sqrt(distSq);
+      const force = strength * (1 - dist / forceRadius) * deltaTime;
+
+      particles[offset + FIELD_VX] += <f32>((-dy / dist) * force);
+      particles[offset + FIELD_VY] += <f32>((dx / dist) * force);
+    }
+  }
+}
+
+// 在圆形区域内均匀地随机生成 count 个粒子
+// 半径使用 setRadiusRange 设置的范围，随机数来自同一个种子，结果可以复现
+export function spawnParticles(
+  centerX: f32,
+  centerY: f32,
+  radius: f32,
+  count: i32
+): void {
+  reserveParticles(particleCount + count);
+
+  for (let i = 0; i < count; i++) {
+    const angle = random() * Math.PI * 2;
+    const dist = Math.sqrt(random()) * radius;
+    const x = <f32>(centerX + Math.cos(angle) * dist);
+    const y = <f32>(centerY + Math.sin(angle) * dist);
+    const vx = <f32>((random() - 0.5) * 50);
+    const vy = <f32>((random() - 0.5) * 50);
+
+    writeParticle(
+      particleCount * PARTICLE_STRIDE,
+      x,
+      y,
+      vx,
+      vy,
+      randomRadius()
+    );
+    particleCount++;
+  }
+}
+
+// 拖动句柄：每个句柄记录一个被抓住的粒子下标，-1 表示空闲
+// 删除粒子会移动下标，removeParticle 会同步更新
+const dragHandles = new Array<i32>();
+
+// 抓住离 (x, y) 最近、距离不超过 maxDistance 的粒子
+// 返回拖动句柄，附近没有粒子时返回 -1
+export function grabParticle(x: f32, y: f32, maxDistance: f32): i32 {
+  let nearest = -1;
+  let nearestSq = maxDistance * maxDistance;
+  for (let i = 0; i < particleCount; i++) {
+    const offset = i * PARTICLE_STRIDE;
+    const dx = particles[offset + FIELD_X] - x;
+    const dy = particles[offset + FIELD_Y] - y;
+    const distSq = dx * dx + dy * dy;
+    if (distSq <= nearestSq) {
+      nearest = i;
+      nearestSq = distSq;
+    }
+  }
+  if (nearest < 0) return -1;
+
+  // 优先复用空闲的句柄
+  for (let handle = 0; handle < dragHandles.length; handle++) {
+    if (unchecked(dragHandles[handle]) < 0) {
+      dragHandles[handle] = nearest;
+      return handle;
+    }
+  }
+  dragHandles.push(nearest);
+  return dragHandles.length - 1;
+}
+
+// 把句柄对应的粒子拉向 (x, y)
+// 速度设置为每个子步走完剩余距离的一半，松开后粒子保留当时的速度（可以甩出去）
+// 粒子已被删除或句柄无效时返回 false
+export function dragParticle(
+  handle: i32,
+  x: f32,
+  y: f32,
+  deltaTime: f32
+): bool {
+  if (handle < 0 || handle >= dragHandles.length) return false;
+  const index = unchecked(dragHandles[handle]);
+  if (index < 0) return false;
+
+  const offset = index * PARTICLE_STRIDE;
+  const response = <f32>0.5 / deltaTime;
+  particles[offset + FIELD_VX] = (x - particles[offset + FIELD_X]) * response;
+  particles[offset + FIELD_VY] = (y - particles[offset + FIELD_Y]) * response;
+  return true;
+}
+
+// 松开句柄对应的粒子
+export function releaseParticle(handle: i32): void {
+  if (handle >= 0 && handle < dragHandles.length) {
+    dragHandles[handle] = -1;
+  }
+}
+
+// 粒子被整体替换时松开所有句柄，并取消选择
+function releaseAllParticles(): void {
+  dragHandles.length = 0;
+  selectedParticle = -1;
+}
+
+// 检查器选中的粒子下标，-1 表示没有选中
+// 与拖动句柄一样，删除粒子时由 removeParticle 同步更新；选择不影响物理
+let selectedParticle: i32 = -1;
+
+// 选中以来这个粒子参与的碰撞次数（每个子步累加）
+let selectedCollisions: i32 = 0;
+
+// 查找 (x, y) 处的粒子：按当前位置重建空间网格，只检查所在的单元和相邻的 8 个单元
+// 点落在多个粒子内时取中心最近的一个，没有粒子时返回 -1
+// 网格在每个子步开始时都会重建，所以这里重建不会影响模拟
+export function pickParticle(x: f32, y: f32, width: f32, height: f32): i32 {
+  if (particleCount == 0) return -1;
+
+  let largestRadius: f32 = 0;
+  for (let i = 0; i < particleCount; i++) {
+    largestRadius = max(
+      largestRadius,
+      particles[i * PARTICLE_STRIDE + FIELD_RADIUS]
+    );
+  }
+  const wrapX = wrapsX();
+  const wrapY = wrapsY();
+  buildGrid(
+    particles,
+    particleCount,
+    width,
+    height,
+    largestRadius * 2,
+    wrapX,
+    wrapY
+  );
+
+  const cell = cellOf(x, y);
+  const cellX = cell % gridWidth;
+  const cellY = cell / gridWidth;
+  let nearest = -1;
+  let nearestSq = f32.MAX_VALUE;
+  for (let offsetY = -1; offsetY <= 1; offsetY++) {
+    for (let offsetX = -1; offsetX <= 1; offsetX++) {
+      const checkX = wrapCell(cellX + offsetX, gridWidth, wrapX);
+      const checkY = wrapCell(cellY + offsetY, gridHeight, wrapY);
+      if (
+        checkX < 0 ||
+        checkX >= gridWidth ||
+        checkY < 0 ||
+        checkY >= gridHeight
+      ) {
+        continue;
+      }
+
+      const c = checkY * gridWidth + checkX;
+      const end = unchecked(cellStart[c + 1]);
+      for (let k = unchecked(cellStart[c]); k < end; k++) {
+        const j = unchecked(cellIndices[k]);
+        const offset = j * PARTICLE_STRIDE;
+        const dx = wrapDelta(particles[offset + FIELD_X] - x, width, wrapX);
+        const dy = wrapDelta(particles[offset + FIELD_Y] - y, height, wrapY);
+        const distSq = dx * dx + dy * dy;
+        const radius = particles[offset + FIELD_RADIUS];
+        if (distSq <= radius * radius && distSq < nearestSq) {
+          nearest = j;
+          nearestSq = distSq;
+        }
+      }
+    }
+  }
+  return nearest;
+}
+
+// 选中下标为 index 的粒子（-1 或超出范围时取消选择），碰撞计数从 0 开始
+export function selectParticle(index: i32): void {
+  selectedParticle = index >= 0 && index < particleCount ? index : -1;
+  selectedCollisions = 0;
+}
+
+// 选中粒子的当前下标，没有选中或粒子已被删除时返回 -1
+export function getSelectedParticle(): i32 {
+  return selectedParticle;
+}
+
+// 选中以来这个粒子参与的碰撞次数
+export function getSelectedCollisions(): i32 {
+  return selectedCollisions;
+}
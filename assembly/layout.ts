@@ -0,0 +1,24 @@
+// 粒子内存布局
+// 这是粒子记录格式的唯一来源：TypeScript 侧通过导出的常量构建视图，
+// 不要在其他地方硬编码偏移量或步长
+
+// 每个粒子的 float 数量
+export const PARTICLE_STRIDE: i32 = 16;
+
+// 各字段在粒子记录中的偏移量
+export const FIELD_X: i32 = 0; // 位置 x（像素）
+export const FIELD_Y: i32 = 1; // 位置 y（像素）
+export const FIELD_VX: i32 = 2; // 速度 x（像素/秒）
+export const FIELD_VY: i32 = 3; // 速度 y（像素/秒）
+export const FIELD_RADIUS: i32 = 4; // 半径（像素）
+export const FIELD_MASS: i32 = 5; // 质量
+export const FIELD_COLOR_R: i32 = 6; // 颜色 r [0, 1]
+export const FIELD_COLOR_G: i32 = 7; // 颜色 g [0, 1]
+export const FIELD_COLOR_B: i32 = 8; // 颜色 b [0, 1]
+export const FIELD_SPECIES: i32 = 9; // 种类 id（整数）
+export const FIELD_AGE: i32 = 10; // 已存活时间（秒）
+export const FIELD_LIFETIME: i32 = 11; // 寿命（秒），0 表示永久存在
+export const FIELD_FLAGS: i32 = 12; // 标志位（整数位掩码）
+export const FIELD_DENSITY: i32 = 13; // 局部密度（周围 3×3 网格内的粒子数，每步更新）
+export const FIELD_ANGLE: i32 = 14; // 朝向（弧度）
+export const FIELD_ANGULAR_VELOCITY: i32 = 15; // 角速度（弧度/秒，屏幕坐标下正数为顺时针）
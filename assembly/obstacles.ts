@@ -0,0 +1,497 @@
+// 静态障碍物
+// 支持三种形状：
+// - 圆形：圆心 + 半径
+// - 线段（胶囊）：两个端点 + 厚度半径，半径为 0 时就是一条细线
+// - 凸多边形：顶点列表，添加时统一为同一绕向
+// 障碍物按包围盒插入固定大小的障碍物网格，每个粒子只检查自己覆盖的单元中的障碍物
+
+import { FIELD_X, FIELD_Y, FIELD_VX, FIELD_VY, FIELD_RADIUS } from "./layout";
+
+// 障碍物类型
+export const OBSTACLE_NONE: i32 = -1; // 已删除的空位
+export const OBSTACLE_CIRCLE: i32 = 0;
+export const OBSTACLE_SEGMENT: i32 = 1;
+export const OBSTACLE_POLYGON: i32 = 2;
+
+// 障碍物网格的单元边长（像素）
+const OBSTACLE_CELL_SIZE: f32 = 64;
+
+class Obstacle {
+  constructor(
+    public kind: i32,
+    // 圆形: [x, y]，线段: [x1, y1, x2, y2]，多边形: [x0, y0, x1, y1, ...]
+    public points: StaticArray<f32>,
+    // 圆形半径或线段的厚度半径，多边形为 0
+    public radius: f32
+  ) {}
+
+  // 包围盒
+  minX: f32 = 0;
+  minY: f32 = 0;
+  maxX: f32 = 0;
+  maxY: f32 = 0;
+
+  computeBounds(): void {
+    const points = this.points;
+    let minX = points[0];
+    let minY = points[1];
+    let maxX = minX;
+    let maxY = minY;
+    for (let i = 2; i < points.length; i += 2) {
+      minX = min(minX, points[i]);
+      minY = min(minY, points[i + 1]);
+      maxX = max(maxX, points[i]);
+      maxY = max(maxY, points[i + 1]);
+    }
+    this.minX = minX - this.radius;
+    this.minY = minY - this.radius;
+    this.maxX = maxX + this.radius;
+    this.maxY = maxY + this.radius;
+  }
+}
+
+// 障碍物的下标就是它的 id，删除后留下空位，id 不会变化
+let obstacles = new Array<Obstacle | null>();
+
+// 障碍物每次变化时递增，渲染器据此判断是否需要重新生成绘制数据
+let version: i32 = 0;
+
+// 障碍物碰撞的恢复系数和摩擦
+let obstacleRestitution: f32 = 0.8;
+let obstacleFriction: f32 = 0;
+
+// 正在构建的多边形顶点
+let polygonPoints = new Array<f32>();
+
+// 障碍物网格（与粒子网格的计数排序相同：cellObstacles[cellStart[c] .. cellStart[c + 1])）
+let gridDirty = true;
+let gridWidth: i32 = 0;
+let gridHeight: i32 = 0;
+let worldWidth: f32 = 0;
+let worldHeight: f32 = 0;
+let cellStart = new StaticArray<i32>(1);
+let cellCursor = new StaticArray<i32>(0);
+let cellObstacles = new StaticArray<i32>(0);
+
+// 查询去重：一个障碍物可能同时出现在粒子覆盖的多个单元中
+let queryStamp = new StaticArray<i32>(0);
+let queryId: i32 = 0;
+
+// 最近一次接触的法线和穿透深度
+let contactNX: f32 = 0;
+let contactNY: f32 = 0;
+let contactDepth: f32 = 0;
+
+// closestOnSegment 的结果：线段上离查询点最近的点
+let closestX: f32 = 0;
+let closestY: f32 = 0;
+
+// 添加圆形障碍物，返回 id
+export function addCircleObstacle(x: f32, y: f32, radius: f32): i32 {
+  const points = new StaticArray<f32>(2);
+  points[0] = x;
+  points[1] = y;
+  return addObstacle(new Obstacle(OBSTACLE_CIRCLE, points, max(radius, 0)));
+}
+
+// 添加线段障碍物（两端为半圆的胶囊），返回 id
+// thickness 是线段两侧的厚度半径
+export function addSegment(
+  x1: f32,
+  y1: f32,
+  x2: f32,
+  y2: f32,
+  thickness: f32
+): i32 {
+  const points = new StaticArray<f32>(4);
+  points[0] = x1;
+  points[1] = y1;
+  points[2] = x2;
+  points[3] = y2;
+  return addObstacle(new Obstacle(OBSTACLE_SEGMENT, points, max(thickness, 0)));
+}
+
+// 开始构建多边形：依次调用 addPolygonVertex 添加顶点，最后调用 endPolygon
+export function beginPolygon(): void {
+  polygonPoints.length = 0;
+}
+
+export function addPolygonVertex(x: f32, y: f32): void {
+  polygonPoints.push(x);
+  polygonPoints.push(y);
+}
+
+// 完成多边形，返回 id
+// 顶点少于 3 个或者不是凸多边形时返回 -1
+export function endPolygon(): i32 {
+  const count = polygonPoints.length / 2;
+  if (count < 3) return -1;
+
+  // 统一绕向：有向面积为负时反转顶点顺序
+  const reverse = signedArea(polygonPoints) < 0;
+  const points = new StaticArray<f32>(count * 2);
+  for (let i = 0; i < count; i++) {
+    const source = reverse ? count - 1 - i : i;
+    points[i * 2] = polygonPoints[source * 2];
+    points[i * 2 + 1] = polygonPoints[source * 2 + 1];
+  }
+  polygonPoints.length = 0;
+
+  if (!isConvex(points)) return -1;
+  return addObstacle(new Obstacle(OBSTACLE_POLYGON, points, 0));
+}
+
+// 删除障碍物，id 无效时返回 false
+export function removeObstacle(id: i32): bool {
+  if (id < 0 || id >= obstacles.length || obstacles[id] === null) return false;
+  obstacles[id] = null;
+  markChanged();
+  return true;
+}
+
+// 删除所有障碍物
+export function clearObstacles(): void {
+  obstacles.length = 0;
+  markChanged();
+}
+
+// 设置障碍物碰撞的恢复系数和摩擦（含义与墙壁相同）
+export function setObstacleMaterial(restitution: f32, friction: f32): void {
+  obstacleRestitution = restitution;
+  obstacleFriction = friction;
+}
+
+// ---- 查询（供渲染使用） ----
+
+// 障碍物 id 的上限（包括已删除的空位）
+export function getObstacleSlots(): i32 {
+  return obstacles.length;
+}
+
+export function getObstacleVersion(): i32 {
+  return version;
+}
+
+// 障碍物类型，已删除时返回 OBSTACLE_NONE
+export function getObstacleKind(id: i32): i32 {
+  const obstacle = obstacles[id];
+  return obstacle === null ? OBSTACLE_NONE : obstacle.kind;
+}
+
+export function getObstacleRadius(id: i32): f32 {
+  const obstacle = obstacles[id];
+  return obstacle === null ? 0 : obstacle.radius;
+}
+
+// 障碍物的点数：圆形 1，线段 2，多边形为顶点数
+export function getObstaclePointCount(id: i32): i32 {
+  const obstacle = obstacles[id];
+  return obstacle === null ? 0 : obstacle.points.length / 2;
+}
+
+export function getObstaclePointX(id: i32, index: i32): f32 {
+  return obstacles[id]!.points[index * 2];
+}
+
+export function getObstaclePointY(id: i32, index: i32): f32 {
+  return obstacles[id]!.points[index * 2 + 1];
+}
+
+// ---- 物理 ----
+
+// 障碍物或世界大小变化时重建障碍物网格
+export function prepareObstacles(width: f32, height: f32): void {
+  if (!gridDirty && width == worldWidth && height == worldHeight) return;
+  gridDirty = false;
+  worldWidth = width;
+  worldHeight = height;
+  gridWidth = <i32>(width / OBSTACLE_CELL_SIZE) + 1;
+  gridHeight = <i32>(height / OBSTACLE_CELL_SIZE) + 1;
+
+  const totalCells = gridWidth * gridHeight;
+  if (cellStart.length < totalCells + 1) {
+    cellStart = new StaticArray<i32>(totalCells + 1);
+    cellCursor = new StaticArray<i32>(totalCells);
+  }
+  if (queryStamp.length < obstacles.length) {
+    queryStamp = new StaticArray<i32>(obstacles.length);
+  }
+
+  // 1. 统计每个单元覆盖的障碍物数量
+  for (let c = 0; c < totalCells; c++) {
+    unchecked((cellCursor[c] = 0));
+  }
+  let entries = 0;
+  for (let id = 0; id < obstacles.length; id++) {
+    const obstacle = obstacles[id];
+    if (obstacle === null) continue;
+    const x0 = cellX(obstacle.minX);
+    const x1 = cellX(obstacle.maxX);
+    const y0 = cellY(obstacle.minY);
+    const y1 = cellY(obstacle.maxY);
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        unchecked((cellCursor[y * gridWidth + x] += 1));
+        entries++;
+      }
+    }
+  }
+
+  // 2. 前缀和
+  let start = 0;
+  for (let c = 0; c < totalCells; c++) {
+    unchecked((cellStart[c] = start));
+    start += unchecked(cellCursor[c]);
+    unchecked((cellCursor[c] = unchecked(cellStart[c])));
+  }
+  unchecked((cellStart[totalCells] = start));
+
+  // 3. 写入障碍物 id
+  if (cellObstacles.length < entries) {
+    cellObstacles = new StaticArray<i32>(entries);
+  }
+  for (let id = 0; id < obstacles.length; id++) {
+    const obstacle = obstacles[id];
+    if (obstacle === null) continue;
+    const x0 = cellX(obstacle.minX);
+    const x1 = cellX(obstacle.maxX);
+    const y0 = cellY(obstacle.minY);
+    const y1 = cellY(obstacle.maxY);
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const cell = y * gridWidth + x;
+        const slot = unchecked(cellCursor[cell]);
+        unchecked((cellObstacles[slot] = id));
+        unchecked((cellCursor[cell] = slot + 1));
+      }
+    }
+  }
+}
+
+// 处理单个粒子与障碍物的碰撞：把粒子推出障碍物，并反射法向速度
+// 需要先调用 prepareObstacles，返回是否发生了接触
+export function collideObstacles(particles: Float32Array, offset: i32): bool {
+  if (obstacles.length == 0) return false;
+
+  let x = particles[offset + FIELD_X];
+  let y = particles[offset + FIELD_Y];
+  let vx = particles[offset + FIELD_VX];
+  let vy = particles[offset + FIELD_VY];
+  const radius = particles[offset + FIELD_RADIUS];
+
+  const x0 = cellX(x - radius);
+  const x1 = cellX(x + radius);
+  const y0 = cellY(y - radius);
+  const y1 = cellY(y + radius);
+
+  queryId++;
+  let touched = false;
+  for (let cy = y0; cy <= y1; cy++) {
+    for (let cx = x0; cx <= x1; cx++) {
+      const cell = cy * gridWidth + cx;
+      const end = unchecked(cellStart[cell + 1]);
+      for (let k = unchecked(cellStart[cell]); k < end; k++) {
+        const id = unchecked(cellObstacles[k]);
+        if (unchecked(queryStamp[id]) == queryId) continue;
+        unchecked((queryStamp[id] = queryId));
+
+        const obstacle = unchecked(obstacles[id])!;
+        if (!findContact(obstacle, x, y, radius)) continue;
+        touched = true;
+
+        // 沿法线推出
+        x += contactNX * contactDepth;
+        y += contactNY * contactDepth;
+
+        // 只处理正在靠近障碍物的速度
+        const vn = vx * contactNX + vy * contactNY;
+        if (vn < 0) {
+          const tx = vx - vn * contactNX;
+          const ty = vy - vn * contactNY;
+          const keep: f32 = 1 - obstacleFriction;
+          vx = tx * keep - vn * obstacleRestitution * contactNX;
+          vy = ty * keep - vn * obstacleRestitution * contactNY;
+        }
+      }
+    }
+  }
+
+  if (touched) {
+    particles[offset + FIELD_X] = x;
+    particles[offset + FIELD_Y] = y;
+    particles[offset + FIELD_VX] = vx;
+    particles[offset + FIELD_VY] = vy;
+  }
+  return touched;
+}
+
+function addObstacle(obstacle: Obstacle): i32 {
+  obstacle.computeBounds();
+  obstacles.push(obstacle);
+  markChanged();
+  return obstacles.length - 1;
+}
+
+function markChanged(): void {
+  version++;
+  gridDirty = true;
+}
+
+// 超出世界范围的坐标归入边缘单元（与粒子网格一致）
+function cellX(x: f32): i32 {
+  const cell = <i32>Mathf.floor(x / OBSTACLE_CELL_SIZE);
+  return max(0, min(cell, gridWidth - 1));
+}
+
+function cellY(y: f32): i32 {
+  const cell = <i32>Mathf.floor(y / OBSTACLE_CELL_SIZE);
+  return max(0, min(cell, gridHeight - 1));
+}
+
+// 计算圆心 (x, y)、半径 radius 的粒子与障碍物的接触
+// 相交时把法线（从障碍物指向粒子）和穿透深度写入 contactNX / contactNY / contactDepth
+function findContact(obstacle: Obstacle, x: f32, y: f32, radius: f32): bool {
+  const points = obstacle.points;
+  if (obstacle.kind == OBSTACLE_CIRCLE) {
+    return contactPoint(x, y, points[0], points[1], radius + obstacle.radius);
+  }
+  if (obstacle.kind == OBSTACLE_SEGMENT) {
+    closestOnSegment(x, y, points[0], points[1], points[2], points[3]);
+    return contactPoint(x, y, closestX, closestY, radius + obstacle.radius);
+  }
+  return polygonContact(points, x, y, radius);
+}
+
+// 粒子与一个点的接触（距离小于 reach 时相交）
+function contactPoint(x: f32, y: f32, px: f32, py: f32, reach: f32): bool {
+  const dx = x - px;
+  const dy = y - py;
+  const distSq = dx * dx + dy * dy;
+  if (distSq >= reach * reach) return false;
+
+  const dist = Mathf.sqrt(distSq);
+  if (dist > 0.0001) {
+    contactNX = dx / dist;
+    contactNY = dy / dist;
+  } else {
+    // 圆心重合时任选一个方向推出
+    contactNX = 0;
+    contactNY = -1;
+  }
+  contactDepth = reach - dist;
+  return true;
+}
+
+// 凸多边形（顶点按有向面积为正的方向排列）
+function polygonContact(
+  points: StaticArray<f32>,
+  x: f32,
+  y: f32,
+  radius: f32
+): bool {
+  const count = points.length / 2;
+
+  // 找到粒子中心在外法线方向上距离最大的边
+  let maxSeparation: f32 = -Infinity;
+  let bestNX: f32 = 0;
+  let bestNY: f32 = 0;
+  for (let i = 0; i < count; i++) {
+    const j = i + 1 == count ? 0 : i + 1;
+    const ax = points[i * 2];
+    const ay = points[i * 2 + 1];
+    const ex = points[j * 2] - ax;
+    const ey = points[j * 2 + 1] - ay;
+    const length = Mathf.sqrt(ex * ex + ey * ey);
+    if (length < 0.0001) continue;
+    const nx = ey / length;
+    const ny = -ex / length;
+    const separation = (x - ax) * nx + (y - ay) * ny;
+    if (separation > maxSeparation) {
+      maxSeparation = separation;
+      bestNX = nx;
+      bestNY = ny;
+    }
+  }
+
+  // 中心在多边形内部：沿最近的边推出
+  if (maxSeparation <= 0) {
+    contactNX = bestNX;
+    contactNY = bestNY;
+    contactDepth = radius - maxSeparation;
+    return true;
+  }
+  if (maxSeparation >= radius) return false;
+
+  // 中心在外部：与边界上最近的点比较
+  let nearestSq: f32 = Infinity;
+  let nearestX: f32 = 0;
+  let nearestY: f32 = 0;
+  for (let i = 0; i < count; i++) {
+    const j = i + 1 == count ? 0 : i + 1;
+    closestOnSegment(
+      x,
+      y,
+      points[i * 2],
+      points[i * 2 + 1],
+      points[j * 2],
+      points[j * 2 + 1]
+    );
+    const dx = x - closestX;
+    const dy = y - closestY;
+    const distSq = dx * dx + dy * dy;
+    if (distSq < nearestSq) {
+      nearestSq = distSq;
+      nearestX = closestX;
+      nearestY = closestY;
+    }
+  }
+  return contactPoint(x, y, nearestX, nearestY, radius);
+}
+
+// 线段上离 (x, y) 最近的点
+function closestOnSegment(
+  x: f32,
+  y: f32,
+  x1: f32,
+  y1: f32,
+  x2: f32,
+  y2: f32
+): void {
+  const ex = x2 - x1;
+  const ey = y2 - y1;
+  const lengthSq = ex * ex + ey * ey;
+  let t: f32 = 0;
+  if (lengthSq > 0) {
+    t = ((x - x1) * ex + (y - y1) * ey) / lengthSq;
+    t = max(0, min(t, 1));
+  }
+  closestX = x1 + ex * t;
+  closestY = y1 + ey * t;
+}
+
+// 有向面积的两倍
+function signedArea(points: Array<f32>): f32 {
+  const count = points.length / 2;
+  let area: f32 = 0;
+  for (let i = 0; i < count; i++) {
+    const j = i + 1 == count ? 0 : i + 1;
+    area +=
+      points[i * 2] * points[j * 2 + 1] - points[j * 2] * points[i * 2 + 1];
+  }
+  return area;
+}
+
+// 所有相邻边的叉积同号（有向面积已统一为正）
+function isConvex(points: StaticArray<f32>): bool {
+  const count = points.length / 2;
+  for (let i = 0; i < count; i++) {
+    const j = (i + 1) % count;
+    const k = (i + 2) % count;
+    const ex1 = points[j * 2] - points[i * 2];
+    const ey1 = points[j * 2 + 1] - points[i * 2 + 1];
+    const ex2 = points[k * 2] - points[j * 2];
+    const ey2 = points[k * 2 + 1] - points[j * 2 + 1];
+    if (ex1 * ey2 - ey1 * ex2 < 0) return false;
+  }
+  return true;
+}
@@ -0,0 +1,221 @@
+// Barnes–Hut 四叉树（长程万有引力）
+// 每个节点记录其中粒子的总质量和质量加权的坐标和，远处的节点整体作为一个质点计算引力，
+// 复杂度从 O(n²) 降到 O(n log n)
+// 节点的 4 个子节点连续存放，firstChild 是第一个子节点的下标
+// 所有缓冲区都是预分配的 StaticArray，只在容量不足时扩容，每步构建不产生垃圾
+
+import { PARTICLE_STRIDE, FIELD_X, FIELD_Y, FIELD_MASS } from "./layout";
+
+// 叶子节点的 particle 取值
+const EMPTY: i32 = -1; // 空叶子
+const MERGED: i32 = -2; // 达到最大深度后合并了多个粒子的叶子
+
+// 最大深度，重合的粒子不会无限细分
+const MAX_DEPTH: i32 = 24;
+
+// 节点数据
+let firstChild = new StaticArray<i32>(0); // -1 表示叶子
+let particle = new StaticArray<i32>(0); // 叶子中的粒子下标，或 EMPTY / MERGED
+let mass = new StaticArray<f32>(0);
+let sumX = new StaticArray<f32>(0); // Σ m·x
+let sumY = new StaticArray<f32>(0); // Σ m·y
+let centerX = new StaticArray<f32>(0);
+let centerY = new StaticArray<f32>(0);
+let halfSize = new StaticArray<f32>(0);
+let nodeCount: i32 = 0;
+
+// 遍历用的栈（每层最多压入 4 个节点）
+const stack = new StaticArray<i32>(MAX_DEPTH * 4 + 4);
+
+// 累加的加速度（accumulate 的结果）
+export let accelerationX: f32 = 0;
+export let accelerationY: f32 = 0;
+
+// 用所有粒子构建四叉树
+export function buildQuadtree(particles: Float32Array, count: i32): void {
+  // 包围所有粒子的正方形
+  let minX: f32 = f32.MAX_VALUE;
+  let minY: f32 = f32.MAX_VALUE;
+  let maxX: f32 = -f32.MAX_VALUE;
+  let maxY: f32 = -f32.MAX_VALUE;
+  for (let i = 0; i < count; i++) {
+    const offset = i * PARTICLE_STRIDE;
+    const x = particles[offset + FIELD_X];
+    const y = particles[offset + FIELD_Y];
+    minX = min(minX, x);
+    minY = min(minY, y);
+    maxX = max(maxX, x);
+    maxY = max(maxY, y);
+  }
+
+  // 节点数通常约为粒子数的 2 倍，不够时 allocate 会继续扩容
+  reserve(count * 2 + 1);
+  nodeCount = 0;
+  const root = allocate();
+  if (count == 0) return;
+  centerX[root] = (minX + maxX) * 0.5;
+  centerY[root] = (minY + maxY) * 0.5;
+  halfSize[root] = max<f32>(max(maxX - minX, maxY - minY) * 0.5, 1);
+
+  for (let i = 0; i < count; i++) {
+    const offset = i * PARTICLE_STRIDE;
+    insert(
+      i,
+      particles[offset + FIELD_X],
+      particles[offset + FIELD_Y],
+      particles[offset + FIELD_MASS]
+    );
+  }
+}
+
+// 计算粒子 self 在 (x, y) 处受到的引力加速度（除以引力常数），结果写入 accelerationX/Y
+// 节点边长与距离之比小于 theta 时把整个节点当作一个质点
+// softening 是软化长度，避免距离很近时加速度发散
+export function accumulate(
+  self: i32,
+  x: f32,
+  y: f32,
+  theta: f32,
+  softening: f32
+): void {
+  const thetaSq = theta * theta;
+  const softeningSq = softening * softening;
+  let ax: f32 = 0;
+  let ay: f32 = 0;
+
+  let top = 0;
+  unchecked((stack[top++] = 0));
+  while (top > 0) {
+    const node = unchecked(stack[--top]);
+    const m = unchecked(mass[node]);
+    if (m == 0 || unchecked(particle[node]) == self) continue;
+
+    const dx = unchecked(sumX[node]) / m - x;
+    const dy = unchecked(sumY[node]) / m - y;
+    const distSq = dx * dx + dy * dy;
+    const size = unchecked(halfSize[node]) * 2;
+    const child = unchecked(firstChild[node]);
+
+    if (child < 0 || size * size < thetaSq * distSq) {
+      const d = Mathf.sqrt(distSq + softeningSq);
+      const factor = m / (d * d * d);
+      ax += dx * factor;
+      ay += dy * factor;
+    } else {
+      for (let k = 0; k < 4; k++) {
+        unchecked((stack[top++] = child + k));
+      }
+    }
+  }
+
+  accelerationX = ax;
+  accelerationY = ay;
+}
+
+// 获取上一次构建的节点数量
+export function getQuadtreeNodeCount(): i32 {
+  return nodeCount;
+}
+
+// 把粒子 i 插入四叉树
+function insert(i: i32, x: f32, y: f32, m: f32): void {
+  let node = 0;
+  for (let depth = 0; ; depth++) {
+    const child = unchecked(firstChild[node]);
+
+    // 内部节点：累加质量后进入对应的象限
+    if (child >= 0) {
+      addMass(node, x, y, m);
+      node = child + quadrant(node, x, y);
+      continue;
+    }
+
+    // 空叶子：直接放入
+    const existing = unchecked(particle[node]);
+    if (existing == EMPTY) {
+      unchecked((particle[node] = i));
+      addMass(node, x, y, m);
+      return;
+    }
+
+    // 达到最大深度：合并到同一个叶子
+    if (depth >= MAX_DEPTH) {
+      unchecked((particle[node] = MERGED));
+      addMass(node, x, y, m);
+      return;
+    }
+
+    // 已有一个粒子的叶子：细分，把原来的粒子移到子节点中，再继续插入
+    const first = allocate();
+    allocate();
+    allocate();
+    allocate();
+    const half = unchecked(halfSize[node]) * 0.5;
+    const cx = unchecked(centerX[node]);
+    const cy = unchecked(centerY[node]);
+    for (let k = 0; k < 4; k++) {
+      const c = first + k;
+      unchecked((centerX[c] = cx + (k & 1 ? half : -half)));
+      unchecked((centerY[c] = cy + (k & 2 ? half : -half)));
+      unchecked((halfSize[c] = half));
+    }
+    const m0 = unchecked(mass[node]);
+    const x0 = unchecked(sumX[node]) / m0;
+    const y0 = unchecked(sumY[node]) / m0;
+    const moved = first + quadrant(node, x0, y0);
+    unchecked((particle[moved] = existing));
+    addMass(moved, x0, y0, m0);
+
+    unchecked((firstChild[node] = first));
+    unchecked((particle[node] = EMPTY));
+  }
+}
+
+// 坐标在节点的哪个象限（bit 0: 右侧，bit 1: 下侧）
+function quadrant(node: i32, x: f32, y: f32): i32 {
+  return (
+    (x >= unchecked(centerX[node]) ? 1 : 0) |
+    (y >= unchecked(centerY[node]) ? 2 : 0)
+  );
+}
+
+function addMass(node: i32, x: f32, y: f32, m: f32): void {
+  unchecked((mass[node] += m));
+  unchecked((sumX[node] += m * x));
+  unchecked((sumY[node] += m * y));
+}
+
+// 分配一个空叶子节点，返回下标
+function allocate(): i32 {
+  if (nodeCount == firstChild.length) reserve(max(nodeCount * 2, 16));
+  const node = nodeCount++;
+  unchecked((firstChild[node] = -1));
+  unchecked((particle[node] = EMPTY));
+  unchecked((mass[node] = 0));
+  unchecked((sumX[node] = 0));
+  unchecked((sumY[node] = 0));
+  return node;
+}
+
+// 确保至少能容纳 capacity 个节点（保留已有节点）
+function reserve(capacity: i32): void {
+  if (firstChild.length >= capacity) return;
+  firstChild = grow<i32>(firstChild, capacity);
+  particle = grow<i32>(particle, capacity);
+  mass = grow<f32>(mass, capacity);
+  sumX = grow<f32>(sumX, capacity);
+  sumY = grow<f32>(sumY, capacity);
+  centerX = grow<f32>(centerX, capacity);
+  centerY = grow<f32>(centerY, capacity);
+  halfSize = grow<f32>(halfSize, capacity);
+}
+
+function grow<T>(array: StaticArray<T>, capacity: i32): StaticArray<T> {
+  const grown = new StaticArray<T>(capacity);
+  memory.copy(
+    changetype<usize>(grown),
+    changetype<usize>(array),
+    <usize>(nodeCount * sizeof<T>())
+  );
+  return grown;
+}
@@ -0,0 +1,27 @@
+// 确定性伪随机数生成器
+// 使用 mulberry32 算法：状态只有一个 u32，相同种子总是产生相同序列
+// 物理核心中的所有随机数都必须来自这里，而不是 Math.random()
+
+const DEFAULT_SEED: u32 = 0x9e3779b9;
+let rngState: u32 = DEFAULT_SEED;
+
+// 设置随机种子
+export function setSeed(seed: u32): void {
+  rngState = seed;
+}
+
+// 获取当前随机数状态（用于保存/恢复）
+export function getSeed(): u32 {
+  return rngState;
+}
+
+// 返回 [0, 1) 范围内的随机数
+export function random(): f64 {
+  rngState += 0x6d2b79f5;
+  let t = rngState;
+  t = (t ^ (t >>> 15)) * (t | 1);
+  t ^= t + (t ^ (t >>> 7)) * (t | 61);
+  t ^= t >>> 14;
+  // 取高 24 位，保证结果可以被 f32 精确表示
+  return <f64>(t >>> 8) / 16777216.0;
+}
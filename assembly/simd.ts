@@ -0,0 +1,506 @@
+// SIMD 核函数（--enable simd 构建，见 asconfig.json 的 simd 目标）
+// 积分、墙壁和环绕边界、重力和推力每条 v128 指令处理 4 个粒子。
+// 只使用与标量代码相同的 f32 / f64 运算（没有融合乘加），条件分支改为按掩码选择，
+// 所以结果与标量构建逐位相同，录制的输入日志在两种构建中回放结果一致
+//
+// 粒子记录仍然是 AoS（见 layout.ts），x, y, vx, vy 恰好是每条记录的前 4 个 float。
+// 核函数读写这 4 个字段有两种存储方式：
+// - AoS：每次读取 4 条记录，在寄存器中转置为 4 个向量（每个向量是 4 个粒子的同一个字段），
+//   处理后转置回去写回记录
+// - SoA：先把所有粒子的位置和速度转置到各自独立的数组（结构数组）中，核函数直接按向量读写数组，
+//   最后写回记录
+// 两种方式的结果相同，可以用基准测试比较速度。非 SIMD 构建不会调用这些函数，存储方式的设置没有作用
+
+import {
+  PARTICLE_STRIDE,
+  FIELD_X,
+  FIELD_Y,
+  FIELD_VX,
+  FIELD_VY,
+  FIELD_RADIUS,
+} from "./layout";
+import {
+  EDGE_LEFT,
+  EDGE_RIGHT,
+  EDGE_TOP,
+  EDGE_BOTTOM,
+  getEdgeRestitution,
+  getEdgeFriction,
+  hasOpenEdge,
+  wrapsX,
+  wrapsY,
+} from "./boundary";
+
+// 转置假设 x, y, vx, vy 位于粒子记录的开头
+if (FIELD_X != 0 || FIELD_Y != 1 || FIELD_VX != 2 || FIELD_VY != 3) {
+  ERROR("simd.ts 要求 x, y, vx, vy 是粒子记录的前 4 个字段");
+}
+
+// 存储方式
+export const PARTICLE_STORAGE_AOS: i32 = 0;
+export const PARTICLE_STORAGE_SOA: i32 = 1;
+
+let storage = PARTICLE_STORAGE_AOS;
+
+// 设置核函数的存储方式（只影响速度，不影响结果）
+export function setParticleStorage(mode: i32): void {
+  storage = mode == PARTICLE_STORAGE_SOA ? mode : PARTICLE_STORAGE_AOS;
+}
+
+export function getParticleStorage(): i32 {
+  return storage;
+}
+
+// 每条粒子记录的字节数
+const RECORD_BYTES: usize = (<usize>PARTICLE_STRIDE) << 2;
+const RADIUS_BYTES: usize = (<usize>FIELD_RADIUS) << 2;
+
+// SoA 存储：长度向上取整到 4 的倍数
+let positionsX = new StaticArray<f32>(0);
+let positionsY = new StaticArray<f32>(0);
+let velocitiesX = new StaticArray<f32>(0);
+let velocitiesY = new StaticArray<f32>(0);
+let radii = new StaticArray<f32>(0);
+
+// AoS 存储时一组粒子的 5 个向量（x, y, vx, vy, radius）
+const lanes = memory.data(80, 16);
+
+// 核函数
+const KERNEL_INTEGRATE: i32 = 0;
+const KERNEL_GRAVITY: i32 = 1;
+const KERNEL_FORCE: i32 = 2;
+
+// 核函数的参数
+let stepDt: f32 = 0;
+let stepDamping: f32 = 1;
+let stepWidth: f32 = 0;
+let stepHeight: f32 = 0;
+let stepBoundary = false;
+let gravityDvx: f32 = 0;
+let gravityDvy: f32 = 0;
+let forceX: f32 = 0;
+let forceY: f32 = 0;
+let forceRadius: f32 = 0;
+let forceStrength: f32 = 0;
+let forceDt: f32 = 0;
+
+// 位置按速度积分、速度按阻尼衰减，四条边都是墙壁或环绕时同时处理边界
+// 返回 false 表示有开放边界，需要之后逐个粒子调用 applyBoundary
+export function integrateSimd(
+  particles: Float32Array,
+  count: i32,
+  dt: f32,
+  damping: f32,
+  width: f32,
+  height: f32
+): bool {
+  stepDt = dt;
+  stepDamping = damping;
+  stepWidth = width;
+  stepHeight = height;
+  stepBoundary = !hasOpenEdge();
+  run(particles, count, KERNEL_INTEGRATE);
+  return stepBoundary;
+}
+
+// 所有粒子的速度加上 (dvx, dvy)
+export function applyGravitySimd(
+  particles: Float32Array,
+  count: i32,
+  dvx: f32,
+  dvy: f32
+): void {
+  // AoS 时不需要转置：[x, y, vx, vy] 加上 [-0, -0, dvx, dvy]（加 -0 不改变任何值）
+  if (storage == PARTICLE_STORAGE_AOS) {
+    let delta = f32x4.splat(-0.0);
+    delta = f32x4.replace_lane(delta, 2, dvx);
+    delta = f32x4.replace_lane(delta, 3, dvy);
+    const end = particles.dataStart + <usize>count * RECORD_BYTES;
+    for (let ptr = particles.dataStart; ptr < end; ptr += RECORD_BYTES) {
+      v128.store(ptr, f32x4.add(v128.load(ptr), delta));
+    }
+    return;
+  }
+  gravityDvx = dvx;
+  gravityDvy = dvy;
+  run(particles, count, KERNEL_GRAVITY);
+}
+
+// 与 applyForce 相同的推力（力场中心 (x, y)，半径 radius，中心处的加速度 strength）
+export function applyForceSimd(
+  particles: Float32Array,
+  count: i32,
+  x: f32,
+  y: f32,
+  radius: f32,
+  strength: f32,
+  dt: f32
+): void {
+  forceX = x;
+  forceY = y;
+  forceRadius = radius;
+  forceStrength = strength;
+  forceDt = dt;
+  run(particles, count, KERNEL_FORCE);
+}
+
+// 按 4 个粒子一组执行核函数
+function run(particles: Float32Array, count: i32, kernel: i32): void {
+  const records = particles.dataStart;
+
+  if (storage == PARTICLE_STORAGE_SOA) {
+    gather(records, count);
+    const x = changetype<usize>(positionsX);
+    const y = changetype<usize>(positionsY);
+    const vx = changetype<usize>(velocitiesX);
+    const vy = changetype<usize>(velocitiesY);
+    const r = changetype<usize>(radii);
+    for (let i = 0; i < count; i += 4) {
+      const offset = (<usize>i) << 2;
+      runKernel(
+        kernel,
+        x + offset,
+        y + offset,
+        vx + offset,
+        vy + offset,
+        r + offset
+      );
+    }
+    scatter(records, count);
+    return;
+  }
+
+  for (let i = 0; i < count; i += 4) {
+    const record = records + <usize>i * RECORD_BYTES;
+    const n = min(4, count - i);
+    loadLanes(record, n, lanes, lanes + 16, lanes + 32, lanes + 48, lanes + 64);
+    runKernel(kernel, lanes, lanes + 16, lanes + 32, lanes + 48, lanes + 64);
+    storeLanes(record, n, lanes, lanes + 16, lanes + 32, lanes + 48);
+  }
+}
+
+// 核函数读写 5 个地址上的向量（x, y, vx, vy, radius）
+function runKernel(
+  kernel: i32,
+  x: usize,
+  y: usize,
+  vx: usize,
+  vy: usize,
+  r: usize
+): void {
+  switch (kernel) {
+    case KERNEL_INTEGRATE:
+      integrateLanes(x, y, vx, vy, r);
+      break;
+    case KERNEL_GRAVITY:
+      v128.store(vx, f32x4.add(v128.load(vx), f32x4.splat(gravityDvx)));
+      v128.store(vy, f32x4.add(v128.load(vy), f32x4.splat(gravityDvy)));
+      break;
+    case KERNEL_FORCE:
+      forceLanes(x, y, vx, vy);
+      break;
+  }
+}
+
+// 积分和边界（与 updateParticles 和 applyBoundary 中的标量代码一一对应）
+function integrateLanes(
+  x: usize,
+  y: usize,
+  vx: usize,
+  vy: usize,
+  r: usize
+): void {
+  const dt = f32x4.splat(stepDt);
+  const damping = f32x4.splat(stepDamping);
+  let X = v128.load(x);
+  let Y = v128.load(y);
+  let VX = v128.load(vx);
+  let VY = v128.load(vy);
+
+  X = f32x4.add(X, f32x4.mul(VX, dt));
+  Y = f32x4.add(Y, f32x4.mul(VY, dt));
+  VX = f32x4.mul(VX, damping);
+  VY = f32x4.mul(VY, damping);
+
+  if (stepBoundary) {
+    const R = v128.load(r);
+    const zero = f32x4.splat(0);
+
+    // 左右两边
+    const width = f32x4.splat(stepWidth);
+    const left = f32x4.lt(f32x4.sub(X, R), zero);
+    const right = v128.andnot(f32x4.gt(f32x4.add(X, R), width), left);
+    if (wrapsX()) {
+      const edge = v128.or(left, right);
+      const below = v128.and(edge, f32x4.lt(X, zero));
+      const above = v128.andnot(v128.and(edge, f32x4.ge(X, width)), below);
+      X = v128.bitselect(f32x4.add(X, width), X, below);
+      X = v128.bitselect(f32x4.sub(X, width), X, above);
+    } else {
+      X = v128.bitselect(R, X, left);
+      X = v128.bitselect(f32x4.sub(width, R), X, right);
+      VX = v128.bitselect(
+        f32x4.mul(f32x4.abs(VX), f32x4.splat(getEdgeRestitution(EDGE_LEFT))),
+        VX,
+        left
+      );
+      VX = v128.bitselect(
+        f32x4.mul(f32x4.abs(VX), f32x4.splat(-getEdgeRestitution(EDGE_RIGHT))),
+        VX,
+        right
+      );
+      VY = v128.bitselect(
+        f32x4.mul(VY, f32x4.splat(1 - getEdgeFriction(EDGE_LEFT))),
+        VY,
+        left
+      );
+      VY = v128.bitselect(
+        f32x4.mul(VY, f32x4.splat(1 - getEdgeFriction(EDGE_RIGHT))),
+        VY,
+        right
+      );
+    }
+
+    // 上下两边
+    const height = f32x4.splat(stepHeight);
+    const top = f32x4.lt(f32x4.sub(Y, R), zero);
+    const bottom = v128.andnot(f32x4.gt(f32x4.add(Y, R), height), top);
+    if (wrapsY()) {
+      const edge = v128.or(top, bottom);
+      const below = v128.and(edge, f32x4.lt(Y, zero));
+      const above = v128.andnot(v128.and(edge, f32x4.ge(Y, height)), below);
+      Y = v128.bitselect(f32x4.add(Y, height), Y, below);
+      Y = v128.bitselect(f32x4.sub(Y, height), Y, above);
+    } else {
+      Y = v128.bitselect(R, Y, top);
+      Y = v128.bitselect(f32x4.sub(height, R), Y, bottom);
+      VY = v128.bitselect(
+        f32x4.mul(f32x4.abs(VY), f32x4.splat(getEdgeRestitution(EDGE_TOP))),
+        VY,
+        top
+      );
+      VY = v128.bitselect(
+        f32x4.mul(f32x4.abs(VY), f32x4.splat(-getEdgeRestitution(EDGE_BOTTOM))),
+        VY,
+        bottom
+      );
+      VX = v128.bitselect(
+        f32x4.mul(VX, f32x4.splat(1 - getEdgeFriction(EDGE_TOP))),
+        VX,
+        top
+      );
+      VX = v128.bitselect(
+        f32x4.mul(VX, f32x4.splat(1 - getEdgeFriction(EDGE_BOTTOM))),
+        VX,
+        bottom
+      );
+    }
+  }
+
+  v128.store(x, X);
+  v128.store(y, Y);
+  v128.store(vx, VX);
+  v128.store(vy, VY);
+}
+
+// 推力：距离和力的大小与标量代码一样按 f64 计算，每次处理 2 个粒子
+function forceLanes(x: usize, y: usize, vx: usize, vy: usize): void {
+  const dx = f32x4.sub(v128.load(x), f32x4.splat(forceX));
+  const dy = f32x4.sub(v128.load(y), f32x4.splat(forceY));
+  const distSq = f32x4.add(f32x4.mul(dx, dx), f32x4.mul(dy, dy));
+  const inside = v128.and(
+    f32x4.lt(distSq, f32x4.splat(forceRadius * forceRadius)),
+    f32x4.gt(distSq, f32x4.splat(0.01))
+  );
+  if (!v128.any_true(inside)) return;
+
+  // 前 2 个粒子
+  const dist0 = f64x2.sqrt(f64x2.promote_low_f32x4(distSq));
+  const force0 = forceMagnitude(dist0);
+  const fx0 = f32x4.demote_f64x2_zero(
+    f64x2.mul(f64x2.div(f64x2.promote_low_f32x4(dx), dist0), force0)
+  );
+  const fy0 = f32x4.demote_f64x2_zero(
+    f64x2.mul(f64x2.div(f64x2.promote_low_f32x4(dy), dist0), force0)
+  );
+
+  // 后 2 个粒子
+  const distSqHigh = v128.shuffle<f32>(distSq, distSq, 2, 3, 0, 1);
+  const dxHigh = v128.shuffle<f32>(dx, dx, 2, 3, 0, 1);
+  const dyHigh = v128.shuffle<f32>(dy, dy, 2, 3, 0, 1);
+  const dist1 = f64x2.sqrt(f64x2.promote_low_f32x4(distSqHigh));
+  const force1 = forceMagnitude(dist1);
+  const fx1 = f32x4.demote_f64x2_zero(
+    f64x2.mul(f64x2.div(f64x2.promote_low_f32x4(dxHigh), dist1), force1)
+  );
+  const fy1 = f32x4.demote_f64x2_zero(
+    f64x2.mul(f64x2.div(f64x2.promote_low_f32x4(dyHigh), dist1), force1)
+  );
+
+  const fx = v128.shuffle<f32>(fx0, fx1, 0, 1, 4, 5);
+  const fy = v128.shuffle<f32>(fy0, fy1, 0, 1, 4, 5);
+  const VX = v128.load(vx);
+  const VY = v128.load(vy);
+  v128.store(vx, v128.bitselect(f32x4.add(VX, fx), VX, inside));
+  v128.store(vy, v128.bitselect(f32x4.add(VY, fy), VY, inside));
+}
+
+// strength × (1 - dist / radius) × dt
+function forceMagnitude(dist: v128): v128 {
+  return f64x2.mul(
+    f64x2.mul(
+      f64x2.splat(forceStrength),
+      f64x2.sub(f64x2.splat(1), f64x2.div(dist, f64x2.splat(forceRadius)))
+    ),
+    f64x2.splat(forceDt)
+  );
+}
+
+// 把所有粒子的位置、速度和半径转置到 SoA 数组中
+function gather(records: usize, count: i32): void {
+  const length = (count + 3) & ~3;
+  if (positionsX.length < length) {
+    positionsX = new StaticArray<f32>(length);
+    positionsY = new StaticArray<f32>(length);
+    velocitiesX = new StaticArray<f32>(length);
+    velocitiesY = new StaticArray<f32>(length);
+    radii = new StaticArray<f32>(length);
+  }
+
+  for (let i = 0; i < count; i += 4) {
+    const offset = (<usize>i) << 2;
+    loadLanes(
+      records + <usize>i * RECORD_BYTES,
+      min(4, count - i),
+      changetype<usize>(positionsX) + offset,
+      changetype<usize>(positionsY) + offset,
+      changetype<usize>(velocitiesX) + offset,
+      changetype<usize>(velocitiesY) + offset,
+      changetype<usize>(radii) + offset
+    );
+  }
+}
+
+// 把 SoA 数组中的位置和速度写回粒子记录
+function scatter(records: usize, count: i32): void {
+  for (let i = 0; i < count; i += 4) {
+    const offset = (<usize>i) << 2;
+    storeLanes(
+      records + <usize>i * RECORD_BYTES,
+      min(4, count - i),
+      changetype<usize>(positionsX) + offset,
+      changetype<usize>(positionsY) + offset,
+      changetype<usize>(velocitiesX) + offset,
+      changetype<usize>(velocitiesY) + offset
+    );
+  }
+}
+
+// 读取从 record 开始的 n (1..4) 条记录，转置为 x, y, vx, vy, radius 5 个向量
+// 不足 4 条时多余的分量为 0
+function loadLanes(
+  record: usize,
+  n: i32,
+  x: usize,
+  y: usize,
+  vx: usize,
+  vy: usize,
+  r: usize
+): void {
+  if (n == 4) {
+    const r0 = v128.load(record);
+    const r1 = v128.load(record + RECORD_BYTES);
+    const r2 = v128.load(record + RECORD_BYTES * 2);
+    const r3 = v128.load(record + RECORD_BYTES * 3);
+    const t0 = interleaveLow(r0, r1);
+    const t1 = interleaveLow(r2, r3);
+    const t2 = interleaveHigh(r0, r1);
+    const t3 = interleaveHigh(r2, r3);
+    v128.store(x, joinLow(t0, t1));
+    v128.store(y, joinHigh(t0, t1));
+    v128.store(vx, joinLow(t2, t3));
+    v128.store(vy, joinHigh(t2, t3));
+
+    let radius = f32x4.splat(load<f32>(record + RADIUS_BYTES));
+    radius = f32x4.replace_lane(
+      radius,
+      1,
+      load<f32>(record + RECORD_BYTES + RADIUS_BYTES)
+    );
+    radius = f32x4.replace_lane(
+      radius,
+      2,
+      load<f32>(record + RECORD_BYTES * 2 + RADIUS_BYTES)
+    );
+    radius = f32x4.replace_lane(
+      radius,
+      3,
+      load<f32>(record + RECORD_BYTES * 3 + RADIUS_BYTES)
+    );
+    v128.store(r, radius);
+    return;
+  }
+
+  for (let k = 0; k < 4; k++) {
+    const lane = (<usize>k) << 2;
+    const source = record + <usize>k * RECORD_BYTES;
+    const valid = k < n;
+    store<f32>(x + lane, valid ? load<f32>(source) : 0);
+    store<f32>(y + lane, valid ? load<f32>(source, 4) : 0);
+    store<f32>(vx + lane, valid ? load<f32>(source, 8) : 0);
+    store<f32>(vy + lane, valid ? load<f32>(source, 12) : 0);
+    store<f32>(r + lane, valid ? load<f32>(source + RADIUS_BYTES) : 0);
+  }
+}
+
+// 把 x, y, vx, vy 4 个向量转置回 n (1..4) 条记录
+function storeLanes(
+  record: usize,
+  n: i32,
+  x: usize,
+  y: usize,
+  vx: usize,
+  vy: usize
+): void {
+  const X = v128.load(x);
+  const Y = v128.load(y);
+  const VX = v128.load(vx);
+  const VY = v128.load(vy);
+
+  // 转置是自身的逆运算
+  const t0 = interleaveLow(X, Y);
+  const t1 = interleaveLow(VX, VY);
+  const t2 = interleaveHigh(X, Y);
+  const t3 = interleaveHigh(VX, VY);
+  if (n == 4) {
+    v128.store(record, joinLow(t0, t1));
+    v128.store(record + RECORD_BYTES, joinHigh(t0, t1));
+    v128.store(record + RECORD_BYTES * 2, joinLow(t2, t3));
+    v128.store(record + RECORD_BYTES * 3, joinHigh(t2, t3));
+    return;
+  }
+
+  v128.store(record, joinLow(t0, t1));
+  if (n > 1) v128.store(record + RECORD_BYTES, joinHigh(t0, t1));
+  if (n > 2) v128.store(record + RECORD_BYTES * 2, joinLow(t2, t3));
+}
+
+// [a0, b0, a1, b1]
+function interleaveLow(a: v128, b: v128): v128 {
+  return v128.shuffle<f32>(a, b, 0, 4, 1, 5);
+}
+
+// [a2, b2, a3, b3]
+function interleaveHigh(a: v128, b: v128): v128 {
+  return v128.shuffle<f32>(a, b, 2, 6, 3, 7);
+}
+
+// [a0, a1, b0, b1]
+function joinLow(a: v128, b: v128): v128 {
+  return v128.shuffle<f32>(a, b, 0, 1, 4, 5);
+}
+
+// [a2, a3, b2, b3]
+function joinHigh(a: v128, b: v128): v128 {
+  return v128.shuffle<f32>(a, b, 2, 3, 6, 7);
+}
@@ -0,0 +1,422 @@
+// 碰撞检测的分块与多线程
+// 空间网格按每块至少 TILE_CELLS × TILE_CELLS 个单元分块，块按坐标的奇偶性分成 4 种颜色。
+// 处理一个块时只读写块内和周围一圈单元中的粒子，同一颜色的两个块之间至少隔着一个块，
+// 读写的粒子互不重叠，所以同一颜色的块可以按任意顺序、在任意多个线程中同时处理，
+// 结果与单线程逐位相同；不同颜色按顺序处理，多线程时用屏障同步
+//
+// 多线程构建（--enable threads，共享内存）中，辅助线程用同一个模块在同一块内存上实例化，
+// 在 runCollisionWorker 中等待；主实例每次碰撞检测时把本次用到的数据写入共享上下文，
+// 唤醒辅助线程，各线程用原子计数器领取块。辅助实例不执行启动函数，也不分配内存，
+// 只通过上下文中的地址访问主实例的粒子、网格和材质
+
+import {
+  gridWidth,
+  gridHeight,
+  cellStart,
+  cellIndices,
+  wrapCell,
+} from "./grid";
+import { wrapDelta } from "./boundary";
+import {
+  resolveCollision,
+  saveMaterials,
+  loadMaterials,
+  MATERIAL_BYTES,
+} from "./collision";
+import {
+  PARTICLE_STRIDE,
+  FIELD_X,
+  FIELD_Y,
+  FIELD_RADIUS,
+  FIELD_MASS,
+} from "./layout";
+
+// 每块的最小边长（单元数），至少为 2 才能保证同一颜色的块互不影响
+const TILE_CELLS: i32 = 4;
+const COLORS: i32 = 4;
+
+// 本次碰撞检测使用的数据（辅助线程从共享上下文中读取）
+let particles = new Float32Array(0);
+let width: f32 = 0;
+let height: f32 = 0;
+let wrapX: bool = false;
+let wrapY: bool = false;
+let columns: i32 = 0;
+let rows: i32 = 0;
+let starts = new StaticArray<i32>(0);
+let indices = new StaticArray<i32>(0);
+
+// 分块：tileOrder 是按颜色排列的块编号，颜色 c 的块是 tileOrder[colorStart[c] .. colorStart[c + 1])
+let tilesX: i32 = 1;
+let tilesY: i32 = 1;
+let tileOrder = new StaticArray<i32>(0);
+let colorStart = new StaticArray<i32>(COLORS + 1);
+
+// 统计数据（每次 collideTiles 重新计数）
+let pairsChecked: i32 = 0;
+let collisionsResolved: i32 = 0;
+
+// 检查器观察的粒子（-1 表示没有）和它本次参与的碰撞数
+let watched: i32 = -1;
+let watchedCollisions: i32 = 0;
+
+// 共享上下文的布局（字节偏移）
+const GENERATION: usize = 0; // 每次碰撞检测加 1，辅助线程在这里等待
+const READY: usize = 4; // 已经进入等待的辅助线程数，也用来分配线程编号
+const HELPERS: usize = 8; // 参与本次碰撞检测的辅助线程数
+const FINISHED: usize = 12; // 本次已经完成的辅助线程数
+const PAIRS: usize = 16; // 辅助线程的统计数据
+const COLLISIONS: usize = 20;
+const NEXT: usize = 24; // 每种颜色下一个待领取的块（4 个 i32）
+const ARRIVED: usize = 40; // 每种颜色已经到达屏障的线程数（4 个 i32）
+const WATCHED_COLLISIONS: usize = 56; // 辅助线程中被观察的粒子参与的碰撞数
+const PARTICLES: usize = 60;
+const WIDTH: usize = 64;
+const HEIGHT: usize = 68;
+const WRAP_X: usize = 72;
+const WRAP_Y: usize = 76;
+const COLUMNS: usize = 80;
+const ROWS: usize = 84;
+const STARTS: usize = 88;
+const INDICES: usize = 92;
+const TILES_X: usize = 96;
+const TILES_Y: usize = 100;
+const TILE_ORDER: usize = 104;
+const COLOR_START: usize = 108;
+const WATCHED: usize = 112; // 被观察的粒子下标
+const MATERIALS: usize = 116;
+const CONTEXT_BYTES: usize = MATERIALS + MATERIAL_BYTES;
+
+// 共享上下文的地址（0 表示还没有创建）
+let context: usize = 0;
+
+// 处理所有粒子之间的碰撞（空间网格必须已经按当前位置构建）
+// _watched 是检查器观察的粒子下标（-1 表示没有），它参与的碰撞数见 getWatchedCollisions
+export function collideTiles(
+  _particles: Float32Array,
+  _width: f32,
+  _height: f32,
+  _wrapX: bool,
+  _wrapY: bool,
+  _watched: i32
+): void {
+  particles = _particles;
+  watched = _watched;
+  width = _width;
+  height = _height;
+  wrapX = _wrapX;
+  wrapY = _wrapY;
+  columns = gridWidth;
+  rows = gridHeight;
+  starts = cellStart;
+  indices = cellIndices;
+  planTiles();
+
+  pairsChecked = 0;
+  collisionsResolved = 0;
+  watchedCollisions = 0;
+
+  if (ASC_FEATURE_THREADS) {
+    if (context != 0 && tilesX * tilesY > 1) {
+      const helpers = atomic.load<i32>(context + READY);
+      if (helpers > 0) {
+        collideInParallel(helpers);
+        return;
+      }
+    }
+  }
+
+  const total = tilesX * tilesY;
+  for (let k = 0; k < total; k++) {
+    collideTile(unchecked(tileOrder[k]));
+  }
+}
+
+// 获取上一次碰撞检测检查过的粒子对数量
+export function getPairsChecked(): i32 {
+  return pairsChecked;
+}
+
+// 获取上一次碰撞检测处理的碰撞数量
+export function getCollisionsResolved(): i32 {
+  return collisionsResolved;
+}
+
+// 获取上一次碰撞检测中被观察的粒子参与的碰撞数量
+// 不从模块导出，由 index.ts 累加到检查器的统计中
+export function getWatchedCollisions(): i32 {
+  return watchedCollisions;
+}
+
+// 获取共享上下文的地址，交给辅助线程的 runCollisionWorker
+// 只在多线程构建中有效，其他构建返回 0
+export function getCollisionContext(): usize {
+  if (!ASC_FEATURE_THREADS) return 0;
+  if (context == 0) {
+    context = heap.alloc(CONTEXT_BYTES);
+    memory.fill(context, 0, CONTEXT_BYTES);
+  }
+  return context;
+}
+
+// 辅助线程的主循环：等待主实例发起碰撞检测，领取并处理块，永不返回
+// 必须在 Web Worker 中调用（主线程不能阻塞等待）；结束辅助线程只能终止 Worker，
+// 之后主实例仍然会等待它，所以辅助线程应当与主实例同生共死
+export function runCollisionWorker(shared: usize): void {
+  if (!ASC_FEATURE_THREADS) return;
+
+  // 先读取当前的轮次再登记：登记之后开始的碰撞检测一定会被看到
+  let seen = atomic.load<i32>(shared + GENERATION);
+  const id = atomic.add<i32>(shared + READY, 1);
+
+  while (true) {
+    let generation = atomic.load<i32>(shared + GENERATION);
+    while (generation == seen) {
+      atomic.wait<i32>(shared + GENERATION, seen);
+      generation = atomic.load<i32>(shared + GENERATION);
+    }
+    seen = generation;
+
+    // 登记时这一轮已经开始了，主实例没有把这个线程算在内
+    const helpers = atomic.load<i32>(shared + HELPERS);
+    if (id >= helpers) continue;
+
+    adopt(shared);
+    pairsChecked = 0;
+    collisionsResolved = 0;
+    watchedCollisions = 0;
+    collideShared(shared, helpers + 1);
+
+    atomic.add<i32>(shared + PAIRS, pairsChecked);
+    atomic.add<i32>(shared + COLLISIONS, collisionsResolved);
+    atomic.add<i32>(shared + WATCHED_COLLISIONS, watchedCollisions);
+    atomic.add<i32>(shared + FINISHED, 1);
+    atomic.notify(shared + FINISHED);
+  }
+}
+
+// 主实例：发布本次的数据，和 helpers 个辅助线程一起处理所有块
+function collideInParallel(helpers: i32): void {
+  const shared = context;
+  store<usize>(shared + PARTICLES, changetype<usize>(particles));
+  store<f32>(shared + WIDTH, width);
+  store<f32>(shared + HEIGHT, height);
+  store<i32>(shared + WRAP_X, wrapX ? 1 : 0);
+  store<i32>(shared + WRAP_Y, wrapY ? 1 : 0);
+  store<i32>(shared + COLUMNS, columns);
+  store<i32>(shared + ROWS, rows);
+  store<usize>(shared + STARTS, changetype<usize>(starts));
+  store<usize>(shared + INDICES, changetype<usize>(indices));
+  store<i32>(shared + TILES_X, tilesX);
+  store<i32>(shared + TILES_Y, tilesY);
+  store<usize>(shared + TILE_ORDER, changetype<usize>(tileOrder));
+  store<usize>(shared + COLOR_START, changetype<usize>(colorStart));
+  store<i32>(shared + WATCHED, watched);
+  saveMaterials(shared + MATERIALS);
+
+  for (let color = 0; color < COLORS; color++) {
+    const offset = <usize>(color * 4);
+    atomic.store<i32>(shared + NEXT + offset, unchecked(colorStart[color]));
+    atomic.store<i32>(shared + ARRIVED + offset, 0);
+  }
+  atomic.store<i32>(shared + HELPERS, helpers);
+  atomic.store<i32>(shared + FINISHED, 0);
+  atomic.store<i32>(shared + PAIRS, 0);
+  atomic.store<i32>(shared + COLLISIONS, 0);
+  atomic.store<i32>(shared + WATCHED_COLLISIONS, 0);
+
+  // 开始新的一轮
+  atomic.add<i32>(shared + GENERATION, 1);
+  atomic.notify(shared + GENERATION);
+
+  collideShared(shared, helpers + 1);
+
+  // 等待所有辅助线程写入统计数据
+  let finished = atomic.load<i32>(shared + FINISHED);
+  while (finished < helpers) {
+    atomic.wait<i32>(shared + FINISHED, finished);
+    finished = atomic.load<i32>(shared + FINISHED);
+  }
+  pairsChecked += atomic.load<i32>(shared + PAIRS);
+  collisionsResolved += atomic.load<i32>(shared + COLLISIONS);
+  watchedCollisions += atomic.load<i32>(shared + WATCHED_COLLISIONS);
+}
+
+// 按颜色依次领取并处理块，每种颜色处理完后在屏障处等待其他线程
+function collideShared(shared: usize, threads: i32): void {
+  for (let color = 0; color < COLORS; color++) {
+    const offset = <usize>(color * 4);
+    const end = unchecked(colorStart[color + 1]);
+    while (true) {
+      const k = atomic.add<i32>(shared + NEXT + offset, 1);
+      if (k >= end) break;
+      collideTile(unchecked(tileOrder[k]));
+    }
+
+    const arrived = atomic.add<i32>(shared + ARRIVED + offset, 1) + 1;
+    if (arrived == threads) {
+      atomic.notify(shared + ARRIVED + offset);
+    } else {
+      let current = arrived;
+      while (current < threads) {
+        atomic.wait<i32>(shared + ARRIVED + offset, current);
+        current = atomic.load<i32>(shared + ARRIVED + offset);
+      }
+    }
+  }
+}
+
+// 辅助实例：从共享上下文中读取主实例发布的数据
+function adopt(shared: usize): void {
+  particles = changetype<Float32Array>(load<usize>(shared + PARTICLES));
+  width = load<f32>(shared + WIDTH);
+  height = load<f32>(shared + HEIGHT);
+  wrapX = load<i32>(shared + WRAP_X) != 0;
+  wrapY = load<i32>(shared + WRAP_Y) != 0;
+  columns = load<i32>(shared + COLUMNS);
+  rows = load<i32>(shared + ROWS);
+  starts = changetype<StaticArray<i32>>(load<usize>(shared + STARTS));
+  indices = changetype<StaticArray<i32>>(load<usize>(shared + INDICES));
+  tilesX = load<i32>(shared + TILES_X);
+  tilesY = load<i32>(shared + TILES_Y);
+  tileOrder = changetype<StaticArray<i32>>(load<usize>(shared + TILE_ORDER));
+  colorStart = changetype<StaticArray<i32>>(load<usize>(shared + COLOR_START));
+  watched = load<i32>(shared + WATCHED);
+  loadMaterials(shared + MATERIALS);
+}
+
+// 按网格大小分块，并把块按颜色排列
+function planTiles(): void {
+  tilesX = tileCount(columns, wrapX);
+  tilesY = tileCount(rows, wrapY);
+  const total = tilesX * tilesY;
+  if (tileOrder.length < total) {
+    tileOrder = new StaticArray<i32>(total);
+  }
+
+  let k = 0;
+  for (let color = 0; color < COLORS; color++) {
+    unchecked((colorStart[color] = k));
+    for (let ty = color >> 1; ty < tilesY; ty += 2) {
+      for (let tx = color & 1; tx < tilesX; tx += 2) {
+        unchecked((tileOrder[k++] = ty * tilesX + tx));
+      }
+    }
+  }
+  unchecked((colorStart[COLORS] = k));
+}
+
+// 一个方向上的块数
+function tileCount(cells: i32, wraps: bool): i32 {
+  let tiles = max(cells / TILE_CELLS, 1);
+  // 环绕方向上首尾两块相邻，块数必须是偶数（或者只有一块）才能让相邻的块颜色不同
+  if (wraps && tiles > 1 && (tiles & 1) != 0) tiles--;
+  return tiles;
+}
+
+// 处理一个块：块内每个单元中的粒子与相邻 9 个单元中下标更大的粒子之间的碰撞
+function collideTile(tile: i32): void {
+  const tx = tile % tilesX;
+  const ty = tile / tilesX;
+  const x0 = (tx * columns) / tilesX;
+  const x1 = ((tx + 1) * columns) / tilesX;
+  const y0 = (ty * rows) / tilesY;
+  const y1 = ((ty + 1) * rows) / tilesY;
+
+  for (let cellY = y0; cellY < y1; cellY++) {
+    for (let cellX = x0; cellX < x1; cellX++) {
+      const cell = cellY * columns + cellX;
+      const start = unchecked(starts[cell]);
+      const end = unchecked(starts[cell + 1]);
+      for (let k = start; k < end; k++) {
+        collideParticle(unchecked(indices[k]), cellX, cellY);
+      }
+    }
+  }
+}
+
+// 粒子 i（位于单元 (cellX, cellY)）与相邻单元中粒子的碰撞
+function collideParticle(i: i32, cellX: i32, cellY: i32): void {
+  // 环绕方向上单元数少于 3 时，相邻单元会重复，只遍历不同的单元
+  const spanX = wrapX ? min(3, columns) : 3;
+  const spanY = wrapY ? min(3, rows) : 3;
+  const firstX = spanX == 3 ? -1 : 0;
+  const firstY = spanY == 3 ? -1 : 0;
+
+  const offset1 = i * PARTICLE_STRIDE;
+  const x1 = particles[offset1 + FIELD_X];
+  const y1 = particles[offset1 + FIELD_Y];
+  const r1 = particles[offset1 + FIELD_RADIUS];
+  const m1 = particles[offset1 + FIELD_MASS];
+
+  // 检查相邻的9个网格单元
+  for (let offsetY = 0; offsetY < spanY; offsetY++) {
+    for (let offsetX = 0; offsetX < spanX; offsetX++) {
+      const checkCellX = wrapCell(cellX + firstX + offsetX, columns, wrapX);
+      const checkCellY = wrapCell(cellY + firstY + offsetY, rows, wrapY);
+
+      // 检查网格边界
+      if (
+        checkCellX < 0 ||
+        checkCellX >= columns ||
+        checkCellY < 0 ||
+        checkCellY >= rows
+      ) {
+        continue;
+      }
+
+      const cellIndex = checkCellY * columns + checkCellX;
+      const start = unchecked(starts[cellIndex]);
+      const end = unchecked(starts[cellIndex + 1]);
+
+      // 检查该网格中的所有粒子
+      for (let k = start; k < end; k++) {
+        const j = unchecked(indices[k]);
+
+        // 避免重复检查和自身检查
+        if (j <= i) continue;
+        pairsChecked++;
+
+        const offset2 = j * PARTICLE_STRIDE;
+        const x2 = particles[offset2 + FIELD_X];
+        const y2 = particles[offset2 + FIELD_Y];
+        const r2 = particles[offset2 + FIELD_RADIUS];
+        const m2 = particles[offset2 + FIELD_MASS];
+
+        // 计算距离（环绕方向上取最近的镜像）
+        const dx = wrapDelta(x2 - x1, width, wrapX);
+        const dy = wrapDelta(y2 - y1, height, wrapY);
+        const distSq = dx * dx + dy * dy;
+        const minDist = r1 + r2;
+        const minDistSq = minDist * minDist;
+
+        // 检测碰撞
+        if (distSq < minDistSq && distSq > 0.01) {
+          const dist = Math.sqrt(distSq);
+
+          // 归一化碰撞向量
+          const nx = dx / dist;
+          const ny = dy / dist;
+
+          // 碰撞冲量（恢复系数、摩擦与旋转见 collision.ts），正在分离的粒子不处理
+          if (
+            !resolveCollision(particles, offset1, offset2, <f32>nx, <f32>ny)
+          ) {
+            continue;
+          }
+          collisionsResolved++;
+          if (i == watched || j == watched) watchedCollisions++;
+
+          // 分离重叠的粒子
+          const overlap = minDist - dist;
+          const separationRatio = overlap / (m1 + m2);
+
+          particles[offset1 + FIELD_X] -= <f32>(nx * separationRatio * m2);
+          particles[offset1 + FIELD_Y] -= <f32>(ny * separationRatio * m2);
+          particles[offset2 + FIELD_X] += <f32>(nx * separationRatio * m1);
+          particles[offset2 + FIELD_Y] += <f32>(ny * separationRatio * m1);
+        }
+      }
+    }
+  }
+}
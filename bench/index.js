@@ -0,0 +1,204 @@
+// 无头模拟与基准测试
+//
+// 在 Node 中直接加载 build/release.wasm（--simd 时为 build/simd.wasm）运行物理核心，
+// 不需要浏览器和 GPU
+// 用法：pnpm asbuild && pnpm bench --particles 5000 --steps 600 --out state.json
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+
+const { values: args } = parseArgs({
+  options: {
+    particles: { type: "string", default: "800" },
+    steps: { type: "string", default: "600" },
+    width: { type: "string", default: "1280" },
+    height: { type: "string", default: "720" },
+    gravity: { type: "string", default: "600" },
+    damping: { type: "string", default: "0.995" },
+    "min-radius": { type: "string", default: "3" },
+    "max-radius": { type: "string", default: "8" },
+    dt: { type: "string", default: String(1 / 60) },
+    substeps: { type: "string", default: "2" },
+    seed: { type: "string", default: "1" },
+    "pair-force": { type: "string", default: "none" },
+    "pair-strength": { type: "string", default: "1000" },
+    "pair-range": { type: "string", default: "40" },
+    theta: { type: "string", default: "0.7" },
+    simd: { type: "boolean", default: false },
+    storage: { type: "string", default: "aos" },
+    out: { type: "string" },
+    json: { type: "boolean", default: false },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+if (args.help) {
+  console.log(`用法: node bench [选项]
+
+  --particles <n>    粒子数量 (默认 800)
+  --steps <n>        物理步数 (默认 600)
+  --width <px>       世界宽度 (默认 1280)
+  --height <px>      世界高度 (默认 720)
+  --gravity <px/s²>  重力加速度 (默认 600)
+  --damping <d>      阻尼系数 (默认 0.995)
+  --min-radius <px>  最小半径 (默认 3)
+  --max-radius <px>  最大半径 (默认 8)
+  --dt <s>           固定步长 (默认 1/60)
+  --substeps <n>     每步的子步数 (默认 2)
+  --seed <n>         随机种子 (默认 1)
+  --pair-force <m>   粒子间作用力: none / soft / lennard-jones / cohesion /
+                     species / gravity (默认 none)
+  --pair-strength <a> 作用强度，万有引力模式下是引力常数 (默认 1000)
+  --pair-range <px>  作用范围，万有引力模式下是软化长度 (默认 40)
+  --theta <θ>        Barnes–Hut 开角 (默认 0.7)
+  --simd             使用 SIMD 构建 (build/simd.wasm)
+  --storage <s>      SIMD 构建中位置和速度的存储方式: aos / soa (默认 aos)
+  --out <file>       把最终状态写入 JSON 文件
+  --json             以 JSON 格式输出结果`);
+  process.exit(0);
+}
+
+const wasm = await import(
+  args.simd ? "../build/simd.js" : "../build/release.js"
+);
+if (args.storage !== "aos" && args.storage !== "soa") {
+  console.error(`未知的存储方式: ${args.storage}`);
+  process.exit(1);
+}
+wasm.setParticleStorage(
+  args.storage === "soa"
+    ? wasm.PARTICLE_STORAGE_SOA.value
+    : wasm.PARTICLE_STORAGE_AOS.value
+);
+
+const count = Number(args.particles);
+const steps = Number(args.steps);
+const width = Number(args.width);
+const height = Number(args.height);
+const gravity = Number(args.gravity);
+const damping = Number(args.damping);
+const substeps = Number(args.substeps);
+const dt = Number(args.dt) / substeps;
+const seed = Number(args.seed) >>> 0;
+
+const pairForces = {
+  none: wasm.PAIR_FORCE_NONE.value,
+  soft: wasm.PAIR_FORCE_SOFT.value,
+  "lennard-jones": wasm.PAIR_FORCE_LENNARD_JONES.value,
+  cohesion: wasm.PAIR_FORCE_COHESION.value,
+  species: wasm.PAIR_FORCE_SPECIES.value,
+  gravity: wasm.PAIR_FORCE_GRAVITY.value,
+};
+const pairForce = pairForces[args["pair-force"]];
+if (pairForce === undefined) {
+  console.error(`未知的粒子间作用力: ${args["pair-force"]}`);
+  process.exit(1);
+}
+wasm.setPairForce(
+  pairForce,
+  Number(args["pair-strength"]),
+  Number(args["pair-range"])
+);
+wasm.setBarnesHutTheta(Number(args.theta));
+
+// 种类吸引矩阵模式：4 个种类，使用固定的示例矩阵（同种吸引，相邻种类追逐）
+if (pairForce === wasm.PAIR_FORCE_SPECIES.value) {
+  wasm.setSpeciesCount(4);
+  for (let a = 0; a < 4; a++) {
+    for (let b = 0; b < 4; b++) {
+      const value = a === b ? 1 : b === (a + 1) % 4 ? 0.5 : -0.3;
+      wasm.setSpeciesAttraction(a, b, value);
+    }
+  }
+}
+
+// 初始化（与 src/main.ts 中的顺序一致）
+wasm.setSeed(seed);
+wasm.setRadiusRange(Number(args["min-radius"]), Number(args["max-radius"]));
+wasm.initParticles(count, width, height, damping);
+
+// 运行（与 src/Simulation.ts 中的 step 一致）
+let pairsChecked = 0;
+let collisionsResolved = 0;
+const stepTimes = new Float64Array(steps);
+
+for (let step = 0; step < steps; step++) {
+  const start = performance.now();
+  for (let i = 0; i < substeps; i++) {
+    wasm.applyGravity(0, gravity, dt);
+    wasm.updateParticles(dt, width, height);
+    pairsChecked += wasm.getPairsChecked();
+    collisionsResolved += wasm.getCollisionsResolved();
+  }
+  stepTimes[step] = performance.now() - start;
+}
+
+const totalMs = stepTimes.reduce((sum, t) => sum + t, 0);
+const sorted = stepTimes.slice().sort();
+const result = {
+  particles: count,
+  steps,
+  substeps,
+  seed,
+  pairForce: args["pair-force"],
+  build: args.simd ? `simd-${args.storage}` : "scalar",
+  totalMs,
+  msPerStep: totalMs / steps,
+  p95MsPerStep: sorted[Math.min(steps - 1, Math.floor(steps * 0.95))],
+  pairsChecked,
+  collisionsResolved,
+};
+
+if (args.json) {
+  console.log(JSON.stringify(result, null, 2));
+} else {
+  console.log(
+    `粒子: ${count}  步数: ${steps} × ${substeps} 子步  种子: ${seed}  作用力: ${args["pair-force"]}  构建: ${result.build}`
+  );
+  console.log(`总耗时: ${totalMs.toFixed(1)} ms`);
+  console.log(
+    `每步: 平均 ${result.msPerStep.toFixed(3)} ms, p95 ${result.p95MsPerStep.toFixed(3)} ms`
+  );
+  console.log(`检查的粒子对: ${pairsChecked}`);
+  console.log(`处理的碰撞: ${collisionsResolved}`);
+}
+
+// 导出最终状态
+if (args.out) {
+  const stride = wasm.PARTICLE_STRIDE.value;
+  const particles = new Float32Array(
+    wasm.memory.buffer,
+    wasm.getParticlesPtr(),
+    wasm.getParticleCount() * stride
+  );
+  const state = {
+    ...result,
+    width,
+    height,
+    gravity,
+    damping,
+    layout: {
+      stride,
+      offsets: {
+        x: wasm.FIELD_X.value,
+        y: wasm.FIELD_Y.value,
+        vx: wasm.FIELD_VX.value,
+        vy: wasm.FIELD_VY.value,
+        radius: wasm.FIELD_RADIUS.value,
+        mass: wasm.FIELD_MASS.value,
+        colorR: wasm.FIELD_COLOR_R.value,
+        colorG: wasm.FIELD_COLOR_G.value,
+        colorB: wasm.FIELD_COLOR_B.value,
+        species: wasm.FIELD_SPECIES.value,
+        age: wasm.FIELD_AGE.value,
+        lifetime: wasm.FIELD_LIFETIME.value,
+        flags: wasm.FIELD_FLAGS.value,
+        density: wasm.FIELD_DENSITY.value,
+        angle: wasm.FIELD_ANGLE.value,
+        angularVelocity: wasm.FIELD_ANGULAR_VELOCITY.value,
+      },
+    },
+    particles: Array.from(particles),
+  };
+  await writeFile(args.out, JSON.stringify(state));
+  if (!args.json) console.log(`最终状态已写入 ${args.out}`);
+}
@@ -0,0 +1,56 @@
+// 缩放倍数的范围（相对完整显示世界）
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 32;
+
+/**
+ * 相机：决定世界的哪一部分显示在窗口中
+ *
+ * - centerX / centerY：窗口中心对应的世界坐标
+ * - zoom：相对"完整显示世界"的放大倍数，1 表示整个世界刚好显示在窗口中
+ *
+ * 相机不知道窗口大小，世界坐标与像素之间的换算由 Viewport 完成
+ */
+export class Camera {
+  public centerX = 0;
+  public centerY = 0;
+  public zoom = 1;
+
+  // 是否跟随选中的粒子（每帧把中心移到该粒子的位置，见 main.ts）
+  public following = false;
+
+  /**
+   * 完整显示世界：中心在世界中心，缩放为 1
+   */
+  reset(worldWidth: number, worldHeight: number) {
+    this.centerX = worldWidth / 2;
+    this.centerY = worldHeight / 2;
+    this.zoom = 1;
+  }
+
+  /**
+   * 以世界坐标 (x, y) 为中心缩放，这个点在窗口中的位置保持不变（例如鼠标滚轮下的点）
+   */
+  zoomAt(x: number, y: number, factor: number) {
+    const zoom = Math.min(Math.max(this.zoom * factor, MIN_ZOOM), MAX_ZOOM);
+    const ratio = this.zoom / zoom;
+    this.centerX = x + (this.centerX - x) * ratio;
+    this.centerY = y + (this.centerY - y) * ratio;
+    this.zoom = zoom;
+  }
+
+  /**
+   * 平移：画面跟着指针移动 (dx, dy)（世界坐标），所以中心反向移动
+   */
+  panBy(dx: number, dy: number) {
+    this.centerX -= dx;
+    this.centerY -= dy;
+  }
+
+  /**
+   * 把中心限制在世界范围内，世界不会被完全移出窗口
+   */
+  clamp(worldWidth: number, worldHeight: number) {
+    this.centerX = Math.min(Math.max(this.centerX, 0), worldWidth);
+    this.centerY = Math.min(Math.max(this.centerY, 0), worldHeight);
+  }
+}
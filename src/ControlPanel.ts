@@ -1,3 +1,50 @@
+import {
+  COLOR_MODES,
+  PALETTES,
+  type ColorMode,
+  type PaletteName,
+} from "./palettes";
+import type { BoundaryMode, Edge, Tool } from "./Simulation";
+import { OBSTACLE_SCENES, type ObstacleScene } from "./obstacles";
+import { FLOW_SCENES, type FlowScene } from "./emitters";
+import { PAIR_FORCES, type PairForce } from "./forces";
+import { SNAPSHOT_EXTENSION } from "./snapshot";
+import { TOOLS } from "./ToolOverlay";
+import {
+  FLUID_COLORS,
+  RENDER_MODES,
+  type FluidColor,
+  type RenderMode,
+} from "./FluidRenderer";
+import {
+  RESIZE_POLICIES,
+  WORLD_SIZES,
+  type ResizePolicy,
+  type WorldSize,
+} from "./Viewport";
+
+// 边界模式选项
+const BOUNDARY_MODES: Record<BoundaryMode, string> = {
+  wall: "墙壁",
+  wrap: "环绕",
+  remove: "开放（删除）",
+  recycle: "开放（回收）",
+};
+
+// 每条边对应的设置项和对边
+const EDGES = {
+  left: { label: "左边界", key: "boundaryLeft", opposite: "right" },
+  right: { label: "右边界", key: "boundaryRight", opposite: "left" },
+  top: { label: "上边界", key: "boundaryTop", opposite: "bottom" },
+  bottom: { label: "下边界", key: "boundaryBottom", opposite: "top" },
+} as const satisfies Record<
+  Edge,
+  { label: string; key: string; opposite: Edge }
+>;
+
+// 物理核心支持的最大种类数（见 assembly/forces.ts）
+const MAX_SPECIES = 8;
+
 /**
  * 控制面板类
  *
@@ -8,15 +55,75 @@ export class ControlPanel {
 
   // 当前设置值
   public settings = {
-    gravity: 10,
+    gravity: 600,
     damping: 0.995,
     particleCount: 800,
     minRadius: 3,
     maxRadius: 8,
+    substeps: 2,
+    timeScale: 1,
+    worldSize: "window" as WorldSize,
+    resizePolicy: "rescale" as ResizePolicy,
+    colorMode: "particle" as ColorMode,
+    palette: "coolwarm" as PaletteName,
+    velocityVectors: "off" as "off" | "on",
+    renderMode: "particles" as RenderMode,
+    fluidColor: "speed" as FluidColor,
+    fluidThreshold: 0.12,
+    trails: "off" as "off" | "on",
+    trailDecay: 0.9,
+    glow: "off" as "off" | "on",
+    glowIntensity: 0.5,
+    bloom: "off" as "off" | "on",
+    bloomThreshold: 0.5,
+    bloomIntensity: 1.5,
+    bloomRadius: 2,
+    boundaryLeft: "wall" as BoundaryMode,
+    boundaryRight: "wall" as BoundaryMode,
+    boundaryTop: "wall" as BoundaryMode,
+    boundaryBottom: "wall" as BoundaryMode,
+    wallRestitution: 0.8,
+    wallFriction: 0,
+    collisionRestitution: 0.8,
+    collisionFriction: 0,
+    rotation: "off" as "off" | "on",
+    // 按种类覆盖碰撞材质：开启后前 speciesCount 个种类使用下面数组中的值
+    speciesMaterial: "off" as "off" | "on",
+    speciesRestitution: new Array<number>(MAX_SPECIES).fill(0.8),
+    speciesFriction: new Array<number>(MAX_SPECIES).fill(0),
+    // 正在编辑的种类（从 1 开始）和它的材质，滑块改变时写回上面的数组
+    materialSpecies: 1,
+    materialRestitution: 0.8,
+    materialFriction: 0,
+    obstacleScene: "none" as ObstacleScene,
+    flowScene: "none" as FlowScene,
+    emitRate: 120,
+    emitSpeed: 500,
+    emitSpread: 10,
+    emitLifetime: 0,
+    pairForce: "none" as PairForce,
+    pairStrength: 1000,
+    pairRange: 40,
+    barnesHutTheta: 0.7,
+    speciesCount: 4,
+    // 吸引矩阵的种子（由"随机吸引矩阵"按钮改变）
+    speciesSeed: 1,
+    tool: "repel" as Tool,
+    toolRadius: 150,
+    toolStrength: 9000,
   };
 
   // 回调函数
   public onSettingsChange?: () => void;
+  public onExport?: () => void;
+  public onImport?: (file: File) => void;
+
+  // 每个设置项对应的界面更新函数，用于从外部修改设置（例如导入快照）
+  // 值不合法时返回 false
+  private controls = new Map<
+    keyof typeof this.settings,
+    (value: unknown) => boolean
+  >();
 
   constructor() {
     // 创建主面板
@@ -49,8 +156,32 @@ export class ControlPanel {
     `;
     this.panel.appendChild(title);
 
+    // 交互工具（立即生效）
+    this.createToolPalette(
+      Object.fromEntries(
+        Object.entries(TOOLS).map(([name, tool]) => [name, tool.label])
+      ),
+      "tool"
+    );
+    this.createSlider(
+      "工具范围",
+      20,
+      400,
+      this.settings.toolRadius,
+      10,
+      "toolRadius"
+    );
+    this.createSlider(
+      "工具强度",
+      1000,
+      30000,
+      this.settings.toolStrength,
+      500,
+      "toolStrength"
+    );
+
     // 创建控制项
-    this.createSlider("重力", 0, 50, this.settings.gravity, 0.5, "gravity");
+    this.createSlider("重力", 0, 3000, this.settings.gravity, 10, "gravity");
     this.createSlider(
       "阻尼",
       0.95,
@@ -75,6 +206,244 @@ export class ControlPanel {
       0.5,
       "maxRadius"
     );
+    this.createSlider("子步数", 1, 8, this.settings.substeps, 1, "substeps");
+    this.createSlider(
+      "时间倍率",
+      0.1,
+      4,
+      this.settings.timeScale,
+      0.1,
+      "timeScale"
+    );
+
+    // 世界大小与窗口大小改变时的处理方式（立即生效）
+    this.createSelect("世界大小", WORLD_SIZES, "worldSize");
+    this.createSelect("窗口缩放", RESIZE_POLICIES, "resizePolicy");
+
+    // 颜色设置
+    this.createSelect("颜色模式", COLOR_MODES, "colorMode");
+    this.createSelect(
+      "调色板",
+      Object.fromEntries(
+        Object.entries(PALETTES).map(([name, palette]) => [name, palette.label])
+      ),
+      "palette"
+    );
+    this.createSelect("速度矢量", { off: "关", on: "开" }, "velocityVectors");
+
+    // 渲染方式：粒子或液面（立即生效）
+    this.createSelect("渲染方式", RENDER_MODES, "renderMode");
+    this.createSelect("液面颜色", FLUID_COLORS, "fluidColor");
+    this.createSlider(
+      "液面阈值",
+      0.04,
+      0.4,
+      this.settings.fluidThreshold,
+      0.01,
+      "fluidThreshold"
+    );
+
+    // 视觉效果（立即生效，只影响渲染）
+    this.createSelect("拖尾", { off: "关", on: "开" }, "trails");
+    this.createSlider(
+      "拖尾保留",
+      0.5,
+      0.99,
+      this.settings.trailDecay,
+      0.01,
+      "trailDecay"
+    );
+    this.createSelect("辉光", { off: "关", on: "开" }, "glow");
+    this.createSlider(
+      "辉光强度",
+      0.1,
+      1,
+      this.settings.glowIntensity,
+      0.05,
+      "glowIntensity"
+    );
+    this.createSelect("泛光", { off: "关", on: "开" }, "bloom");
+    this.createSlider(
+      "泛光阈值",
+      0,
+      1,
+      this.settings.bloomThreshold,
+      0.05,
+      "bloomThreshold"
+    );
+    this.createSlider(
+      "泛光强度",
+      0,
+      4,
+      this.settings.bloomIntensity,
+      0.1,
+      "bloomIntensity"
+    );
+    this.createSlider(
+      "泛光半径",
+      0.5,
+      4,
+      this.settings.bloomRadius,
+      0.5,
+      "bloomRadius"
+    );
+
+    // 边界条件（立即生效）
+    // 环绕必须成对：一条边设为环绕时对边同步为环绕，取消环绕时对边恢复为墙壁
+    const edgeSelects = {} as Record<Edge, HTMLSelectElement>;
+    for (const [edge, { label, key, opposite }] of Object.entries(EDGES)) {
+      edgeSelects[edge as Edge] = this.createSelect(
+        label,
+        BOUNDARY_MODES,
+        key,
+        value => {
+          const other = EDGES[opposite];
+          const otherMode = this.settings[other.key];
+          if (value === "wrap") {
+            this.settings[other.key] = "wrap";
+          } else if (otherMode === "wrap") {
+            this.settings[other.key] = "wall";
+          } else {
+            return;
+          }
+          edgeSelects[opposite].value = this.settings[other.key];
+        }
+      );
+    }
+    this.createSlider(
+      "墙壁弹性",
+      0,
+      1,
+      this.settings.wallRestitution,
+      0.05,
+      "wallRestitution"
+    );
+    this.createSlider(
+      "墙壁摩擦",
+      0,
+      1,
+      this.settings.wallFriction,
+      0.05,
+      "wallFriction"
+    );
+
+    // 粒子之间的碰撞材质（立即生效）
+    this.createSlider(
+      "碰撞弹性",
+      0,
+      1,
+      this.settings.collisionRestitution,
+      0.05,
+      "collisionRestitution"
+    );
+    this.createSlider(
+      "碰撞摩擦",
+      0,
+      1,
+      this.settings.collisionFriction,
+      0.05,
+      "collisionFriction"
+    );
+    this.createSelect("粒子旋转", { off: "关", on: "开" }, "rotation");
+    this.createSpeciesMaterial();
+
+    // 障碍物场景
+    this.createSelect(
+      "障碍物",
+      Object.fromEntries(
+        Object.entries(OBSTACLE_SCENES).map(([name, scene]) => [
+          name,
+          scene.label,
+        ])
+      ),
+      "obstacleScene"
+    );
+
+    // 粒子流：发射器与汇（立即生效）
+    this.createSelect(
+      "粒子流",
+      Object.fromEntries(
+        Object.entries(FLOW_SCENES).map(([name, scene]) => [name, scene.label])
+      ),
+      "flowScene"
+    );
+    this.createSlider(
+      "发射速率",
+      0,
+      600,
+      this.settings.emitRate,
+      10,
+      "emitRate"
+    );
+    this.createSlider(
+      "发射速度",
+      0,
+      1500,
+      this.settings.emitSpeed,
+      10,
+      "emitSpeed"
+    );
+    this.createSlider(
+      "发射角度",
+      0,
+      90,
+      this.settings.emitSpread,
+      1,
+      "emitSpread"
+    );
+    this.createSlider(
+      "粒子寿命",
+      0,
+      20,
+      this.settings.emitLifetime,
+      0.5,
+      "emitLifetime"
+    );
+
+    // 粒子间作用力（立即生效）
+    this.createSelect(
+      "粒子间作用力",
+      PAIR_FORCES as Record<string, string>,
+      "pairForce"
+    );
+    this.createSlider(
+      "作用强度",
+      0,
+      5000,
+      this.settings.pairStrength,
+      50,
+      "pairStrength"
+    );
+    this.createSlider(
+      "作用范围",
+      5,
+      120,
+      this.settings.pairRange,
+      1,
+      "pairRange"
+    );
+    this.createSlider(
+      "种类数",
+      1,
+      MAX_SPECIES,
+      this.settings.speciesCount,
+      1,
+      "speciesCount"
+    );
+    this.createSlider(
+      "Barnes–Hut θ",
+      0,
+      1.5,
+      this.settings.barnesHutTheta,
+      0.05,
+      "barnesHutTheta"
+    );
+    const matrixButton = this.createButton("🎲 随机吸引矩阵", () => {
+      this.settings.speciesSeed = (Math.random() * 0x100000000) >>> 0;
+    });
+    matrixButton.style.width = "100%";
+    matrixButton.style.marginBottom = "15px";
+    this.panel.appendChild(matrixButton);
 
     // 重置按钮
     const resetBtn = document.createElement("button");
@@ -101,13 +470,41 @@ export class ControlPanel {
     };
     this.panel.appendChild(resetBtn);
 
+    // 场景快照：导出当前状态，或从文件导入
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = SNAPSHOT_EXTENSION;
+    fileInput.style.display = "none";
+    fileInput.onchange = () => {
+      const file = fileInput.files?.[0];
+      if (file && this.onImport) this.onImport(file);
+      fileInput.value = "";
+    };
+
+    const snapshotRow = document.createElement("div");
+    snapshotRow.style.cssText = `
+      display: flex;
+      gap: 8px;
+      margin-top: 8px;
+    `;
+    snapshotRow.appendChild(
+      this.createButton("💾 导出场景", () => this.onExport?.())
+    );
+    snapshotRow.appendChild(
+      this.createButton("📂 导入场景", () => fileInput.click())
+    );
+    snapshotRow.appendChild(fileInput);
+    this.panel.appendChild(snapshotRow);
+
     // 使用说明
     const hint = document.createElement("div");
     hint.innerHTML = `
       <div style="margin-top: 15px; padding-top: 10px; border-top: 1px solid rgba(255,255,255,0.1); font-size: 11px; color: rgba(255,255,255,0.6);">
         💡 提示：<br>
-        • 鼠标拖动推动粒子<br>
+        • 在画布上按住使用当前工具，支持多点触控<br>
         • 修改参数后点击重置<br>
+        • 空格暂停/继续，. 键单步<br>
+        • [ / ] 键调整时间倍率<br>
         • 按 H 键隐藏/显示面板
       </div>
     `;
@@ -118,6 +515,7 @@ export class ControlPanel {
 
   /**
    * 创建滑块控制
+   * @param onChange 拖动滑块后的额外处理
    */
   private createSlider(
     label: string,
@@ -125,7 +523,8 @@ export class ControlPanel {
     max: number,
     value: number,
     step: number,
-    key: keyof typeof this.settings
+    key: keyof typeof this.settings,
+    onChange?: (value: number) => void
   ): HTMLInputElement {
     const container = document.createElement("div");
     container.style.marginBottom = "15px";
@@ -201,13 +600,10 @@ export class ControlPanel {
     `;
     document.head.appendChild(style);
 
-    // 更新事件
-    slider.oninput = () => {
-      const newValue = parseFloat(slider.value);
-      (this.settings as any)[key] = newValue;
+    // 更新数值显示和滑块渐变
+    const update = (newValue: number) => {
       valueText.textContent = this.formatValue(key, newValue);
 
-      // 更新滑块渐变
       const percent = ((newValue - min) / (max - min)) * 100;
       slider.style.background = `linear-gradient(to right, 
         rgba(100, 150, 255, 0.3) 0%, 
@@ -215,6 +611,22 @@ export class ControlPanel {
         rgba(255, 255, 255, 0.1) ${percent}%)`;
     };
 
+    // 更新事件
+    slider.oninput = () => {
+      const newValue = parseFloat(slider.value);
+      (this.settings as any)[key] = newValue;
+      update(newValue);
+      onChange?.(newValue);
+    };
+
+    this.controls.set(key, value => {
+      if (typeof value !== "number" || !Number.isFinite(value)) return false;
+      (this.settings as any)[key] = value;
+      slider.value = value.toString();
+      update(value);
+      return true;
+    });
+
     container.appendChild(labelDiv);
     container.appendChild(slider);
     this.panel.appendChild(container);
@@ -222,16 +634,285 @@ export class ControlPanel {
     return slider;
   }
 
+  /**
+   * 创建按种类覆盖的碰撞材质：开关、要编辑的种类，以及该种类的弹性和摩擦
+   * 种类数减少时多出的种类保留各自的值，不写入物理核心
+   */
+  private createSpeciesMaterial() {
+    const settings = this.settings;
+    this.createSelect(
+      "按种类设置材质",
+      { off: "关", on: "开" },
+      "speciesMaterial"
+    );
+    this.createSlider(
+      "材质种类",
+      1,
+      MAX_SPECIES,
+      settings.materialSpecies,
+      1,
+      "materialSpecies",
+      () => this.showSpeciesMaterial()
+    );
+    this.createSlider(
+      "种类弹性",
+      0,
+      1,
+      settings.materialRestitution,
+      0.05,
+      "materialRestitution",
+      value => {
+        settings.speciesRestitution[this.materialIndex()] = value;
+      }
+    );
+    this.createSlider(
+      "种类摩擦",
+      0,
+      1,
+      settings.materialFriction,
+      0.05,
+      "materialFriction",
+      value => {
+        settings.speciesFriction[this.materialIndex()] = value;
+      }
+    );
+
+    // 数组没有对应的控件，导入时单独检查
+    for (const key of ["speciesRestitution", "speciesFriction"] as const) {
+      this.controls.set(key, value => {
+        if (
+          !Array.isArray(value) ||
+          value.length !== MAX_SPECIES ||
+          !value.every(item => typeof item === "number" && item >= 0)
+        ) {
+          return false;
+        }
+        settings[key] = value.slice();
+        return true;
+      });
+    }
+  }
+
+  // 编辑的种类或材质数组改变后，弹性和摩擦滑块显示该种类的值
+  private showSpeciesMaterial() {
+    const settings = this.settings;
+    const index = this.materialIndex();
+    this.controls.get("materialRestitution")!(
+      settings.speciesRestitution[index]
+    );
+    this.controls.get("materialFriction")!(settings.speciesFriction[index]);
+  }
+
+  // 正在编辑的种类在材质数组中的下标（导入的设置可能超出范围）
+  private materialIndex(): number {
+    const species = Math.round(this.settings.materialSpecies);
+    return Math.max(0, Math.min(species - 1, MAX_SPECIES - 1));
+  }
+
+  /**
+   * 创建下拉选择控制
+   * @param options 选项值到显示文本的映射
+   * @param onChange 选项改变后的额外处理
+   */
+  private createSelect(
+    label: string,
+    options: Record<string, string>,
+    key: keyof typeof this.settings,
+    onChange?: (value: string) => void
+  ): HTMLSelectElement {
+    const container = document.createElement("div");
+    container.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 15px;
+      font-size: 12px;
+    `;
+
+    const labelText = document.createElement("span");
+    labelText.textContent = label;
+    labelText.style.color = "rgba(255, 255, 255, 0.9)";
+
+    const select = document.createElement("select");
+    for (const [value, text] of Object.entries(options)) {
+      const option = document.createElement("option");
+      option.value = value;
+      option.textContent = text;
+      select.appendChild(option);
+    }
+    select.value = String(this.settings[key]);
+    select.style.cssText = `
+      min-width: 120px;
+      padding: 4px 6px;
+      background: rgba(100, 150, 255, 0.15);
+      color: white;
+      border: 1px solid rgba(100, 150, 255, 0.4);
+      border-radius: 4px;
+      outline: none;
+      cursor: pointer;
+    `;
+
+    // 更新事件（立即生效，无需重置）
+    select.onchange = () => {
+      (this.settings as any)[key] = select.value;
+      onChange?.(select.value);
+    };
+
+    this.controls.set(key, value => {
+      if (typeof value !== "string" || !(value in options)) return false;
+      (this.settings as any)[key] = value;
+      select.value = value;
+      return true;
+    });
+
+    container.appendChild(labelText);
+    container.appendChild(select);
+    this.panel.appendChild(container);
+
+    return select;
+  }
+
+  /**
+   * 创建工具选择按钮组（当前工具高亮显示）
+   * @param options 选项值到显示文本的映射
+   */
+  private createToolPalette(
+    options: Record<string, string>,
+    key: keyof typeof this.settings
+  ) {
+    const container = document.createElement("div");
+    container.style.cssText = `
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      gap: 6px;
+      margin-bottom: 15px;
+    `;
+
+    const buttons = new Map<string, HTMLButtonElement>();
+    const highlight = () => {
+      for (const [value, button] of buttons) {
+        const active = value === this.settings[key];
+        button.style.background = active
+          ? "linear-gradient(135deg, #667eea 0%, #764ba2 100%)"
+          : "rgba(100, 150, 255, 0.15)";
+      }
+    };
+
+    for (const [value, text] of Object.entries(options)) {
+      const button = this.createButton(text, () => {
+        (this.settings as any)[key] = value;
+        highlight();
+      });
+      button.style.padding = "6px 4px";
+      buttons.set(value, button);
+      container.appendChild(button);
+    }
+    highlight();
+
+    this.controls.set(key, value => {
+      if (typeof value !== "string" || !(value in options)) return false;
+      (this.settings as any)[key] = value;
+      highlight();
+      return true;
+    });
+
+    this.panel.appendChild(container);
+  }
+
+  /**
+   * 创建按钮
+   */
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.style.cssText = `
+      flex: 1;
+      padding: 8px;
+      background: rgba(100, 150, 255, 0.25);
+      color: white;
+      border: 1px solid rgba(100, 150, 255, 0.4);
+      border-radius: 5px;
+      cursor: pointer;
+      font-size: 12px;
+    `;
+    button.onclick = onClick;
+    return button;
+  }
+
+  /**
+   * 从外部修改设置并同步界面
+   *
+   * 只应用当前存在的设置项，类型或取值不合法的项会被忽略
+   * @returns 被忽略的设置项名称
+   */
+  applySettings(values: Record<string, unknown>): string[] {
+    const ignored: string[] = [];
+    const settings = this.settings as Record<string, unknown>;
+    for (const [key, value] of Object.entries(values)) {
+      const apply = this.controls.get(key as keyof typeof this.settings);
+      if (apply) {
+        if (!apply(value)) ignored.push(key);
+      } else if (key in settings && typeof value === typeof settings[key]) {
+        // 没有对应控件的设置项（例如最小半径）直接赋值
+        settings[key] = value;
+      } else {
+        ignored.push(key);
+      }
+    }
+    this.showSpeciesMaterial();
+    return ignored;
+  }
+
   /**
    * 格式化显示值
    */
   private formatValue(key: keyof typeof this.settings, value: number): string {
     switch (key) {
       case "gravity":
-        return value.toFixed(1);
+        return value.toFixed(0) + " px/s²";
       case "damping":
         return value.toFixed(3);
+      case "wallRestitution":
+      case "wallFriction":
+      case "collisionRestitution":
+      case "collisionFriction":
+      case "materialRestitution":
+      case "materialFriction":
+        return value.toFixed(2);
+      case "toolRadius":
+        return value.toFixed(0) + " px";
+      case "toolStrength":
+        return value.toFixed(0) + " px/s²";
+      case "emitRate":
+        return value.toFixed(0) + " /s";
+      case "emitSpeed":
+        return value.toFixed(0) + " px/s";
+      case "emitSpread":
+        return "±" + value.toFixed(0) + "°";
+      case "emitLifetime":
+        return value === 0 ? "永久" : value.toFixed(1) + " s";
+      case "pairStrength":
+        return value.toFixed(0);
+      case "pairRange":
+        return value.toFixed(0) + " px";
+      case "barnesHutTheta":
+        return value.toFixed(2);
+      case "trailDecay":
+        return (value * 100).toFixed(0) + "% /帧";
+      case "glowIntensity":
+      case "bloomThreshold":
+      case "fluidThreshold":
+        return value.toFixed(2);
+      case "bloomIntensity":
+        return value.toFixed(1) + "×";
+      case "bloomRadius":
+        return value.toFixed(1) + " px";
+      case "timeScale":
+        return value.toFixed(1) + "×";
       case "particleCount":
+      case "substeps":
+      case "speciesCount":
+      case "materialSpecies":
         return Math.round(value).toString();
       case "minRadius":
       case "maxRadius":
@@ -0,0 +1,160 @@
+import type { ColorMode } from "./palettes";
+import {
+  createProgram,
+  createQuadBuffer,
+  createRenderTarget,
+  drawQuad,
+  halfFloatFormat,
+  isRenderTargetComplete,
+  resizeRenderTarget,
+  type GL,
+  type ProgramInfo,
+  type RenderTarget,
+} from "./webgl";
+// 后期处理顶点着色器 - 覆盖整个渲染目标的四边形
+import postVertexShaderSource from "./postVertexShaderSource.glsl?raw";
+// 液面着色器 - 按密度阈值画出液体表面
+import fluidFragmentShaderSource from "./fluidFragmentShaderSource.glsl?raw";
+
+/**
+ * 渲染方式
+ * - particles: 每个粒子画成一个圆
+ * - fluid: 粒子的密度场画成连续的液面（metaball）
+ */
+export type RenderMode = "particles" | "fluid";
+
+export const RENDER_MODES: Record<RenderMode, string> = {
+  particles: "粒子",
+  fluid: "液面",
+};
+
+/**
+ * 液面的颜色来源（从调色板中取色）
+ */
+export type FluidColor = Extract<ColorMode, "speed" | "species">;
+
+export const FLUID_COLORS: Record<FluidColor, string> = {
+  speed: "速度",
+  species: "种类",
+};
+
+// 密度核的半径是粒子半径的几倍：越大相邻粒子越容易连成一片
+export const FLUID_RADIUS_SCALE = 2.5;
+
+// 单个粒子中心处的密度（见 splatFragmentShaderSource.glsl），液面阈值按这个值设定
+export const FLUID_SPLAT_WEIGHT = 0.25;
+
+// 密度纹理只能用 8 位格式时单个粒子中心处的密度：每个分量超过 1 会被截断，
+// 减小后大约 10 个粒子的核重叠才会饱和，着色时再按比例放大（代价是密度的精度降低）
+const FLUID_SPLAT_WEIGHT_RGBA8 = 0.1;
+
+/**
+ * 液面渲染器
+ *
+ * 分两步：
+ * 1. 溅射：粒子渲染器用溅射程序把每个粒子画成密度核，叠加到离屏的密度纹理中
+ *    （半分辨率；支持时使用半精度浮点，否则使用 8 位并减小每个粒子的密度）
+ * 2. 着色：全屏绘制一次，密度超过阈值的像素按法线和颜色着色
+ *
+ * 溅射使用粒子渲染器的顶点数据和绘制路径（实例化或回退），这里只管理密度纹理和着色程序
+ */
+export class FluidRenderer {
+  private gl: GL;
+
+  private quadBuffer: WebGLBuffer;
+  private surfaceProgram: ProgramInfo;
+
+  // 密度纹理：rgb = 颜色 × 密度，a = 密度
+  private density: RenderTarget;
+
+  // 溅射时单个粒子中心处的密度（取决于密度纹理的格式）
+  private weight = FLUID_SPLAT_WEIGHT;
+
+  constructor(gl: GL) {
+    this.gl = gl;
+    this.quadBuffer = createQuadBuffer(gl);
+    this.surfaceProgram = createProgram(
+      gl,
+      postVertexShaderSource,
+      fluidFragmentShaderSource,
+      ["u_density", "u_texel", "u_threshold", "u_densityScale"],
+      ["a_position"]
+    );
+    this.density = this.createDensityTarget();
+  }
+
+  /**
+   * 溅射时单个粒子中心处的密度（粒子渲染器传给溅射程序）
+   */
+  get splatWeight() {
+    return this.weight;
+  }
+
+  /**
+   * 开始溅射：之后绘制的粒子叠加到密度纹理中，直到调用 endSplat
+   */
+  beginSplat() {
+    const gl = this.gl;
+    const target = this.density;
+    resizeRenderTarget(
+      gl,
+      target,
+      Math.max(1, Math.ceil(gl.drawingBufferWidth / 2)),
+      Math.max(1, Math.ceil(gl.drawingBufferHeight / 2))
+    );
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.viewport(0, 0, target.width, target.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    // 密度直接相加
+    gl.blendFunc(gl.ONE, gl.ONE);
+  }
+
+  /**
+   * 结束溅射：绑定回画布，视口恢复为整个画布
+   */
+  endSplat() {
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+  }
+
+  /**
+   * 把液面画到当前绑定的帧缓冲区（画布，或后期处理的粒子层）
+   * @param threshold 液面的密度阈值
+   */
+  shade(threshold: number) {
+    const gl = this.gl;
+    const { program, uniforms } = this.surfaceProgram;
+    const target = this.density;
+    gl.useProgram(program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, target.texture);
+    gl.uniform1i(uniforms.u_density, 0);
+    gl.uniform2f(uniforms.u_texel, 1 / target.width, 1 / target.height);
+    gl.uniform1f(uniforms.u_threshold, threshold);
+    gl.uniform1f(uniforms.u_densityScale, FLUID_SPLAT_WEIGHT / this.weight);
+
+    // 输出是预乘 alpha 的颜色
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    drawQuad(gl, this.quadBuffer, this.surfaceProgram);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  // 密度纹理优先使用半精度浮点格式，叠加后超过 1 也不会被截断；
+  // 不支持时退回 8 位格式，并减小单个粒子的密度
+  private createDensityTarget(): RenderTarget {
+    const gl = this.gl;
+    const format = halfFloatFormat(gl);
+    if (format) {
+      const target = createRenderTarget(gl, format);
+      resizeRenderTarget(gl, target, 1, 1);
+      if (isRenderTargetComplete(gl, target)) return target;
+      gl.deleteFramebuffer(target.framebuffer);
+      gl.deleteTexture(target.texture);
+    }
+    this.weight = FLUID_SPLAT_WEIGHT_RGBA8;
+    return createRenderTarget(gl);
+  }
+}
@@ -0,0 +1,238 @@
+import type {
+  BoundaryMode,
+  Edge,
+  PointerInput,
+  ResizeMode,
+} from "./Simulation";
+import type { ObstacleScene } from "./obstacles";
+import type { EmitterParams, FlowScene } from "./emitters";
+import type { PairForceParams } from "./forces";
+import type { CollisionMaterial } from "./collision";
+
+/**
+ * 输入事件
+ *
+ * step 是事件生效的物理步序号（从开始录制算起）：
+ * 事件在第 step 个物理步执行之前应用
+ */
+export type InputEvent =
+  | {
+      step: number;
+      type: "reset";
+      seed: number;
+      count: number;
+      minRadius: number;
+      maxRadius: number;
+      width: number;
+      height: number;
+    }
+  | { step: number; type: "gravity"; x: number; y: number }
+  | { step: number; type: "damping"; value: number }
+  | { step: number; type: "substeps"; value: number }
+  | { step: number; type: "pointers"; pointers: PointerInput[] }
+  | { step: number; type: "resize"; width: number; height: number }
+  | {
+      step: number;
+      type: "resizeWorld";
+      mode: ResizeMode;
+      fromWidth: number;
+      fromHeight: number;
+      width: number;
+      height: number;
+    }
+  | {
+      step: number;
+      type: "count";
+      count: number;
+      width: number;
+      height: number;
+    }
+  | {
+      step: number;
+      type: "boundary";
+      edge: Edge;
+      mode: BoundaryMode;
+      restitution: number;
+      friction: number;
+    }
+  | {
+      step: number;
+      type: "obstacles";
+      scene: ObstacleScene;
+      width: number;
+      height: number;
+    }
+  | {
+      step: number;
+      type: "flow";
+      scene: FlowScene;
+      params: EmitterParams;
+      width: number;
+      height: number;
+    }
+  | { step: number; type: "pairForce"; params: PairForceParams }
+  | { step: number; type: "collision"; material: CollisionMaterial };
+
+// 不含 step 的事件内容（对联合类型的每个成员分别去掉 step）
+export type InputChange = InputEvent extends infer E
+  ? E extends unknown
+    ? Omit<E, "step">
+    : never
+  : never;
+
+/**
+ * 输入日志：回放时按固定步长把事件重新送入物理核心
+ */
+export interface InputLog {
+  version: number;
+  fixedStep: number;
+  // 录制的物理步总数
+  steps: number;
+  events: InputEvent[];
+}
+
+// 输入日志格式版本，事件格式不兼容地改变时递增，并在 MIGRATIONS 中添加升级函数
+export const INPUT_LOG_VERSION = 2;
+
+// 旧版本日志的升级函数：MIGRATIONS[n] 把版本 n 的日志升级到版本 n + 1
+// 日志来自文件，升级函数不能假设字段存在，升级后的结果由 parseInputLog 检查
+const MIGRATIONS: Record<
+  number,
+  (log: Record<string, unknown>) => Record<string, unknown>
+> = {
+  1: log => ({
+    ...log,
+    events: Array.isArray(log.events)
+      ? log.events.map(upgradeForceEvent)
+      : log.events,
+  }),
+};
+
+// 版本 1 只有一个鼠标推力（force 事件，force 为 { x, y, radius, strength } 或 null），
+// 对应版本 2 中使用排斥工具的单个指针
+function upgradeForceEvent(event: unknown): unknown {
+  if (!isRecord(event) || event.type !== "force") return event;
+  return {
+    step: event.step,
+    type: "pointers",
+    pointers: isRecord(event.force)
+      ? [{ id: 0, tool: "repel", ...event.force }]
+      : [],
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 输入录制器
+ *
+ * 记录每个物理步开始时的输入变化。相同类型（边界按边区分）的值没有变化时不会重复记录，
+ * 所以可以每帧都调用 record
+ */
+export class InputRecorder {
+  readonly fixedStep: number;
+
+  private events: InputEvent[] = [];
+
+  // 每种输入最后一次记录的值（JSON），用于去重
+  private last = new Map<string, string>();
+
+  // 已录制的物理步数
+  private steps = 0;
+
+  constructor(fixedStep: number) {
+    this.fixedStep = fixedStep;
+  }
+
+  /**
+   * 记录一个输入变化，在当前物理步之前生效
+   */
+  record(change: InputChange) {
+    // reset、count 和 resizeWorld 是一次性的操作，每次都记录；边界按边分别去重
+    if (
+      change.type !== "reset" &&
+      change.type !== "count" &&
+      change.type !== "resizeWorld"
+    ) {
+      const key =
+        change.type === "boundary" ? `boundary:${change.edge}` : change.type;
+      const value = JSON.stringify(change);
+      if (this.last.get(key) === value) return;
+      this.last.set(key, value);
+    }
+    this.events.push({ step: this.steps, ...change } as InputEvent);
+  }
+
+  /**
+   * 一个物理步执行完成
+   */
+  advance() {
+    this.steps++;
+  }
+
+  get stepCount() {
+    return this.steps;
+  }
+
+  /**
+   * 导出日志
+   */
+  toLog(): InputLog {
+    return {
+      version: INPUT_LOG_VERSION,
+      fixedStep: this.fixedStep,
+      steps: this.steps,
+      events: this.events.slice(),
+    };
+  }
+}
+
+/**
+ * 检查并解析输入日志（JSON 文本）
+ *
+ * 旧版本的日志会逐个版本升级到当前格式；
+ * 格式不正确或来自不支持的版本时抛出错误，错误信息可以直接显示给用户
+ */
+export function parseInputLog(text: string): InputLog {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("输入日志不是有效的 JSON");
+  }
+  const version = isRecord(json) ? json.version : undefined;
+  if (
+    !isRecord(json) ||
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version > INPUT_LOG_VERSION
+  ) {
+    throw new Error(`不支持的输入日志版本: ${version}`);
+  }
+
+  let log = json;
+  for (let from = version; from < INPUT_LOG_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) {
+      throw new Error(`不再支持版本 ${from} 的输入日志`);
+    }
+    log = { ...migrate(log), version: from + 1 };
+  }
+
+  const { events, fixedStep, steps } = log;
+  if (
+    !Array.isArray(events) ||
+    !events.every(isRecord) ||
+    typeof fixedStep !== "number" ||
+    !(fixedStep > 0) ||
+    !Number.isSafeInteger(steps)
+  ) {
+    throw new Error("输入日志已损坏：缺少事件、步长或步数");
+  }
+  if (!events.some(event => event.type === "reset")) {
+    throw new Error("输入日志中没有初始状态（reset 事件），无法回放");
+  }
+  return log as unknown as InputLog;
+}
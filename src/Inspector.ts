@@ -0,0 +1,52 @@
+import { RECENT_STEPS, type ParticleInfo } from "./Simulation";
+
+/**
+ * 粒子检查器面板
+ *
+ * 显示选中粒子的实时属性，只负责界面：数据由 main.ts 每帧通过 update 传入，
+ * 没有选中粒子时隐藏
+ */
+export class Inspector {
+  private panel: HTMLDivElement;
+
+  constructor() {
+    this.panel = document.createElement("div");
+    this.panel.style.cssText = `
+      position: absolute;
+      left: 10px;
+      bottom: 10px;
+      display: none;
+      background: rgba(0, 0, 0, 0.8);
+      color: white;
+      font-family: monospace;
+      font-size: 12px;
+      line-height: 1.6;
+      padding: 10px 12px;
+      border-radius: 8px;
+      border-left: 3px solid white;
+      pointer-events: none;
+    `;
+    document.body.appendChild(this.panel);
+  }
+
+  /**
+   * 更新显示的属性（每帧调用），null 表示没有选中的粒子
+   */
+  update(info: ParticleInfo | null) {
+    if (!info) {
+      this.panel.style.display = "none";
+      return;
+    }
+    const speed = Math.hypot(info.vx, info.vy);
+    this.panel.style.display = "block";
+    this.panel.innerHTML = `
+      <b>🔍 粒子 #${info.index}</b><br>
+      位置: (${info.x.toFixed(1)}, ${info.y.toFixed(1)})<br>
+      速度: (${info.vx.toFixed(1)}, ${info.vy.toFixed(1)}) |v| = ${speed.toFixed(1)} px/s<br>
+      半径: ${info.radius.toFixed(2)} px<br>
+      质量: ${info.mass.toFixed(1)}<br>
+      种类: ${info.species}<br>
+      碰撞: ${info.collisions} 次（最近 ${RECENT_STEPS} 步）
+    `;
+  }
+}
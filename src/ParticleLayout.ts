@@ -0,0 +1,109 @@
+import type asModule from "../build/release.d";
+
+type WasmExports = typeof asModule;
+
+/**
+ * 粒子记录中各字段的偏移量（单位：float）
+ */
+export interface ParticleOffsets {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  radius: number;
+  mass: number;
+  colorR: number;
+  colorG: number;
+  colorB: number;
+  species: number;
+  age: number;
+  lifetime: number;
+  flags: number;
+  density: number;
+  angle: number;
+  angularVelocity: number;
+}
+
+export type ParticleField = keyof ParticleOffsets;
+
+/**
+ * 粒子内存布局
+ *
+ * 由 WebAssembly 模块导出的常量构建（见 assembly/layout.ts），
+ * TypeScript 侧所有读取粒子数据的地方都应该使用它，而不是硬编码偏移量
+ */
+export interface ParticleLayout {
+  // 每个粒子的 float 数量
+  stride: number;
+  offsets: ParticleOffsets;
+}
+
+/**
+ * 从 WebAssembly 模块读取粒子布局
+ */
+export function readParticleLayout(wasm: WasmExports): ParticleLayout {
+  return {
+    stride: wasm.PARTICLE_STRIDE.value,
+    offsets: {
+      x: wasm.FIELD_X.value,
+      y: wasm.FIELD_Y.value,
+      vx: wasm.FIELD_VX.value,
+      vy: wasm.FIELD_VY.value,
+      radius: wasm.FIELD_RADIUS.value,
+      mass: wasm.FIELD_MASS.value,
+      colorR: wasm.FIELD_COLOR_R.value,
+      colorG: wasm.FIELD_COLOR_G.value,
+      colorB: wasm.FIELD_COLOR_B.value,
+      species: wasm.FIELD_SPECIES.value,
+      age: wasm.FIELD_AGE.value,
+      lifetime: wasm.FIELD_LIFETIME.value,
+      flags: wasm.FIELD_FLAGS.value,
+      density: wasm.FIELD_DENSITY.value,
+      angle: wasm.FIELD_ANGLE.value,
+      angularVelocity: wasm.FIELD_ANGULAR_VELOCITY.value,
+    },
+  };
+}
+
+/**
+ * 粒子数据视图
+ *
+ * 按字段名读写平坦的粒子数组，适合逐个访问粒子的场景（调试、存档等）
+ * 渲染等热路径请直接使用 layout.offsets 计算下标
+ */
+export class ParticleView {
+  readonly data: Float32Array;
+  readonly layout: ParticleLayout;
+
+  constructor(data: Float32Array, layout: ParticleLayout) {
+    this.data = data;
+    this.layout = layout;
+  }
+
+  /**
+   * 在 WebAssembly 内存上创建视图（零拷贝）
+   */
+  static fromMemory(
+    memory: WebAssembly.Memory,
+    ptr: number,
+    count: number,
+    layout: ParticleLayout
+  ) {
+    return new ParticleView(
+      new Float32Array(memory.buffer, ptr, count * layout.stride),
+      layout
+    );
+  }
+
+  get count() {
+    return this.data.length / this.layout.stride;
+  }
+
+  get(index: number, field: ParticleField): number {
+    return this.data[index * this.layout.stride + this.layout.offsets[field]];
+  }
+
+  set(index: number, field: ParticleField, value: number) {
+    this.data[index * this.layout.stride + this.layout.offsets[field]] = value;
+  }
+}
@@ -0,0 +1,850 @@
+import type { ParticleLayout } from "./ParticleLayout";
+import {
+  createProgram,
+  createQuadBuffer,
+  type GL,
+  type ProgramInfo,
+} from "./webgl";
+import {
+  DEFAULT_EFFECTS,
+  PostEffects,
+  type RenderEffects,
+} from "./PostEffects";
+import {
+  FLUID_RADIUS_SCALE,
+  FluidRenderer,
+  type RenderMode,
+} from "./FluidRenderer";
+import type { PixelRect } from "./Viewport";
+import {
+  PALETTES,
+  buildPaletteTexels,
+  type ColorMode,
+  type Palette,
+} from "./palettes";
+// 顶点着色器
+import vertexShaderSource from "./vertexShaderSource.glsl?raw";
+// 实例化顶点着色器 - 所有粒子共享一个四边形
+import instancedVertexShaderSource from "./instancedVertexShaderSource.glsl?raw";
+// 片段着色器 - 绘制圆形粒子
+import fragmentShaderSource from "./fragmentShaderSource.glsl?raw";
+// 密度溅射片段着色器 - 液面渲染方式把粒子画成密度核
+import splatFragmentShaderSource from "./splatFragmentShaderSource.glsl?raw";
+// 障碍物着色器 - 绘制 CPU 拆分好的三角形
+import obstacleVertexShaderSource from "./obstacleVertexShaderSource.glsl?raw";
+import obstacleFragmentShaderSource from "./obstacleFragmentShaderSource.glsl?raw";
+
+/**
+ * 实例化绘制接口
+ *
+ * WebGL2 原生支持实例化，WebGL1 需要 ANGLE_instanced_arrays 扩展，
+ * 两者函数名不同，这里统一成相同的调用方式
+ */
+interface Instancing {
+  api: "webgl2" | "angle";
+  drawArraysInstanced(
+    mode: number,
+    first: number,
+    count: number,
+    instanceCount: number
+  ): void;
+  vertexAttribDivisor(index: number, divisor: number): void;
+}
+
+export interface RendererOptions {
+  // 是否尝试使用实例化渲染，false 时总是使用 CPU 生成顶点的路径
+  instancing?: boolean;
+}
+
+// 实例化路径中，调色板标量对应的 u_valueMode
+const VALUE_MODES: Record<ColorMode, number> = {
+  particle: 0,
+  speed: 0,
+  mass: 1,
+  species: 2,
+  density: 3,
+  spin: 4,
+};
+
+// 速度矢量的长度：粒子在这段时间（秒）内移动的距离
+const VELOCITY_SCALE = 0.1;
+
+/**
+ * WebGL 粒子渲染器类
+ *
+ * 职责：使用 WebGL 在 GPU 上高效渲染大量粒子
+ * WebGL 是一种基于 OpenGL ES 的 JavaScript API，可以在浏览器中进行硬件加速的 3D/2D 图形渲染
+ *
+ * 有两条渲染路径：
+ * - 实例化：直接把粒子数据上传为每个实例的属性，绘制一个共享的四边形
+ * - 回退：CPU 为每个粒子生成 6 个顶点（不支持实例化时使用）
+ */
+export class ParticleRenderer {
+  // WebGL 渲染上下文 - 所有 WebGL 操作的入口点
+  private gl: GL;
+
+  // 实例化绘制接口，null 表示使用回退路径
+  private instancing: Instancing | null;
+
+  // 着色器程序 - 包含在 GPU 上运行的顶点着色器和片段着色器
+  private program: ProgramInfo;
+
+  // 液面渲染方式的溅射程序：顶点着色器与 program 相同，片段着色器输出密度
+  private splatProgram: ProgramInfo;
+
+  // 数据缓冲区 - 实例化路径存放粒子数据，回退路径存放顶点数据
+  private particleBuffer: WebGLBuffer;
+
+  // 共享四边形的角点缓冲区（仅实例化路径）
+  private quadBuffer: WebGLBuffer | null = null;
+
+  // 顶点数组 - CPU 端的临时数据存储，用于组装顶点数据后传输到 GPU（仅回退路径）
+  private vertexArray: Float32Array;
+
+  // 粒子内存布局 - 决定从粒子数组的哪个位置读取坐标和半径
+  private layout: ParticleLayout;
+
+  // 障碍物着色器程序和三角形缓冲区（每个顶点 2 个 float）
+  // 发射器和汇使用同一个程序，以半透明颜色画出区域
+  private obstacleProgram: ProgramInfo;
+  private obstacleBuffer: WebGLBuffer;
+  private obstacleVertexCount = 0;
+  private emitterBuffer: WebGLBuffer;
+  private emitterVertexCount = 0;
+  private sinkBuffer: WebGLBuffer;
+  private sinkVertexCount = 0;
+
+  // 速度矢量线段（每个粒子 2 个顶点），同样使用障碍物程序绘制
+  private velocityBuffer: WebGLBuffer;
+  private velocityArray = new Float32Array(0);
+
+  // 调色板纹理 - 256×1 的渐变色带，片段着色器按标量在其中取色
+  private paletteTexture: WebGLTexture;
+
+  // 当前上传到纹理中的调色板
+  private palette: Palette | null = null;
+
+  // 颜色模式，以及该模式下标量的取值范围（用于归一化）
+  public colorMode: ColorMode = "particle";
+  public valueRange: [number, number] = [0, 1];
+
+  // 检查器选中的粒子下标（-1 表示没有选中），在片段着色器中高亮
+  public selected = -1;
+
+  // 是否在粒子上叠加速度矢量
+  public showVelocities = false;
+
+  // 视觉效果（拖尾、辉光、泛光），拖尾和泛光由后期处理完成
+  public effects: RenderEffects = { ...DEFAULT_EFFECTS };
+  private post: PostEffects;
+
+  // 渲染方式（粒子或液面）和液面的密度阈值
+  public mode: RenderMode = "particles";
+  public fluidThreshold = 0.12;
+  private fluid: FluidRenderer;
+
+  /**
+   * 构造函数 - 初始化 WebGL 环境和着色器程序
+   * @param canvas HTML Canvas 元素，WebGL 将在其上绘制
+   * @param layout 粒子内存布局（来自 WebAssembly 模块）
+   * @param options 渲染选项
+   */
+  constructor(
+    canvas: HTMLCanvasElement,
+    layout: ParticleLayout,
+    options: RendererOptions = {}
+  ) {
+    this.layout = layout;
+    const wantInstancing =
+      options.instancing !== false && ParticleRenderer.canInstance(layout);
+
+    // 获取 WebGL 渲染上下文（类似于 2D canvas 的 getContext('2d')）
+    // 优先使用 WebGL2，它原生支持实例化
+    const gl2 = wantInstancing ? canvas.getContext("webgl2") : null;
+    const gl = gl2 ?? canvas.getContext("webgl");
+    if (!gl) throw new Error("WebGL not supported");
+    this.gl = gl;
+
+    // 检测实例化支持
+    this.instancing = null;
+    if (gl2) {
+      this.instancing = {
+        api: "webgl2",
+        drawArraysInstanced: (mode, first, count, instanceCount) =>
+          gl2.drawArraysInstanced(mode, first, count, instanceCount),
+        vertexAttribDivisor: (index, divisor) =>
+          gl2.vertexAttribDivisor(index, divisor),
+      };
+    } else if (wantInstancing) {
+      const ext = gl.getExtension("ANGLE_instanced_arrays");
+      if (ext) {
+        this.instancing = {
+          api: "angle",
+          drawArraysInstanced: (mode, first, count, instanceCount) =>
+            ext.drawArraysInstancedANGLE(mode, first, count, instanceCount),
+          vertexAttribDivisor: (index, divisor) =>
+            ext.vertexAttribDivisorANGLE(index, divisor),
+        };
+      }
+    }
+
+    /**
+     * 创建着色器程序
+     *
+     * 着色器是在 GPU 上运行的小程序，用 GLSL 语言编写
+     * - 顶点着色器：处理每个顶点的位置变换
+     * - 片段着色器：处理每个像素的颜色计算
+     */
+    const uniforms = [
+      "u_camera",
+      "u_selection",
+      "u_colorMode",
+      "u_valueRange",
+      "u_palette",
+      "u_opacity",
+      "u_radiusScale",
+      "u_splatWeight",
+    ];
+    let vertexSource: string;
+    let attributes: string[];
+    if (this.instancing) {
+      vertexSource = instancedVertexShaderSource;
+      uniforms.push("u_valueMode");
+      attributes = [
+        "a_corner",
+        "a_center",
+        "a_radius",
+        "a_velocity",
+        "a_mass",
+        "a_species",
+        "a_density",
+        "a_angularVelocity",
+        "a_color",
+      ];
+
+      // 共享四边形：角点范围 [-1, 1]
+      this.quadBuffer = createQuadBuffer(gl);
+    } else {
+      vertexSource = vertexShaderSource;
+      attributes = ["a_position", "a_center", "a_radius", "a_value", "a_color"];
+    }
+    this.program = createProgram(
+      gl,
+      vertexSource,
+      fragmentShaderSource,
+      uniforms,
+      attributes
+    );
+    this.splatProgram = createProgram(
+      gl,
+      vertexSource,
+      splatFragmentShaderSource,
+      uniforms,
+      attributes
+    );
+
+    // 创建顶点缓冲区对象（VBO - Vertex Buffer Object）
+    // 这是在 GPU 显存中分配的一块内存，用于存储顶点数据
+    this.particleBuffer = gl.createBuffer()!;
+
+    // 初始化一个空的 Float32Array，后续会根据粒子数量调整大小
+    this.vertexArray = new Float32Array(0);
+
+    // 障碍物程序，三角形在 setObstacles 中上传
+    this.obstacleProgram = createProgram(
+      gl,
+      obstacleVertexShaderSource,
+      obstacleFragmentShaderSource,
+      ["u_camera", "u_color"],
+      ["a_position"]
+    );
+    this.obstacleBuffer = gl.createBuffer()!;
+    this.emitterBuffer = gl.createBuffer()!;
+    this.sinkBuffer = gl.createBuffer()!;
+    this.velocityBuffer = gl.createBuffer()!;
+
+    // 创建调色板纹理，内容在 setPalette 中上传
+    this.paletteTexture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, this.paletteTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    this.setPalette(PALETTES.coolwarm.stops);
+
+    this.post = new PostEffects(gl);
+    this.fluid = new FluidRenderer(gl);
+
+    /**
+     * 启用混合模式
+     *
+     * 混合允许透明效果，使粒子可以有半透明的边缘
+     * gl.SRC_ALPHA：源颜色的 alpha 值
+     * gl.ONE_MINUS_SRC_ALPHA：1 - 源颜色的 alpha 值
+     * 最终颜色 = 源颜色 * alpha + 目标颜色 * (1 - alpha)
+     */
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  /**
+   * 实例化路径把 (x, y)、(vx, vy)、(r, g, b) 作为向量属性读取，
+   * 要求它们在粒子记录中是连续存放的
+   */
+  static canInstance(layout: ParticleLayout): boolean {
+    const { offsets } = layout;
+    return (
+      offsets.y === offsets.x + 1 &&
+      offsets.vy === offsets.vx + 1 &&
+      offsets.colorG === offsets.colorR + 1 &&
+      offsets.colorB === offsets.colorR + 2
+    );
+  }
+
+  /**
+   * 当前使用的渲染路径（用于界面显示）
+   */
+  get pathName(): string {
+    switch (this.instancing?.api) {
+      case "webgl2":
+        return "WebGL2 实例化";
+      case "angle":
+        return "WebGL1 实例化 (ANGLE)";
+      default:
+        return "CPU 顶点";
+    }
+  }
+
+  /**
+   * 上传调色板到纹理
+   *
+   * 调色板没有变化时直接返回，所以可以每帧调用
+   * @param stops 调色板颜色节点
+   */
+  setPalette(stops: Palette) {
+    if (this.palette === stops) return;
+    this.palette = stops;
+
+    const gl = this.gl;
+    const texels = buildPaletteTexels(stops);
+    gl.bindTexture(gl.TEXTURE_2D, this.paletteTexture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      texels.length / 4,
+      1,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      texels
+    );
+  }
+
+  /**
+   * 上传障碍物三角形
+   *
+   * 障碍物是静态的，只在变化时调用（见 src/obstacles.ts 的 buildObstacleTriangles）
+   * @param triangles 三角形顶点，每个顶点 2 个 float (x, y)
+   */
+  setObstacles(triangles: Float32Array) {
+    this.obstacleVertexCount = this.uploadTriangles(
+      this.obstacleBuffer,
+      triangles
+    );
+  }
+
+  /**
+   * 上传发射器和汇的三角形
+   *
+   * 只在变化时调用（见 src/emitters.ts 的 buildFlowTriangles）
+   */
+  setFlowZones(zones: { emitters: Float32Array; sinks: Float32Array }) {
+    this.emitterVertexCount = this.uploadTriangles(
+      this.emitterBuffer,
+      zones.emitters
+    );
+    this.sinkVertexCount = this.uploadTriangles(this.sinkBuffer, zones.sinks);
+  }
+
+  // 上传三角形顶点，返回顶点数
+  private uploadTriangles(buffer: WebGLBuffer, triangles: Float32Array) {
+    const gl = this.gl;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, triangles, gl.STATIC_DRAW);
+    return triangles.length / 2;
+  }
+
+  /**
+   * 渲染粒子
+   *
+   * 这是核心渲染函数，每帧调用一次
+   * 流程：
+   * 1. 清空画布并绘制障碍物
+   * 2. 激活着色器程序并设置 uniform
+   * 3. 上传数据、配置属性并绘制（实例化或回退路径）
+   *    液面渲染方式先把粒子溅射到密度纹理，再画出液面
+   *    开启拖尾或泛光时粒子先绘制到离屏纹理，处理后再合成到画布上
+   *
+   * @param particles 粒子数据数组（按粒子内存布局存放）
+   * @param particleCount 粒子数量
+   * @param camera 相机矩阵：世界坐标 -> 裁剪空间（列主序 3×3，见 Viewport）
+   * @param world 世界在画布中的矩形（设备像素，见 Viewport）
+   */
+  render(
+    particles: Float32Array,
+    particleCount: number,
+    camera: Float32Array,
+    world: PixelRect
+  ) {
+    const gl = this.gl;
+
+    /**
+     * 步骤 1: 清空画布
+     */
+    // 设置视口（渲染区域）为整个画布，世界坐标经相机矩阵映射到画布中
+    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+
+    // 世界之外的区域（宽高比与窗口不同或缩小时）用更暗的颜色
+    gl.clearColor(0.02, 0.02, 0.04, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    // 只清空世界所在的矩形（深蓝色背景）
+    gl.enable(gl.SCISSOR_TEST);
+    gl.scissor(world.x, world.y, world.width, world.height);
+    gl.clearColor(0.05, 0.05, 0.1, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.disable(gl.SCISSOR_TEST);
+
+    // 汇、发射器和障碍物画在粒子下面
+    this.renderShapes(camera);
+
+    const { effects } = this;
+    const fluid = this.mode === "fluid";
+    const offscreen = effects.trails || effects.bloom;
+    // 辉光只作用于粒子，液面有自己的着色
+    const glow = effects.glow && !fluid;
+
+    /**
+     * 步骤 2: 激活着色器程序
+     */
+    const info = fluid ? this.splatProgram : this.program;
+    const { uniforms } = info;
+    gl.useProgram(info.program);
+
+    // 设置 uniform 变量（传递相机矩阵给着色器）
+    // uniform 是所有顶点/片段共享的全局变量
+    gl.uniformMatrix3fv(uniforms.u_camera, false, camera);
+
+    // 选中粒子的中心，着色器按中心找到它
+    const { stride, offsets } = this.layout;
+    if (this.selected >= 0 && this.selected < particleCount) {
+      const base = this.selected * stride;
+      gl.uniform3f(
+        uniforms.u_selection,
+        particles[base + offsets.x],
+        particles[base + offsets.y],
+        1
+      );
+    } else {
+      gl.uniform3f(uniforms.u_selection, 0, 0, 0);
+    }
+
+    // 颜色模式、标量范围和调色板（纹理单元 0）
+    gl.uniform1i(uniforms.u_colorMode, this.colorMode === "particle" ? 0 : 1);
+    gl.uniform2f(uniforms.u_valueRange, this.valueRange[0], this.valueRange[1]);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.paletteTexture);
+    gl.uniform1i(uniforms.u_palette, 0);
+
+    // 辉光时粒子的不透明度就是辉光强度
+    gl.uniform1f(uniforms.u_opacity, glow ? effects.glowIntensity : 0.9);
+
+    // 液面的密度核比粒子大
+    gl.uniform1f(uniforms.u_radiusScale, fluid ? FLUID_RADIUS_SCALE : 1);
+    gl.uniform1f(uniforms.u_splatWeight, this.fluid.splatWeight);
+
+    /**
+     * 步骤 3: 绘制
+     */
+    if (fluid) {
+      this.fluid.beginSplat();
+    } else {
+      if (offscreen) this.post.begin();
+      this.setParticleBlend(glow, offscreen);
+    }
+    if (this.instancing) {
+      this.renderInstanced(this.instancing, info, particles, particleCount);
+    } else {
+      this.renderVertices(info, particles, particleCount);
+    }
+    if (fluid) {
+      this.fluid.endSplat();
+      if (offscreen) this.post.begin();
+      this.fluid.shade(this.fluidThreshold);
+    }
+    if (offscreen) {
+      this.post.end({ ...effects, glow });
+    } else {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    }
+
+    // 速度矢量画在粒子上面
+    if (this.showVelocities) {
+      this.renderVelocities(particles, particleCount, camera);
+    }
+  }
+
+  /**
+   * 绘制粒子时的混合方式
+   *
+   * - 辉光：叠加混合（目标颜色 + 源颜色 * alpha），重叠的粒子越来越亮
+   * - 离屏：粒子层的背景是透明的，alpha 分量单独按 ONE 混合，
+   *   得到预乘 alpha 的颜色，合成时才能正确地盖在背景上
+   * - 其他：普通的 alpha 混合
+   */
+  private setParticleBlend(glow: boolean, offscreen: boolean) {
+    const gl = this.gl;
+    if (glow) {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE);
+    } else if (offscreen) {
+      gl.blendFuncSeparate(
+        gl.SRC_ALPHA,
+        gl.ONE_MINUS_SRC_ALPHA,
+        gl.ONE,
+        gl.ONE_MINUS_SRC_ALPHA
+      );
+    } else {
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    }
+  }
+
+  /**
+   * 从每个粒子的中心沿速度方向画一条线段
+   */
+  private renderVelocities(
+    particles: Float32Array,
+    particleCount: number,
+    camera: Float32Array
+  ) {
+    const gl = this.gl;
+    const { stride, offsets } = this.layout;
+    const floats = particleCount * 4;
+    if (this.velocityArray.length < floats) {
+      this.velocityArray = new Float32Array(floats);
+    }
+    const lines = this.velocityArray;
+    for (let i = 0; i < particleCount; i++) {
+      const base = i * stride;
+      const x = particles[base + offsets.x];
+      const y = particles[base + offsets.y];
+      lines[i * 4] = x;
+      lines[i * 4 + 1] = y;
+      lines[i * 4 + 2] = x + particles[base + offsets.vx] * VELOCITY_SCALE;
+      lines[i * 4 + 3] = y + particles[base + offsets.vy] * VELOCITY_SCALE;
+    }
+
+    const { program, uniforms, attributes } = this.obstacleProgram;
+    gl.useProgram(program);
+    gl.uniformMatrix3fv(uniforms.u_camera, false, camera);
+    gl.uniform4f(uniforms.u_color, 1, 0.85, 0.3, 0.8);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.velocityBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, lines.subarray(0, floats), gl.DYNAMIC_DRAW);
+    gl.enableVertexAttribArray(attributes.a_position);
+    gl.vertexAttribPointer(attributes.a_position, 2, gl.FLOAT, false, 0, 0);
+    gl.drawArrays(gl.LINES, 0, particleCount * 2);
+    gl.disableVertexAttribArray(attributes.a_position);
+  }
+
+  /**
+   * 绘制汇、发射器和障碍物三角形
+   */
+  private renderShapes(camera: Float32Array) {
+    const gl = this.gl;
+    const { program, uniforms, attributes } = this.obstacleProgram;
+    gl.useProgram(program);
+    gl.uniformMatrix3fv(uniforms.u_camera, false, camera);
+    gl.enableVertexAttribArray(attributes.a_position);
+
+    const shapes: [WebGLBuffer, number, [number, number, number, number]][] = [
+      [this.sinkBuffer, this.sinkVertexCount, [0.9, 0.3, 0.3, 0.25]],
+      [this.emitterBuffer, this.emitterVertexCount, [0.3, 0.9, 0.5, 0.35]],
+      [this.obstacleBuffer, this.obstacleVertexCount, [0.55, 0.6, 0.7, 1]],
+    ];
+    for (const [buffer, count, color] of shapes) {
+      if (count === 0) continue;
+      gl.uniform4f(uniforms.u_color, ...color);
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.vertexAttribPointer(attributes.a_position, 2, gl.FLOAT, false, 0, 0);
+      gl.drawArrays(gl.TRIANGLES, 0, count);
+    }
+    gl.disableVertexAttribArray(attributes.a_position);
+  }
+
+  /**
+   * 实例化路径
+   *
+   * 粒子数据原样上传（每个粒子 stride 个 float），不需要 CPU 组装顶点
+   * 每个实例的属性按粒子内存布局的偏移量读取
+   */
+  private renderInstanced(
+    instancing: Instancing,
+    program: ProgramInfo,
+    particles: Float32Array,
+    particleCount: number
+  ) {
+    const gl = this.gl;
+    const { attributes, uniforms } = program;
+    const { stride, offsets } = this.layout;
+
+    gl.uniform1i(uniforms.u_valueMode, VALUE_MODES[this.colorMode]);
+
+    // 共享四边形的角点（每个顶点不同，divisor = 0）
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.enableVertexAttribArray(attributes.a_corner);
+    gl.vertexAttribPointer(attributes.a_corner, 2, gl.FLOAT, false, 0, 0);
+    instancing.vertexAttribDivisor(attributes.a_corner, 0);
+
+    // 上传粒子数据
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.particleBuffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      particles.subarray(0, particleCount * stride),
+      gl.DYNAMIC_DRAW
+    );
+
+    // 每个实例的属性（divisor = 1：每个实例前进一个粒子）
+    const instanceAttributes: [string, number, number][] = [
+      ["a_center", 2, offsets.x],
+      ["a_radius", 1, offsets.radius],
+      ["a_velocity", 2, offsets.vx],
+      ["a_mass", 1, offsets.mass],
+      ["a_species", 1, offsets.species],
+      ["a_density", 1, offsets.density],
+      ["a_angularVelocity", 1, offsets.angularVelocity],
+      ["a_color", 3, offsets.colorR],
+    ];
+    for (const [name, size, offset] of instanceAttributes) {
+      const location = attributes[name];
+      if (location < 0) continue;
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(
+        location,
+        size,
+        gl.FLOAT,
+        false,
+        stride * 4,
+        offset * 4
+      );
+      instancing.vertexAttribDivisor(location, 1);
+    }
+
+    // 一次绘制所有粒子：6 个顶点 × particleCount 个实例
+    instancing.drawArraysInstanced(gl.TRIANGLES, 0, 6, particleCount);
+
+    // 恢复 divisor，避免影响之后使用同一属性位置的其他绘制
+    for (const [name] of instanceAttributes) {
+      const location = attributes[name];
+      if (location < 0) continue;
+      instancing.vertexAttribDivisor(location, 0);
+      gl.disableVertexAttribArray(location);
+    }
+  }
+
+  /**
+   * 回退路径：为每个粒子生成 6 个顶点（2 个三角形组成 1 个四边形）
+   */
+  private renderVertices(
+    program: ProgramInfo,
+    particles: Float32Array,
+    particleCount: number
+  ) {
+    const gl = this.gl;
+    const { attributes } = program;
+
+    /**
+     * 为每个粒子生成顶点数据
+     *
+     * WebGL 只能绘制三角形，所以我们用 2 个三角形组成 1 个四边形来表示圆形粒子
+     * 每个粒子需要 6 个顶点（每个三角形 3 个顶点）
+     */
+    const verticesPerParticle = 6; // 2 个三角形 = 6 个顶点
+    // 每个顶点 9 个浮点数：x, y, centerX, centerY, radius, value, r, g, b
+    const floatsPerVertex = 9;
+    const totalFloats = particleCount * verticesPerParticle * floatsPerVertex;
+
+    // 如果数组大小不匹配，重新分配内存
+    if (this.vertexArray.length !== totalFloats) {
+      this.vertexArray = new Float32Array(totalFloats);
+    }
+
+    // 遍历每个粒子，生成其顶点数据
+    const { offsets } = this.layout;
+    for (let i = 0; i < particleCount; i++) {
+      // 从 particles 数组中读取粒子数据
+      const particleOffset = i * this.layout.stride;
+      const x = particles[particleOffset + offsets.x]; // 粒子中心 x 坐标
+      const y = particles[particleOffset + offsets.y]; // 粒子中心 y 坐标
+      const radius = particles[particleOffset + offsets.radius]; // 粒子半径
+
+      const arrayOffset = i * verticesPerParticle * floatsPerVertex;
+      const v = floatsPerVertex;
+
+      /**
+       * 创建四边形的两个三角形
+       *
+       * 四边形的 4 个角：
+       * (x-r, y-r) ---- (x+r, y-r)
+       *     |               |
+       *     |     (x,y)     |
+       *     |               |
+       * (x-r, y+r) ---- (x+r, y+r)
+       *
+       * 三角形 1: 左上、右上、左下
+       * 三角形 2: 左下、右上、右下
+       */
+
+      // Triangle 1
+      this.setVertex(arrayOffset + v * 0, x - radius, y - radius, x, y, radius); // 左上
+      this.setVertex(arrayOffset + v * 1, x + radius, y - radius, x, y, radius); // 右上
+      this.setVertex(arrayOffset + v * 2, x - radius, y + radius, x, y, radius); // 左下
+
+      // Triangle 2
+      this.setVertex(arrayOffset + v * 3, x - radius, y + radius, x, y, radius); // 左下
+      this.setVertex(arrayOffset + v * 4, x + radius, y - radius, x, y, radius); // 右上
+      this.setVertex(arrayOffset + v * 5, x + radius, y + radius, x, y, radius); // 右下
+
+      // 颜色数据：6 个顶点都相同
+      const value = this.colorValue(particles, particleOffset);
+      const r = particles[particleOffset + offsets.colorR];
+      const g = particles[particleOffset + offsets.colorG];
+      const b = particles[particleOffset + offsets.colorB];
+      for (let k = 0; k < verticesPerParticle; k++) {
+        const vertexOffset = arrayOffset + v * k;
+        this.vertexArray[vertexOffset + 5] = value;
+        this.vertexArray[vertexOffset + 6] = r;
+        this.vertexArray[vertexOffset + 7] = g;
+        this.vertexArray[vertexOffset + 8] = b;
+      }
+    }
+
+    /**
+     * 上传数据到 GPU
+     */
+    // 绑定缓冲区（告诉 WebGL 我们要操作这个缓冲区）
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.particleBuffer);
+
+    // 将 CPU 端的数据上传到 GPU 显存
+    // DYNAMIC_DRAW 表示这些数据会频繁更新（每帧都更新）
+    gl.bufferData(gl.ARRAY_BUFFER, this.vertexArray, gl.DYNAMIC_DRAW);
+
+    /**
+     * 配置顶点属性
+     *
+     * 告诉 WebGL 如何从缓冲区中读取数据并传递给着色器
+     */
+    const stride = floatsPerVertex * 4; // 每个顶点的字节大小（4 字节 = 1 个 float）
+
+    // 配置 a_position 属性（顶点位置）
+    gl.enableVertexAttribArray(attributes.a_position); // 启用属性
+    // 参数：(属性位置, 分量数量, 数据类型, 是否归一化, 步长, 偏移量)
+    gl.vertexAttribPointer(
+      attributes.a_position,
+      2,
+      gl.FLOAT,
+      false,
+      stride,
+      0
+    );
+
+    // 配置 a_center 属性（粒子中心坐标）
+    gl.enableVertexAttribArray(attributes.a_center);
+    gl.vertexAttribPointer(attributes.a_center, 2, gl.FLOAT, false, stride, 8); // 偏移 8 字节
+
+    // 配置 a_radius 属性（粒子半径）
+    gl.enableVertexAttribArray(attributes.a_radius);
+    gl.vertexAttribPointer(attributes.a_radius, 1, gl.FLOAT, false, stride, 16); // 偏移 16 字节
+
+    // 配置 a_value 属性（颜色模式对应的标量）
+    gl.enableVertexAttribArray(attributes.a_value);
+    gl.vertexAttribPointer(attributes.a_value, 1, gl.FLOAT, false, stride, 20); // 偏移 20 字节
+
+    // 配置 a_color 属性（粒子自身的颜色；溅射程序不使用，位置为 -1）
+    if (attributes.a_color >= 0) {
+      gl.enableVertexAttribArray(attributes.a_color);
+      gl.vertexAttribPointer(
+        attributes.a_color,
+        3,
+        gl.FLOAT,
+        false,
+        stride,
+        24
+      ); // 偏移 24 字节
+    }
+
+    /**
+     * 执行绘制
+     *
+     * TRIANGLES 模式：每 3 个顶点组成一个三角形
+     * 从第 0 个顶点开始，绘制 particleCount * 6 个顶点
+     */
+    gl.drawArrays(gl.TRIANGLES, 0, particleCount * verticesPerParticle);
+  }
+
+  /**
+   * 计算粒子在当前颜色模式下的标量（仅回退路径，实例化路径在着色器中计算）
+   * @param particles 粒子数据数组
+   * @param particleOffset 粒子在数组中的起始位置
+   */
+  private colorValue(particles: Float32Array, particleOffset: number): number {
+    const { offsets } = this.layout;
+    switch (this.colorMode) {
+      case "speed": {
+        const vx = particles[particleOffset + offsets.vx];
+        const vy = particles[particleOffset + offsets.vy];
+        return Math.sqrt(vx * vx + vy * vy);
+      }
+      case "mass":
+        return particles[particleOffset + offsets.mass];
+      case "species":
+        return particles[particleOffset + offsets.species];
+      case "density":
+        return particles[particleOffset + offsets.density];
+      case "spin":
+        return Math.abs(particles[particleOffset + offsets.angularVelocity]);
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 设置单个顶点的数据
+   *
+   * 将顶点的位置、粒子中心、半径信息写入顶点数组
+   *
+   * @param offset 在 vertexArray 中的起始位置
+   * @param x 顶点 x 坐标
+   * @param y 顶点 y 坐标
+   * @param cx 粒子中心 x 坐标
+   * @param cy 粒子中心 y 坐标
+   * @param r 粒子半径
+   */
+  private setVertex(
+    offset: number,
+    x: number,
+    y: number,
+    cx: number,
+    cy: number,
+    r: number
+  ) {
+    // 在片段着色器中，我们需要知道：
+    // 1. 当前像素的坐标 (x, y) - 用于判断是否在圆内
+    // 2. 粒子的中心坐标 (cx, cy) - 用于计算距离
+    // 3. 粒子的半径 (r) - 用于判断边界
+    this.vertexArray[offset] = x; // 顶点 x 坐标
+    this.vertexArray[offset + 1] = y; // 顶点 y 坐标
+    this.vertexArray[offset + 2] = cx; // 粒子中心 x
+    this.vertexArray[offset + 3] = cy; // 粒子中心 y
+    this.vertexArray[offset + 4] = r; // 粒子半径
+  }
+}
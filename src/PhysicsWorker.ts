@@ -0,0 +1,427 @@
+import threadsWasmUrl from "../build/threads.wasm?url";
+import type { ParticleLayout } from "./ParticleLayout";
+import type { InputLog } from "./InputRecorder";
+import type {
+  BoundaryMode,
+  Edge,
+  PointerInput,
+  ResetOptions,
+  ResizeMode,
+  ParticleInfo,
+} from "./Simulation";
+import type { ObstacleScene } from "./obstacles";
+import type { EmitterParams, FlowScene } from "./emitters";
+import type { PairForceParams } from "./forces";
+import type { CollisionMaterial } from "./collision";
+
+// 共享内存的大小（页，每页 64 KiB），必须与 asconfig.json 中 threads 目标的设置一致
+const INITIAL_MEMORY = 64;
+const MAXIMUM_MEMORY = 4096;
+
+/**
+ * 主线程发给物理线程的命令，按调用顺序执行
+ */
+export type PhysicsCommand =
+  | { type: "reset"; options: ResetOptions }
+  | { type: "load"; particles: Float32Array; width: number; height: number }
+  | { type: "count"; count: number; width: number; height: number }
+  | {
+      type: "resizeWorld";
+      mode: ResizeMode;
+      fromWidth: number;
+      fromHeight: number;
+      width: number;
+      height: number;
+    }
+  | {
+      type: "boundary";
+      edge: Edge;
+      mode: BoundaryMode;
+      restitution: number;
+      friction: number;
+    }
+  | { type: "obstacles"; scene: ObstacleScene; width: number; height: number }
+  | {
+      type: "flow";
+      scene: FlowScene;
+      params: EmitterParams;
+      width: number;
+      height: number;
+    }
+  | { type: "pairForce"; params: PairForceParams }
+  | { type: "collision"; material: CollisionMaterial }
+  | { type: "select"; x: number; y: number }
+  | { type: "step"; width: number; height: number }
+  | { type: "startRecording" }
+  // 需要返回值的命令，结果按 id 放在 PhysicsFrame.replies 中
+  | { type: "stopRecording"; id: number }
+  | { type: "copy"; id: number };
+
+/**
+ * 一次请求：先写入每步都会读取的输入，再执行命令，最后按累计的时间推进
+ */
+export interface PhysicsRequest {
+  inputs: {
+    fixedStep: number;
+    substeps: number;
+    gravityX: number;
+    gravityY: number;
+    damping: number;
+    pointers: PointerInput[];
+  };
+  commands: PhysicsCommand[];
+  advance: { frameTime: number; width: number; height: number } | null;
+}
+
+/**
+ * 物理线程处理完一次请求后发回的状态
+ */
+export interface PhysicsFrame {
+  count: number;
+  selected: number;
+  // 检查器显示的选中粒子属性
+  inspected: ParticleInfo | null;
+  stepCount: number;
+  recordedSteps: number;
+  // 渲染缓冲区分为两个槽，slot 是刚写入插值后粒子数据的槽
+  slot: number;
+  // 粒子数量超出容量时重新分配的渲染缓冲区
+  buffer?: SharedArrayBuffer;
+  // 障碍物、发射器或汇变化后重新生成的三角形
+  obstacles?: Float32Array;
+  flow?: { emitters: Float32Array; sinks: Float32Array };
+  replies: { id: number; value: unknown }[];
+}
+
+/**
+ * 在 Web Worker 中运行的模拟器
+ *
+ * 物理线程持有 Simulation 和多线程构建的物理核心（build/threads.wasm），
+ * 粒子碰撞由物理线程和若干辅助线程在共享内存上分块并行处理（见 assembly/tiles.ts）。
+ * 主线程只负责输入、界面和渲染：
+ * - 属性和方法与 Simulation 相同，调用被记录为命令，随下一次请求发给物理线程
+ * - 同一时间最多只有一个请求在处理中，期间的帧时间和命令累积到下一次请求
+ * - 物理线程把插值后的粒子数据写入共享的渲染缓冲区，两个槽交替使用：
+ *   主线程读取最近发回的槽时，物理线程只会写入另一个槽。
+ *   主线程不直接读取 wasm 的共享内存，代价是物理线程每帧多复制一次粒子数据（见 physics.worker.ts）
+ * - 读取类的属性返回最近一次发回的状态，需要结果的方法返回 Promise
+ *
+ * 共享内存要求页面跨源隔离（crossOriginIsolated），不满足时应使用 Simulation
+ */
+export class PhysicsWorker {
+  readonly layout: ParticleLayout;
+
+  // 与 Simulation 相同的输入，每次请求时发给物理线程
+  public fixedStep = 1 / 60;
+  public substeps = 2;
+  public gravityX = 0;
+  public gravityY = 0;
+  public damping = 0.999;
+  public pointers: PointerInput[] = [];
+
+  // 参与碰撞检测的线程数（物理线程 + 辅助线程）
+  readonly threads: number;
+
+  // 障碍物、发射器和汇的三角形，版本号在物理线程发回新的三角形时增加
+  public obstacleTriangles: Float32Array = new Float32Array(0);
+  public flowTriangles: NonNullable<PhysicsFrame["flow"]> = {
+    emitters: new Float32Array(0),
+    sinks: new Float32Array(0),
+  };
+  public obstacleVersion = 0;
+  public emitterVersion = 0;
+
+  // 物理线程出错（例如执行命令时抛出异常）时调用，出错的请求不会有回复
+  public onError?: (error: Error) => void;
+
+  private worker: Worker;
+
+  // 尚未发出的命令和帧时间
+  private commands: PhysicsCommand[] = [];
+  private pendingAdvance: PhysicsRequest["advance"] = null;
+  private busy = false;
+
+  // 等待结果的命令
+  private nextId = 0;
+  private waiting = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+
+  // 最近一次发回的状态
+  private frame: PhysicsFrame = {
+    count: 0,
+    selected: -1,
+    inspected: null,
+    stepCount: 0,
+    recordedSteps: 0,
+    slot: 0,
+    replies: [],
+  };
+  private buffer = new SharedArrayBuffer(0);
+  private recordingRequested = false;
+
+  private constructor(worker: Worker, layout: ParticleLayout, threads: number) {
+    this.worker = worker;
+    this.layout = layout;
+    this.threads = threads;
+    worker.onmessage = ({ data }) => this.receive(data);
+    worker.onerror = event => this.fail(new Error(event.message));
+    worker.onmessageerror = () =>
+      this.fail(new Error("无法读取物理线程发回的消息"));
+  }
+
+  /**
+   * 创建物理线程和 threads - 1 个碰撞检测辅助线程
+   */
+  static async create(threads: number): Promise<PhysicsWorker> {
+    const module = await WebAssembly.compileStreaming(fetch(threadsWasmUrl));
+    const memory = new WebAssembly.Memory({
+      initial: INITIAL_MEMORY,
+      maximum: MAXIMUM_MEMORY,
+      shared: true,
+    });
+
+    const worker = new Worker(new URL("./physics.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const helpers = Array.from(
+      { length: Math.max(threads - 1, 0) },
+      () =>
+        new Worker(new URL("./collision.worker.ts", import.meta.url), {
+          type: "module",
+        })
+    );
+
+    // 每次实例化都会重新写入数据段，而内存分配器和垃圾回收器的部分状态保存在数据段中，
+    // 所以所有线程都实例化完成后，物理线程才能执行启动函数
+    // 任何一步失败时结束已经创建的线程，由调用方退回主线程模拟
+    let started: { layout: ParticleLayout; context: number };
+    try {
+      await Promise.all(
+        [worker, ...helpers].map(target => request(target, { module, memory }))
+      );
+      started = (await request(worker, { start: true })) as typeof started;
+    } catch (error) {
+      for (const target of [worker, ...helpers]) target.terminate();
+      throw error;
+    }
+    const { layout, context } = started;
+    for (const helper of helpers) helper.postMessage({ context });
+
+    return new PhysicsWorker(worker, layout, helpers.length + 1);
+  }
+
+  reset(options: ResetOptions) {
+    this.send({ type: "reset", options: { ...options } });
+  }
+
+  load(particles: Float32Array, width: number, height: number) {
+    this.send({ type: "load", particles: particles.slice(), width, height });
+  }
+
+  setParticleCount(count: number, width: number, height: number) {
+    this.send({ type: "count", count, width, height });
+  }
+
+  resizeWorld(
+    mode: ResizeMode,
+    fromWidth: number,
+    fromHeight: number,
+    width: number,
+    height: number
+  ) {
+    this.send({
+      type: "resizeWorld",
+      mode,
+      fromWidth,
+      fromHeight,
+      width,
+      height,
+    });
+  }
+
+  setBoundary(edge: Edge, mode: BoundaryMode, restitution = 0.8, friction = 0) {
+    this.send({ type: "boundary", edge, mode, restitution, friction });
+  }
+
+  setObstacleScene(scene: ObstacleScene, width: number, height: number) {
+    this.send({ type: "obstacles", scene, width, height });
+  }
+
+  setFlowScene(
+    scene: FlowScene,
+    params: EmitterParams,
+    width: number,
+    height: number
+  ) {
+    this.send({ type: "flow", scene, params: { ...params }, width, height });
+  }
+
+  setPairForce(params: PairForceParams) {
+    this.send({ type: "pairForce", params });
+  }
+
+  setCollisionMaterial(material: CollisionMaterial) {
+    this.send({ type: "collision", material });
+  }
+
+  select(x: number, y: number) {
+    this.send({ type: "select", x, y });
+  }
+
+  /**
+   * 推进模拟：帧时间累积到下一次请求，由物理线程的 Simulation 按固定步长执行
+   */
+  advance(frameTime: number, width: number, height: number) {
+    this.pendingAdvance = {
+      frameTime: (this.pendingAdvance?.frameTime ?? 0) + frameTime,
+      width,
+      height,
+    };
+    this.flush();
+  }
+
+  stepOnce(width: number, height: number) {
+    this.send({ type: "step", width, height });
+  }
+
+  /**
+   * 复制当前的粒子数据（不做插值）
+   */
+  copyParticles(): Promise<Float32Array> {
+    return this.call(id => ({ type: "copy", id })) as Promise<Float32Array>;
+  }
+
+  startRecording() {
+    this.recordingRequested = true;
+    this.send({ type: "startRecording" });
+  }
+
+  stopRecording(): Promise<InputLog | null> {
+    this.recordingRequested = false;
+    return this.call(id => ({
+      type: "stopRecording",
+      id,
+    })) as Promise<InputLog | null>;
+  }
+
+  get recording() {
+    return this.recordingRequested;
+  }
+
+  get recordedSteps() {
+    return this.frame.recordedSteps;
+  }
+
+  get stepCount() {
+    return this.frame.stepCount;
+  }
+
+  get count() {
+    return this.frame.count;
+  }
+
+  get selected() {
+    return this.frame.selected;
+  }
+
+  inspect(): ParticleInfo | null {
+    return this.frame.inspected;
+  }
+
+  /**
+   * 最近一次发回的插值后的粒子数据（共享渲染缓冲区中的视图）
+   */
+  getRenderParticles(): Float32Array {
+    const slotBytes = this.buffer.byteLength / 2;
+    return new Float32Array(
+      this.buffer,
+      this.frame.slot * slotBytes,
+      this.frame.count * this.layout.stride
+    );
+  }
+
+  private send(command: PhysicsCommand) {
+    this.commands.push(command);
+    this.flush();
+  }
+
+  private call(command: (id: number) => PhysicsCommand): Promise<unknown> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.waiting.set(id, { resolve, reject });
+      this.send(command(id));
+    });
+  }
+
+  // 没有请求在处理中时，把累积的输入、命令和帧时间作为一次请求发出
+  private flush() {
+    if (this.busy) return;
+    if (this.commands.length === 0 && !this.pendingAdvance) return;
+
+    const message: PhysicsRequest = {
+      inputs: {
+        fixedStep: this.fixedStep,
+        substeps: this.substeps,
+        gravityX: this.gravityX,
+        gravityY: this.gravityY,
+        damping: this.damping,
+        pointers: this.pointers,
+      },
+      commands: this.commands,
+      advance: this.pendingAdvance,
+    };
+    this.commands = [];
+    this.pendingAdvance = null;
+    this.busy = true;
+    this.worker.postMessage(message);
+  }
+
+  private receive(frame: PhysicsFrame) {
+    this.frame = frame;
+    if (frame.buffer) this.buffer = frame.buffer;
+    if (frame.obstacles) {
+      this.obstacleTriangles = frame.obstacles;
+      this.obstacleVersion++;
+    }
+    if (frame.flow) {
+      this.flowTriangles = frame.flow;
+      this.emitterVersion++;
+    }
+    for (const { id, value } of frame.replies) {
+      this.waiting.get(id)?.resolve(value);
+      this.waiting.delete(id);
+    }
+
+    this.busy = false;
+    this.flush();
+  }
+
+  // 正在处理的请求失败：等待结果的调用全部失败，之后的命令和帧时间照常发出
+  private fail(error: Error) {
+    for (const { reject } of this.waiting.values()) reject(error);
+    this.waiting.clear();
+    this.busy = false;
+    this.onError?.(error);
+  }
+}
+
+// 发送一条消息并等待回复（只在创建线程时使用），收到回复或出错后移除事件处理函数
+function request(worker: Worker, message: unknown): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const settle = () => {
+      worker.onmessage = null;
+      worker.onerror = null;
+    };
+    worker.onmessage = ({ data }) => {
+      settle();
+      resolve(data);
+    };
+    worker.onerror = event => {
+      settle();
+      reject(new Error(event.message));
+    };
+    worker.postMessage(message);
+  });
+}
@@ -0,0 +1,244 @@
+import {
+  createProgram,
+  createQuadBuffer,
+  createRenderTarget,
+  drawQuad,
+  resizeRenderTarget,
+  type GL,
+  type ProgramInfo,
+  type RenderTarget,
+} from "./webgl";
+// 后期处理顶点着色器 - 覆盖整个渲染目标的四边形
+import postVertexShaderSource from "./postVertexShaderSource.glsl?raw";
+// 拖尾 - 上一帧按衰减系数变暗后叠加本帧
+import trailFragmentShaderSource from "./trailFragmentShaderSource.glsl?raw";
+// 泛光 - 提取亮部、高斯模糊、与粒子层合成
+import brightFragmentShaderSource from "./brightFragmentShaderSource.glsl?raw";
+import blurFragmentShaderSource from "./blurFragmentShaderSource.glsl?raw";
+import compositeFragmentShaderSource from "./compositeFragmentShaderSource.glsl?raw";
+
+/**
+ * 视觉效果参数（每帧由 main.ts 根据设置传给渲染器）
+ */
+export interface RenderEffects {
+  // 拖尾：本帧保留上一帧画面的比例（已按帧间隔换算）
+  trails: boolean;
+  trailDecay: number;
+
+  // 辉光：粒子叠加混合，重叠处变亮；强度是每个粒子的不透明度
+  glow: boolean;
+  glowIntensity: number;
+
+  // 泛光：亮度超过阈值的部分模糊后叠加，半径是模糊采样间隔（像素）
+  bloom: boolean;
+  bloomThreshold: number;
+  bloomIntensity: number;
+  bloomRadius: number;
+}
+
+export const DEFAULT_EFFECTS: RenderEffects = {
+  trails: false,
+  trailDecay: 0.9,
+  glow: false,
+  glowIntensity: 0.5,
+  bloom: false,
+  bloomThreshold: 0.5,
+  bloomIntensity: 1.5,
+  bloomRadius: 2,
+};
+
+/**
+ * 后期处理：拖尾和泛光
+ *
+ * 开启任一效果时，粒子先绘制到离屏的粒子层（透明背景，预乘 alpha），然后：
+ * 1. 拖尾：粒子层叠加到衰减后的上一帧上，两个缓冲区交替读写
+ * 2. 泛光：在半分辨率下提取亮部，水平和垂直各模糊一次
+ * 3. 合成：粒子层（或拖尾）加上泛光，盖在已经画好背景和障碍物的画布上
+ *
+ * 背景和障碍物不经过后期处理，所以不会拖尾，也不会发光
+ */
+export class PostEffects {
+  private gl: GL;
+
+  // 覆盖整个渲染目标的四边形
+  private quadBuffer: WebGLBuffer;
+
+  private trailProgram: ProgramInfo;
+  private brightProgram: ProgramInfo;
+  private blurProgram: ProgramInfo;
+  private compositeProgram: ProgramInfo;
+
+  // 本帧的粒子
+  private layer: RenderTarget;
+
+  // 拖尾累积结果：[0] 是上一帧，[1] 是本帧的输出，每帧交换
+  private trails: [RenderTarget, RenderTarget];
+
+  // 拖尾历史是否有效；关闭拖尾后再开启时先清空，不显示很久以前的画面
+  private trailsActive = false;
+
+  // 泛光：[0] 存放亮部和最终结果，[1] 存放水平模糊的中间结果（半分辨率）
+  private bloom: [RenderTarget, RenderTarget];
+
+  constructor(gl: GL) {
+    this.gl = gl;
+
+    this.quadBuffer = createQuadBuffer(gl);
+
+    const attributes = ["a_position"];
+    this.trailProgram = createProgram(
+      gl,
+      postVertexShaderSource,
+      trailFragmentShaderSource,
+      ["u_current", "u_previous", "u_decay"],
+      attributes
+    );
+    this.brightProgram = createProgram(
+      gl,
+      postVertexShaderSource,
+      brightFragmentShaderSource,
+      ["u_image", "u_threshold"],
+      attributes
+    );
+    this.blurProgram = createProgram(
+      gl,
+      postVertexShaderSource,
+      blurFragmentShaderSource,
+      ["u_image", "u_step"],
+      attributes
+    );
+    this.compositeProgram = createProgram(
+      gl,
+      postVertexShaderSource,
+      compositeFragmentShaderSource,
+      ["u_image", "u_bloom", "u_bloomIntensity"],
+      attributes
+    );
+
+    this.layer = createRenderTarget(gl);
+    this.trails = [createRenderTarget(gl), createRenderTarget(gl)];
+    this.bloom = [createRenderTarget(gl), createRenderTarget(gl)];
+  }
+
+  /**
+   * 开始绘制粒子层：之后的绘制都进入离屏纹理，直到调用 end
+   * 渲染目标的大小跟随画布的后备缓冲区
+   */
+  begin() {
+    const gl = this.gl;
+    const width = gl.drawingBufferWidth;
+    const height = gl.drawingBufferHeight;
+    resizeRenderTarget(gl, this.layer, width, height);
+    for (const target of this.trails) {
+      // 大小改变后历史被清空
+      resizeRenderTarget(gl, target, width, height);
+    }
+    const halfWidth = Math.max(1, Math.ceil(width / 2));
+    const halfHeight = Math.max(1, Math.ceil(height / 2));
+    for (const target of this.bloom) {
+      resizeRenderTarget(gl, target, halfWidth, halfHeight);
+    }
+
+    this.bindTarget(this.layer);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  }
+
+  /**
+   * 处理粒子层并合成到画布上
+   *
+   * 结束后绑定回画布，视口恢复为整个画布，混合恢复为普通的 alpha 混合
+   */
+  end(effects: RenderEffects) {
+    const gl = this.gl;
+
+    // 后期处理的每一步都完全覆盖输出，不需要混合
+    gl.disable(gl.BLEND);
+
+    // 步骤 1: 拖尾
+    let image = this.layer;
+    if (effects.trails) {
+      const [previous, next] = this.trails;
+      if (!this.trailsActive) {
+        this.bindTarget(previous);
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        this.trailsActive = true;
+      }
+      const { uniforms } = this.trailProgram;
+      this.bindTarget(next);
+      gl.useProgram(this.trailProgram.program);
+      this.bindTexture(0, this.layer, uniforms.u_current);
+      this.bindTexture(1, previous, uniforms.u_previous);
+      gl.uniform1f(uniforms.u_decay, effects.trailDecay);
+      drawQuad(gl, this.quadBuffer, this.trailProgram);
+      this.trails = [next, previous];
+      image = next;
+    } else {
+      this.trailsActive = false;
+    }
+
+    // 步骤 2: 泛光（提取亮部 -> 水平模糊 -> 垂直模糊）
+    const [bloom, scratch] = this.bloom;
+    if (effects.bloom) {
+      const bright = this.brightProgram;
+      this.bindTarget(bloom);
+      gl.useProgram(bright.program);
+      this.bindTexture(0, image, bright.uniforms.u_image);
+      gl.uniform1f(bright.uniforms.u_threshold, effects.bloomThreshold);
+      drawQuad(gl, this.quadBuffer, bright);
+
+      const blur = this.blurProgram;
+      gl.useProgram(blur.program);
+      const passes: [RenderTarget, RenderTarget, number, number][] = [
+        [bloom, scratch, effects.bloomRadius / bloom.width, 0],
+        [scratch, bloom, 0, effects.bloomRadius / bloom.height],
+      ];
+      for (const [source, target, stepX, stepY] of passes) {
+        this.bindTarget(target);
+        this.bindTexture(0, source, blur.uniforms.u_image);
+        gl.uniform2f(blur.uniforms.u_step, stepX, stepY);
+        drawQuad(gl, this.quadBuffer, blur);
+      }
+    }
+
+    // 步骤 3: 合成到画布
+    const composite = this.compositeProgram;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    gl.useProgram(composite.program);
+    this.bindTexture(0, image, composite.uniforms.u_image);
+    this.bindTexture(1, bloom, composite.uniforms.u_bloom);
+    gl.uniform1f(
+      composite.uniforms.u_bloomIntensity,
+      effects.bloom ? effects.bloomIntensity : 0
+    );
+
+    // 颜色是预乘 alpha 的；辉光直接叠加在背景上，背景不会被粒子挡暗
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, effects.glow ? gl.ONE : gl.ONE_MINUS_SRC_ALPHA);
+    drawQuad(gl, this.quadBuffer, composite);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+
+    gl.activeTexture(gl.TEXTURE0);
+  }
+
+  // 绑定渲染目标，视口覆盖整个目标
+  private bindTarget(target: RenderTarget) {
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.viewport(0, 0, target.width, target.height);
+  }
+
+  // 把渲染目标的纹理绑定到纹理单元 unit，并设置对应的 sampler
+  private bindTexture(
+    unit: number,
+    target: RenderTarget,
+    location: WebGLUniformLocation | null
+  ) {
+    const gl = this.gl;
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, target.texture);
+    gl.uniform1i(location, unit);
+  }
+}
@@ -0,0 +1,193 @@
+import type { InputEvent, InputLog } from "./InputRecorder";
+import type { Simulation } from "./Simulation";
+
+/**
+ * 输入回放
+ *
+ * 按固定步长把输入日志中的事件重新送入模拟器：第 k 个物理步执行之前，
+ * 应用日志中 step 为 k 的所有事件。初始状态由日志中的 reset 事件（包含种子）决定，
+ * 所以回放结果与录制时逐位相同
+ *
+ * 跳转到之前的步时从头重新执行，跳转到之后的步时直接向前执行
+ */
+export class Replay {
+  readonly log: InputLog;
+
+  // 暂停时 advance 不推进
+  public paused = false;
+
+  private simulation: Simulation;
+
+  // 下一个待应用的事件下标
+  private nextEvent = 0;
+
+  // 回放开始时模拟器的步数，当前回放位置 = simulation.stepCount - base
+  private base = 0;
+
+  // 回放中的世界大小（来自 reset / resize 事件）
+  private width = 0;
+  private height = 0;
+
+  constructor(simulation: Simulation, log: InputLog) {
+    this.simulation = simulation;
+    this.log = log;
+    simulation.fixedStep = log.fixedStep;
+    simulation.onBeforeStep = () => {
+      this.applyEvents();
+      return { width: this.width, height: this.height };
+    };
+    this.seek(0);
+  }
+
+  /**
+   * 当前回放位置（已执行的物理步数）
+   */
+  get position() {
+    return this.simulation.stepCount - this.base;
+  }
+
+  /**
+   * 回放中的世界大小（来自 reset / resize 事件）
+   */
+  get worldWidth() {
+    return this.width;
+  }
+
+  get worldHeight() {
+    return this.height;
+  }
+
+  /**
+   * 日志中的物理步总数
+   */
+  get length() {
+    return this.log.steps;
+  }
+
+  get finished() {
+    return this.position >= this.length;
+  }
+
+  /**
+   * 按实际时间推进回放（暂停或结束时不推进）
+   */
+  advance(frameTime: number) {
+    if (this.paused || this.finished) return;
+    this.simulation.advance(
+      frameTime,
+      this.width,
+      this.height,
+      this.length - this.position
+    );
+  }
+
+  /**
+   * 向前执行一步
+   */
+  stepForward() {
+    if (this.finished) return;
+    this.simulation.stepOnce(this.width, this.height);
+  }
+
+  /**
+   * 跳转到指定的步
+   */
+  seek(step: number) {
+    const target = Math.max(0, Math.min(Math.round(step), this.length));
+    if (target < this.position || this.nextEvent === 0) {
+      this.nextEvent = 0;
+      this.base = this.simulation.stepCount;
+      this.applyEvents();
+    }
+    while (this.position < target) {
+      this.simulation.stepOnce(this.width, this.height);
+    }
+  }
+
+  /**
+   * 结束回放，断开与模拟器的连接
+   */
+  dispose() {
+    this.simulation.onBeforeStep = undefined;
+  }
+
+  // 应用当前位置之前（含）的所有未应用事件
+  private applyEvents() {
+    const events = this.log.events;
+    const position = this.position;
+    while (
+      this.nextEvent < events.length &&
+      events[this.nextEvent].step <= position
+    ) {
+      this.apply(events[this.nextEvent]);
+      this.nextEvent++;
+    }
+  }
+
+  private apply(event: InputEvent) {
+    const simulation = this.simulation;
+    switch (event.type) {
+      case "reset":
+        this.width = event.width;
+        this.height = event.height;
+        simulation.reset(event);
+        break;
+      case "gravity":
+        simulation.gravityX = event.x;
+        simulation.gravityY = event.y;
+        break;
+      case "damping":
+        simulation.damping = event.value;
+        break;
+      case "substeps":
+        simulation.substeps = event.value;
+        break;
+      case "pointers":
+        simulation.pointers = event.pointers;
+        break;
+      case "count":
+        simulation.setParticleCount(event.count, event.width, event.height);
+        break;
+      case "resize":
+        this.width = event.width;
+        this.height = event.height;
+        break;
+      case "resizeWorld":
+        this.width = event.width;
+        this.height = event.height;
+        simulation.resizeWorld(
+          event.mode,
+          event.fromWidth,
+          event.fromHeight,
+          event.width,
+          event.height
+        );
+        break;
+      case "boundary":
+        simulation.setBoundary(
+          event.edge,
+          event.mode,
+          event.restitution,
+          event.friction
+        );
+        break;
+      case "obstacles":
+        simulation.setObstacleScene(event.scene, event.width, event.height);
+        break;
+      case "flow":
+        simulation.setFlowScene(
+          event.scene,
+          event.params,
+          event.width,
+          event.height
+        );
+        break;
+      case "pairForce":
+        simulation.setPairForce(event.params);
+        break;
+      case "collision":
+        simulation.setCollisionMaterial(event.material);
+        break;
+    }
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * 录制与回放工具条
+ *
+ * 只负责界面：按钮和进度条的状态由 update 设置，操作通过回调交给 main.ts
+ */
+export interface ReplayBarState {
+  recording: boolean;
+  // 录制中为已录制的步数，回放中为当前位置
+  position: number;
+  // 回放的总步数，null 表示不在回放
+  length: number | null;
+  paused: boolean;
+  // 是否有可以回放或保存的日志
+  hasLog: boolean;
+}
+
+export class ReplayBar {
+  private bar: HTMLDivElement;
+  private recordButton: HTMLButtonElement;
+  private playButton: HTMLButtonElement;
+  private pauseButton: HTMLButtonElement;
+  private stepButton: HTMLButtonElement;
+  private saveButton: HTMLButtonElement;
+  private exitButton: HTMLButtonElement;
+  private scrubber: HTMLInputElement;
+  private positionText: HTMLSpanElement;
+
+  // 正在拖动进度条
+  private scrubbing = false;
+
+  // 回调函数
+  public onRecordToggle?: () => void;
+  public onPlay?: () => void;
+  public onPauseToggle?: () => void;
+  public onStep?: () => void;
+  public onSeek?: (step: number) => void;
+  public onSave?: () => void;
+  public onLoad?: (file: File) => void;
+  public onExit?: () => void;
+
+  constructor() {
+    this.bar = document.createElement("div");
+    this.bar.style.cssText = `
+      position: absolute;
+      bottom: 10px;
+      left: 50%;
+      transform: translateX(-50%);
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      background: rgba(0, 0, 0, 0.8);
+      color: white;
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      font-size: 12px;
+      padding: 8px 12px;
+      border-radius: 8px;
+      user-select: none;
+      backdrop-filter: blur(10px);
+    `;
+
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = ".json";
+    fileInput.style.display = "none";
+    fileInput.onchange = () => {
+      const file = fileInput.files?.[0];
+      if (file) this.onLoad?.(file);
+      fileInput.value = "";
+    };
+
+    this.recordButton = this.createButton("⏺ 录制", () =>
+      this.onRecordToggle?.()
+    );
+    this.playButton = this.createButton("▶ 回放", () => this.onPlay?.());
+    this.pauseButton = this.createButton("⏸", () => this.onPauseToggle?.());
+    this.stepButton = this.createButton("⏭", () => this.onStep?.());
+
+    // 进度条：拖动时跳转到对应的步
+    this.scrubber = document.createElement("input");
+    this.scrubber.type = "range";
+    this.scrubber.min = "0";
+    this.scrubber.step = "1";
+    this.scrubber.style.width = "240px";
+    this.scrubber.oninput = () =>
+      this.onSeek?.(parseInt(this.scrubber.value, 10));
+    this.scrubber.onpointerdown = () => (this.scrubbing = true);
+    this.scrubber.onpointerup = () => (this.scrubbing = false);
+
+    this.positionText = document.createElement("span");
+    this.positionText.style.cssText = `
+      min-width: 110px;
+      font-family: monospace;
+      text-align: right;
+    `;
+
+    this.saveButton = this.createButton("💾", () => this.onSave?.());
+    this.saveButton.title = "保存输入日志";
+    const loadButton = this.createButton("📂", () => fileInput.click());
+    loadButton.title = "载入输入日志";
+    this.exitButton = this.createButton("✖", () => this.onExit?.());
+    this.exitButton.title = "退出回放";
+
+    this.bar.append(
+      this.recordButton,
+      this.playButton,
+      this.pauseButton,
+      this.stepButton,
+      this.scrubber,
+      this.positionText,
+      this.saveButton,
+      loadButton,
+      this.exitButton,
+      fileInput
+    );
+    document.body.appendChild(this.bar);
+  }
+
+  /**
+   * 按当前状态更新按钮和进度条（每帧调用）
+   */
+  update(state: ReplayBarState) {
+    const replaying = state.length !== null;
+
+    this.recordButton.textContent = state.recording ? "⏹ 停止" : "⏺ 录制";
+    this.recordButton.disabled = replaying;
+    this.playButton.disabled = state.recording || !state.hasLog;
+    this.saveButton.disabled = state.recording || !state.hasLog;
+
+    this.pauseButton.textContent = state.paused ? "▶" : "⏸";
+    this.pauseButton.disabled = !replaying;
+    this.stepButton.disabled = !replaying;
+    this.exitButton.disabled = !replaying;
+    this.scrubber.disabled = !replaying;
+
+    if (replaying) {
+      this.scrubber.max = String(state.length);
+      // 拖动中不覆盖用户正在操作的值
+      if (!this.scrubbing) {
+        this.scrubber.value = String(state.position);
+      }
+      this.positionText.textContent = `${state.position} / ${state.length}`;
+    } else {
+      this.scrubber.value = "0";
+      this.positionText.textContent = state.recording
+        ? `● ${state.position}`
+        : "";
+    }
+  }
+
+  /**
+   * 隐藏/显示工具条
+   */
+  toggle() {
+    this.bar.style.display =
+      this.bar.style.display === "none" ? "flex" : "none";
+  }
+
+  private createButton(label: string, onClick: () => void) {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.style.cssText = `
+      padding: 4px 8px;
+      background: rgba(100, 150, 255, 0.25);
+      color: white;
+      border: 1px solid rgba(100, 150, 255, 0.4);
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 12px;
+    `;
+    button.onclick = onClick;
+    return button;
+  }
+}
@@ -0,0 +1,687 @@
+import type asModule from "../build/release.d";
+import { readParticleLayout, type ParticleLayout } from "./ParticleLayout";
+import { InputRecorder, type InputLog } from "./InputRecorder";
+import { buildObstacleScene, type ObstacleScene } from "./obstacles";
+import { buildFlowScene, type EmitterParams, type FlowScene } from "./emitters";
+import { applyPairForce, type PairForceParams } from "./forces";
+import {
+  applyCollisionMaterial,
+  DEFAULT_COLLISION_MATERIAL,
+  type CollisionMaterial,
+} from "./collision";
+
+type WasmExports = typeof asModule;
+
+/**
+ * 交互工具
+ * - attract / repel: 吸引或排斥范围内的粒子
+ * - vortex: 让范围内的粒子绕指针旋转
+ * - spawn: 在范围内生成粒子
+ * - erase: 删除范围内的粒子
+ * - drag: 抓住离指针最近的粒子并拖动
+ */
+export type Tool = "attract" | "repel" | "vortex" | "spawn" | "erase" | "drag";
+
+/**
+ * 一个按下的指针（鼠标或一根手指）及其使用的工具
+ */
+export interface PointerInput {
+  // 指针 id，拖动时用来对应被抓住的粒子
+  id: number;
+  tool: Tool;
+  x: number;
+  y: number;
+  // 作用范围（像素）
+  radius: number;
+  // 力场中心处的加速度（像素/秒²），只对 attract / repel / vortex 有效
+  strength: number;
+}
+
+// spawn 工具每个物理步生成的粒子数
+const SPAWN_PER_STEP = 1;
+
+/**
+ * 画布的四条边
+ */
+export type Edge = "left" | "right" | "top" | "bottom";
+
+/**
+ * 边界模式
+ * - wall: 反弹墙壁
+ * - wrap: 周期环绕（左右、上下成对生效）
+ * - remove: 开放边界，离开的粒子被删除
+ * - recycle: 开放边界，离开的粒子从对边重新进入
+ */
+export type BoundaryMode = "wall" | "wrap" | "remove" | "recycle";
+
+/**
+ * 世界大小改变时如何调整现有粒子
+ * - rescale: 位置按新旧大小的比例缩放，粒子保持相对位置
+ * - clip: 位置不变，中心落在新世界之外的粒子被删除
+ */
+export type ResizeMode = "rescale" | "clip";
+
+/**
+ * 重新初始化粒子的参数
+ *
+ * 相同的参数（包括种子）总是得到相同的初始状态
+ */
+export interface ResetOptions {
+  seed: number;
+  count: number;
+  minRadius: number;
+  maxRadius: number;
+  width: number;
+  height: number;
+}
+
+// 检查器统计碰撞次数的窗口（物理步）
+export const RECENT_STEPS = 60;
+
+/**
+ * 检查器显示的粒子属性（物理步结束时的状态，不做插值）
+ */
+export interface ParticleInfo {
+  index: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  radius: number;
+  mass: number;
+  species: number;
+  // 最近 RECENT_STEPS 个物理步中参与的碰撞次数
+  collisions: number;
+}
+
+/**
+ * 固定步长模拟器
+ *
+ * 职责：把浏览器不稳定的帧间隔转换为固定的物理步长
+ * - 累加器：把每帧的实际时间累积起来，每满一个 fixedStep 就推进一次物理
+ * - 子步：每个物理步再细分为 substeps 次更新，减少高速粒子的穿透
+ * - 最大帧时间：标签页卡顿或切回前台时，丢弃超出的时间，避免一次推进过多
+ * - 插值：渲染时在上一步和当前步之间按剩余时间插值，保证画面平滑
+ */
+export class Simulation {
+  private wasm: WasmExports;
+
+  // 粒子内存布局（来自 WebAssembly 模块）
+  readonly layout: ParticleLayout;
+
+  // 固定物理步长（秒）
+  public fixedStep = 1 / 60;
+
+  // 每个物理步的子步数量
+  public substeps = 2;
+
+  // 单帧最多处理的时间（秒），超出部分直接丢弃
+  public maxFrameTime = 0.25;
+
+  // 重力加速度（像素/秒²）
+  public gravityX = 0;
+  public gravityY = 0;
+
+  // 阻尼系数（每 1/60 秒保留的速度比例）
+  public damping = 0.999;
+
+  // 当前按下的指针
+  public pointers: PointerInput[] = [];
+
+  // 每个物理步开始前调用（回放用它按步注入输入事件）
+  // 返回世界大小时，这一步改用返回的大小（回放中的 resize 事件在注入的这一步就生效）
+  public onBeforeStep?: () => { width: number; height: number } | void;
+
+  // 输入录制器，null 表示没有在录制
+  private recorder: InputRecorder | null = null;
+
+  // 拖动工具：指针 id -> 物理核心中的拖动句柄
+  private grabs = new Map<number, number>();
+
+  // 检查器选中的粒子最近每个物理步参与的碰撞次数（按步数循环写入）
+  // 选择由物理核心跟踪，不影响物理，所以不会被录制
+  private recentCollisions = new Int32Array(RECENT_STEPS);
+
+  // 当前的边界条件、障碍物场景、粒子流场景和粒子间作用力（开始录制时写入日志）
+  private boundaries = new Map<
+    Edge,
+    { mode: BoundaryMode; restitution: number; friction: number }
+  >();
+  private obstacles: { scene: ObstacleScene; width: number; height: number } = {
+    scene: "none",
+    width: 0,
+    height: 0,
+  };
+  private flow: {
+    scene: FlowScene;
+    params: EmitterParams;
+    width: number;
+    height: number;
+  } = {
+    scene: "none",
+    params: {
+      rate: 0,
+      speed: 0,
+      spread: 0,
+      lifetime: 0,
+      minRadius: 3,
+      maxRadius: 8,
+    },
+    width: 0,
+    height: 0,
+  };
+  private pairForce: PairForceParams = {
+    mode: "none",
+    strength: 0,
+    range: 40,
+    theta: 0.7,
+    species: 1,
+    matrix: [],
+  };
+  private collision: CollisionMaterial = DEFAULT_COLLISION_MATERIAL;
+
+  // 已执行的物理步总数（只增不减）
+  private steps = 0;
+
+  // 尚未消耗的时间（秒）
+  private accumulator = 0;
+
+  // 上一个物理步结束时的粒子数量（开放边界会删除粒子）
+  private previousCount = 0;
+
+  // 世界尺寸，用于识别环绕边界造成的跳变
+  private width = 0;
+  private height = 0;
+
+  // 上一个物理步结束时的粒子数据，用于插值
+  private previous = new Float32Array(0);
+
+  // 插值后的粒子数据，交给渲染器使用
+  private interpolated = new Float32Array(0);
+
+  constructor(wasm: WasmExports) {
+    this.wasm = wasm;
+    this.layout = readParticleLayout(wasm);
+  }
+
+  /**
+   * 重新初始化粒子，并清空累加器和插值状态
+   */
+  reset(options: ResetOptions) {
+    const wasm = this.wasm;
+    const { seed, count, minRadius, maxRadius, width, height } = options;
+    this.recorder?.record({ type: "reset", ...options });
+
+    wasm.setSeed(seed);
+    wasm.setRadiusRange(minRadius, maxRadius);
+    wasm.initParticles(count, width, height, this.damping);
+    this.restart(width, height);
+  }
+
+  /**
+   * 用给定的粒子数据（当前布局）替换所有粒子，例如从快照导入
+   */
+  load(particles: Float32Array, width: number, height: number) {
+    const wasm = this.wasm;
+    const count = particles.length / this.layout.stride;
+
+    // 先写入 WebAssembly 内存中的暂存缓冲区，再由 loadParticles 复制到粒子数组
+    const ptr = wasm.allocParticleBuffer(count);
+    new Float32Array(wasm.memory.buffer, ptr, particles.length).set(particles);
+    wasm.loadParticles(ptr, count);
+    this.restart(width, height);
+  }
+
+  /**
+   * 在不重新初始化的情况下调整粒子数量
+   *
+   * 增加时在整个世界内随机追加粒子（使用同一个随机数序列，可以回放），
+   * 减少时删除最后加入的粒子，其余粒子保持原来的状态
+   */
+  setParticleCount(count: number, width: number, height: number) {
+    const wasm = this.wasm;
+    this.recorder?.record({ type: "count", count, width, height });
+
+    const current = this.count;
+    if (count > current) {
+      wasm.addRandomParticles(count - current, width, height);
+    } else if (count < current) {
+      wasm.removeLastParticles(current - count);
+    }
+  }
+
+  /**
+   * 世界大小从 from 改为 to 时调整现有粒子
+   *
+   * 世界大小本身由每次 advance / stepOnce 的参数决定，这里只移动或删除粒子。
+   * 调整后的状态作为插值的起点，不会从旧位置插值过来
+   */
+  resizeWorld(
+    mode: ResizeMode,
+    fromWidth: number,
+    fromHeight: number,
+    width: number,
+    height: number
+  ) {
+    const wasm = this.wasm;
+    this.recorder?.record({
+      type: "resizeWorld",
+      mode,
+      fromWidth,
+      fromHeight,
+      width,
+      height,
+    });
+
+    if (mode === "rescale") {
+      wasm.scaleParticlePositions(width / fromWidth, height / fromHeight);
+    } else {
+      wasm.removeParticlesOutside(width, height);
+    }
+    this.width = width;
+    this.height = height;
+    this.savePrevious();
+  }
+
+  /**
+   * 复制当前的粒子数据（不会随模拟继续而改变）
+   */
+  copyParticles(): Float32Array {
+    return this.current().slice();
+  }
+
+  // 粒子被整体替换后，清空累加器和插值状态
+  // 粒子被替换时物理核心已经松开了所有拖动句柄
+  private restart(width: number, height: number) {
+    this.accumulator = 0;
+    this.width = width;
+    this.height = height;
+    this.grabs.clear();
+    this.recentCollisions.fill(0);
+    this.savePrevious();
+  }
+
+  // 保存当前状态，作为插值的起点
+  private savePrevious() {
+    const current = this.current();
+    this.reserve(current.length);
+    this.previous.set(current);
+    this.previousCount = this.count;
+  }
+
+  // 粒子数量增加（例如生成粒子）时扩大插值用的缓冲区
+  private reserve(floats: number) {
+    if (this.previous.length >= floats) return;
+    const size = Math.max(floats, this.previous.length * 2);
+    const previous = new Float32Array(size);
+    previous.set(this.previous);
+    this.previous = previous;
+    this.interpolated = new Float32Array(size);
+  }
+
+  /**
+   * 推进模拟
+   * @param frameTime 距离上一帧的实际时间（秒）
+   * @returns 本帧执行的物理步数
+   */
+  advance(
+    frameTime: number,
+    width: number,
+    height: number,
+    maxSteps = Infinity
+  ): number {
+    this.accumulator += Math.min(frameTime, this.maxFrameTime);
+    this.width = width;
+    this.height = height;
+
+    let steps = 0;
+    while (this.accumulator >= this.fixedStep && steps < maxSteps) {
+      // 只需要保存最后一步之前的状态
+      if (this.accumulator < this.fixedStep * 2) {
+        this.savePrevious();
+      }
+      this.step(width, height);
+      this.accumulator -= this.fixedStep;
+      steps++;
+    }
+    return steps;
+  }
+
+  /**
+   * 立即执行一个物理步，不经过累加器（单步调试、回放跳转）
+   *
+   * 渲染时直接显示这一步的结果，不做插值
+   */
+  stepOnce(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.step(width, height);
+    this.savePrevious();
+  }
+
+  /**
+   * 执行一个固定物理步（包含所有子步）
+   */
+  step(width: number, height: number) {
+    const wasm = this.wasm;
+    const world = this.onBeforeStep?.();
+    if (world) {
+      ({ width, height } = world);
+      this.width = width;
+      this.height = height;
+    }
+
+    const dt = this.fixedStep / this.substeps;
+    this.recordInputs(width, height);
+    wasm.setDamping(this.damping);
+
+    this.applyTools();
+
+    const collisions = wasm.getSelectedCollisions();
+    for (let i = 0; i < this.substeps; i++) {
+      wasm.applyGravity(this.gravityX, this.gravityY, dt);
+      this.applyForces(dt);
+      wasm.updateParticles(dt, width, height);
+    }
+    this.recentCollisions[this.steps % RECENT_STEPS] =
+      wasm.getSelectedCollisions() - collisions;
+
+    this.steps++;
+    this.recorder?.advance();
+  }
+
+  // 每个物理步执行一次的工具：生成、删除、抓住和松开粒子
+  private applyTools() {
+    const wasm = this.wasm;
+    const dragging = new Set<number>();
+
+    for (const pointer of this.pointers) {
+      const { id, x, y, radius } = pointer;
+      switch (pointer.tool) {
+        case "spawn":
+          wasm.spawnParticles(x, y, radius, SPAWN_PER_STEP);
+          break;
+        case "erase":
+          wasm.removeParticlesInCircle(x, y, radius);
+          break;
+        case "drag":
+          if (!this.grabs.has(id)) {
+            this.grabs.set(id, wasm.grabParticle(x, y, radius));
+          }
+          dragging.add(id);
+          break;
+      }
+    }
+
+    // 松开已经抬起或换了工具的指针
+    for (const [id, handle] of this.grabs) {
+      if (!dragging.has(id)) {
+        wasm.releaseParticle(handle);
+        this.grabs.delete(id);
+      }
+    }
+  }
+
+  // 每个子步作用的工具：力场和拖动
+  private applyForces(dt: number) {
+    const wasm = this.wasm;
+    for (const pointer of this.pointers) {
+      const { x, y, radius, strength } = pointer;
+      switch (pointer.tool) {
+        case "attract":
+          wasm.applyForce(x, y, radius, -strength, dt);
+          break;
+        case "repel":
+          wasm.applyForce(x, y, radius, strength, dt);
+          break;
+        case "vortex":
+          wasm.applyVortex(x, y, radius, strength, dt);
+          break;
+        case "drag":
+          wasm.dragParticle(this.grabs.get(pointer.id) ?? -1, x, y, dt);
+          break;
+      }
+    }
+  }
+
+  /**
+   * 已执行的物理步总数
+   */
+  get stepCount() {
+    return this.steps;
+  }
+
+  /**
+   * 开始录制输入
+   *
+   * 当前的边界条件和障碍物场景会作为日志开头的事件写入；
+   * 日志还需要一个 reset 事件作为初始状态，所以开始录制后应立即调用 reset
+   */
+  startRecording() {
+    const recorder = new InputRecorder(this.fixedStep);
+    for (const [edge, boundary] of this.boundaries) {
+      recorder.record({ type: "boundary", edge, ...boundary });
+    }
+    recorder.record({ type: "obstacles", ...this.obstacles });
+    recorder.record({ type: "flow", ...this.flow });
+    recorder.record({ type: "pairForce", params: this.pairForce });
+    recorder.record({ type: "collision", material: this.collision });
+    this.recorder = recorder;
+  }
+
+  /**
+   * 停止录制并返回输入日志
+   */
+  stopRecording(): InputLog | null {
+    const log = this.recorder?.toLog() ?? null;
+    this.recorder = null;
+    return log;
+  }
+
+  get recording() {
+    return this.recorder !== null;
+  }
+
+  /**
+   * 已录制的物理步数
+   */
+  get recordedSteps() {
+    return this.recorder?.stepCount ?? 0;
+  }
+
+  // 记录每步都会读取的输入（有变化时才写入日志）
+  private recordInputs(width: number, height: number) {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    recorder.record({ type: "gravity", x: this.gravityX, y: this.gravityY });
+    recorder.record({ type: "damping", value: this.damping });
+    recorder.record({ type: "substeps", value: this.substeps });
+    recorder.record({
+      type: "pointers",
+      pointers: this.pointers.map(pointer => ({ ...pointer })),
+    });
+    recorder.record({ type: "resize", width, height });
+  }
+
+  /**
+   * 插值系数：0 表示上一步的状态，1 表示当前状态
+   */
+  get alpha() {
+    return Math.max(0, Math.min(this.accumulator / this.fixedStep, 1));
+  }
+
+  get count() {
+    return this.wasm.getParticleCount();
+  }
+
+  /**
+   * 选中 (x, y) 处的粒子（物理核心用空间网格查找），没有粒子时取消选择
+   */
+  select(x: number, y: number) {
+    const wasm = this.wasm;
+    wasm.selectParticle(wasm.pickParticle(x, y, this.width, this.height));
+    this.recentCollisions.fill(0);
+  }
+
+  /**
+   * 选中粒子的当前下标（粒子被删除后会变化），没有选中或粒子已被删除时为 -1
+   */
+  get selected() {
+    return this.wasm.getSelectedParticle();
+  }
+
+  /**
+   * 选中粒子的当前属性，没有选中时返回 null
+   */
+  inspect(): ParticleInfo | null {
+    const index = this.selected;
+    if (index < 0) return null;
+    const particles = this.current();
+    const { stride, offsets } = this.layout;
+    const base = index * stride;
+    return {
+      index,
+      x: particles[base + offsets.x],
+      y: particles[base + offsets.y],
+      vx: particles[base + offsets.vx],
+      vy: particles[base + offsets.vy],
+      radius: particles[base + offsets.radius],
+      mass: particles[base + offsets.mass],
+      species: particles[base + offsets.species],
+      collisions: this.recentCollisions.reduce((sum, n) => sum + n, 0),
+    };
+  }
+
+  /**
+   * 设置某条边的边界条件
+   * @param restitution 墙壁反弹后法向速度保留的比例 [0, 1]
+   * @param friction 每次碰撞墙壁时切向速度损失的比例 [0, 1]
+   */
+  setBoundary(edge: Edge, mode: BoundaryMode, restitution = 0.8, friction = 0) {
+    const wasm = this.wasm;
+    const edges: Record<Edge, number> = {
+      left: wasm.EDGE_LEFT.value,
+      right: wasm.EDGE_RIGHT.value,
+      top: wasm.EDGE_TOP.value,
+      bottom: wasm.EDGE_BOTTOM.value,
+    };
+    const modes: Record<BoundaryMode, number> = {
+      wall: wasm.BOUNDARY_WALL.value,
+      wrap: wasm.BOUNDARY_WRAP.value,
+      remove: wasm.BOUNDARY_REMOVE.value,
+      recycle: wasm.BOUNDARY_RECYCLE.value,
+    };
+    wasm.setBoundary(edges[edge], modes[mode], restitution, friction);
+
+    // 环绕成对生效，对边的状态由物理核心决定
+    this.boundaries.set(edge, { mode, restitution, friction });
+    this.recorder?.record({
+      type: "boundary",
+      edge,
+      mode,
+      restitution,
+      friction,
+    });
+  }
+
+  /**
+   * 清除现有障碍物并按世界大小搭建预设场景
+   */
+  setObstacleScene(scene: ObstacleScene, width: number, height: number) {
+    this.obstacles = { scene, width, height };
+    this.recorder?.record({ type: "obstacles", scene, width, height });
+    this.buildScene();
+  }
+
+  /**
+   * 清除现有发射器和汇并按世界大小搭建粒子流场景
+   */
+  setFlowScene(
+    scene: FlowScene,
+    params: EmitterParams,
+    width: number,
+    height: number
+  ) {
+    this.flow = { scene, params: { ...params }, width, height };
+    this.recorder?.record({ type: "flow", ...this.flow });
+    this.buildScene();
+  }
+
+  /**
+   * 设置粒子间作用力
+   *
+   * 种类数改变时现有粒子会重新分配种类
+   */
+  setPairForce(params: PairForceParams) {
+    this.pairForce = { ...params, matrix: params.matrix.slice() };
+    this.recorder?.record({ type: "pairForce", params: this.pairForce });
+    applyPairForce(this.wasm, this.pairForce);
+  }
+
+  /**
+   * 设置粒子之间的碰撞材质（恢复系数、摩擦和旋转）
+   */
+  setCollisionMaterial(material: CollisionMaterial) {
+    this.collision = {
+      ...material,
+      species: material.species.map(entry => ({ ...entry })),
+    };
+    this.recorder?.record({ type: "collision", material: this.collision });
+    applyCollisionMaterial(this.wasm, this.collision);
+  }
+
+  // 粒子流场景会添加自己的障碍物（例如管道壁），所以任何一个场景改变时都整体重建
+  private buildScene() {
+    const { obstacles, flow } = this;
+    buildObstacleScene(
+      this.wasm,
+      obstacles.scene,
+      obstacles.width,
+      obstacles.height
+    );
+    buildFlowScene(this.wasm, flow.scene, flow.params, flow.width, flow.height);
+  }
+
+  /**
+   * 获取用于渲染的粒子数据（位置已插值）
+   */
+  getRenderParticles(): Float32Array {
+    const current = this.current();
+    this.reserve(current.length);
+    const previous = this.previous;
+    const out = this.interpolated.subarray(0, current.length);
+    const t = 1 - this.alpha;
+    const { stride, offsets } = this.layout;
+
+    out.set(current);
+
+    // 粒子被删除后下标会重排，上一步的数据无法对应，直接使用当前状态
+    if (this.previousCount !== this.count) return out;
+
+    const halfWidth = this.width / 2;
+    const halfHeight = this.height / 2;
+    for (let base = 0; base < out.length; base += stride) {
+      const ix = base + offsets.x;
+      const iy = base + offsets.y;
+      const dx = previous[ix] - current[ix];
+      const dy = previous[iy] - current[iy];
+      // 穿过环绕边界或被回收的粒子不做插值，避免横穿整个画面
+      if (Math.abs(dx) < halfWidth) out[ix] += dx * t;
+      if (Math.abs(dy) < halfHeight) out[iy] += dy * t;
+    }
+    return out;
+  }
+
+  /**
+   * WebAssembly 内存中粒子数据的视图
+   *
+   * 每次重新创建，因为内存增长后旧的 buffer 会失效
+   */
+  private current(): Float32Array {
+    return new Float32Array(
+      this.wasm.memory.buffer,
+      this.wasm.getParticlesPtr(),
+      this.count * this.layout.stride
+    );
+  }
+}
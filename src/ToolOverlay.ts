@@ -0,0 +1,79 @@
+import type { Tool } from "./Simulation";
+
+// 交互工具的名称和范围圆圈的颜色
+export const TOOLS: Record<Tool, { label: string; color: string }> = {
+  repel: { label: "💨 排斥", color: "rgb(100, 150, 255)" },
+  attract: { label: "🧲 吸引", color: "rgb(255, 170, 80)" },
+  vortex: { label: "🌀 漩涡", color: "rgb(170, 120, 255)" },
+  spawn: { label: "✨ 生成", color: "rgb(120, 230, 140)" },
+  erase: { label: "🧽 擦除", color: "rgb(255, 100, 100)" },
+  drag: { label: "✋ 拖动", color: "rgb(255, 255, 255)" },
+};
+
+/**
+ * 一个工具范围圆圈
+ */
+export interface ToolCircle {
+  tool: Tool;
+  x: number;
+  y: number;
+  radius: number;
+  // 按下时为实线，只是悬停时为虚线
+  active: boolean;
+}
+
+/**
+ * 工具范围覆盖层
+ *
+ * 用 DOM 元素在每个指针位置画出工具的作用范围，不参与 WebGL 渲染
+ */
+export class ToolOverlay {
+  private container: HTMLDivElement;
+
+  // 复用的圆圈元素，数量随同时出现的指针数增长
+  private circles: HTMLDivElement[] = [];
+
+  constructor() {
+    this.container = document.createElement("div");
+    this.container.style.cssText = `
+      position: absolute;
+      inset: 0;
+      overflow: hidden;
+      pointer-events: none;
+    `;
+    document.body.appendChild(this.container);
+  }
+
+  /**
+   * 更新圆圈（每帧调用）
+   */
+  update(circles: ToolCircle[]) {
+    while (this.circles.length < circles.length) {
+      const element = document.createElement("div");
+      element.style.cssText = `
+        position: absolute;
+        border-radius: 50%;
+        box-sizing: border-box;
+      `;
+      this.container.appendChild(element);
+      this.circles.push(element);
+    }
+
+    this.circles.forEach((element, i) => {
+      const circle = circles[i];
+      if (!circle) {
+        element.style.display = "none";
+        return;
+      }
+      const { color } = TOOLS[circle.tool];
+      const size = circle.radius * 2;
+      element.style.display = "block";
+      element.style.left = `${circle.x - circle.radius}px`;
+      element.style.top = `${circle.y - circle.radius}px`;
+      element.style.width = `${size}px`;
+      element.style.height = `${size}px`;
+      element.style.border = `2px ${circle.active ? "solid" : "dashed"} ${color}`;
+      element.style.opacity = circle.active ? "0.8" : "0.4";
+    });
+  }
+}
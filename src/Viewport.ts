@@ -0,0 +1,275 @@
+import { Camera } from "./Camera";
+import type { ResizeMode } from "./Simulation";
+
+/**
+ * 世界大小
+ * - window: 跟随窗口大小（1 个世界单位 = 1 个 CSS 像素）
+ * - 其他: 固定的世界大小，按比例缩放后居中显示在窗口中
+ */
+export type WorldSize =
+  "window" | "1280x720" | "1920x1080" | "2560x1440" | "1000x1000";
+
+export const WORLD_SIZES: Record<WorldSize, string> = {
+  window: "跟随窗口",
+  "1280x720": "1280 × 720",
+  "1920x1080": "1920 × 1080",
+  "2560x1440": "2560 × 1440",
+  "1000x1000": "1000 × 1000",
+};
+
+/**
+ * 世界大小改变时的处理方式
+ * - rescale / clip: 世界大小跟随窗口时随窗口改变；现有粒子按比例缩放或被裁剪（见 ResizeMode）
+ * - fixed: 窗口大小改变时世界大小保持不变，按比例缩放后显示在新窗口中；
+ *   切换世界大小设置时与 clip 相同
+ */
+export type ResizePolicy = ResizeMode | "fixed";
+
+export const RESIZE_POLICIES: Record<ResizePolicy, string> = {
+  rescale: "按比例缩放",
+  clip: "裁剪",
+  fixed: "固定世界",
+};
+
+/**
+ * 画布后备缓冲区中的矩形（设备像素，原点在左下角，与 gl.viewport 一致）
+ */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 视口：世界坐标、CSS 像素和画布像素之间的映射
+ *
+ * - 世界坐标是物理核心使用的坐标，与画布像素无关
+ * - 画布的后备缓冲区按 devicePixelRatio 放大，高分屏上渲染清晰；
+ *   窗口大小和设备像素比（例如拖到另一块屏幕上）改变时自动调整
+ * - 相机缩放为 1 时世界按比例缩放后居中显示，宽高比与窗口不同时两侧留出空白；
+ *   放大后世界可以比窗口大，只显示相机中心附近的部分
+ * - 渲染（相机矩阵）和指针（toWorld）使用同一个变换
+ */
+export class Viewport {
+  readonly canvas: HTMLCanvasElement;
+
+  // 世界大小
+  public worldWidth: number;
+  public worldHeight: number;
+
+  // 窗口大小（CSS 像素）和设备像素比
+  private cssWidth = 0;
+  private cssHeight = 0;
+  private pixelRatio = 1;
+
+  // 相机缩放为 1 时每个世界单位对应的 CSS 像素（完整显示世界）
+  private fitScale = 1;
+
+  readonly camera = new Camera();
+
+  // 相机矩阵，每次读取时原地更新
+  private readonly matrix = new Float32Array(9);
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.measure();
+    this.worldWidth = this.cssWidth;
+    this.worldHeight = this.cssHeight;
+    this.camera.reset(this.worldWidth, this.worldHeight);
+    this.layout();
+
+    window.addEventListener("resize", () => this.resize());
+    this.watchPixelRatio();
+  }
+
+  /**
+   * 当前窗口大小（CSS 像素），世界大小跟随窗口时使用
+   */
+  get windowWidth() {
+    return this.cssWidth;
+  }
+
+  get windowHeight() {
+    return this.cssHeight;
+  }
+
+  get devicePixelRatio() {
+    return this.pixelRatio;
+  }
+
+  /**
+   * 每个世界单位对应的 CSS 像素（包含相机缩放）
+   */
+  get cssScale() {
+    return this.fitScale * this.camera.zoom;
+  }
+
+  // 世界原点在窗口中的位置（CSS 像素），相机中心落在窗口中心
+  private get offsetX() {
+    return this.cssWidth / 2 - this.camera.centerX * this.cssScale;
+  }
+
+  private get offsetY() {
+    return this.cssHeight / 2 - this.camera.centerY * this.cssScale;
+  }
+
+  /**
+   * 设置世界大小并重新计算世界在窗口中的位置
+   * 相机中心按比例移动，显示的仍是世界的同一部分
+   */
+  setWorld(width: number, height: number) {
+    this.camera.centerX *= width / this.worldWidth;
+    this.camera.centerY *= height / this.worldHeight;
+    this.worldWidth = width;
+    this.worldHeight = height;
+    this.layout();
+  }
+
+  /**
+   * 以 (clientX, clientY) 下的点为中心缩放（鼠标滚轮）
+   * 跟随粒子时中心由跟随决定，以窗口中心缩放
+   */
+  zoomAt(clientX: number, clientY: number, factor: number) {
+    const camera = this.camera;
+    const { x, y } = camera.following
+      ? { x: camera.centerX, y: camera.centerY }
+      : this.toWorld(clientX, clientY);
+    camera.zoomAt(x, y, factor);
+    camera.clamp(this.worldWidth, this.worldHeight);
+  }
+
+  /**
+   * 平移画面，(dx, dy) 是指针移动的距离（CSS 像素）
+   */
+  panBy(dx: number, dy: number) {
+    const scale = this.cssScale;
+    this.camera.panBy(dx / scale, dy / scale);
+    this.camera.clamp(this.worldWidth, this.worldHeight);
+  }
+
+  /**
+   * 完整显示世界，并停止跟随
+   */
+  resetCamera() {
+    this.camera.reset(this.worldWidth, this.worldHeight);
+    this.camera.following = false;
+  }
+
+  /**
+   * 指针事件的 clientX / clientY 转换为世界坐标（相机变换的逆变换）
+   */
+  toWorld(clientX: number, clientY: number): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    const scale = this.cssScale;
+    return {
+      x: (clientX - rect.left - this.offsetX) / scale,
+      y: (clientY - rect.top - this.offsetY) / scale,
+    };
+  }
+
+  /**
+   * 世界坐标转换为 clientX / clientY（用于 DOM 覆盖层）
+   */
+  toClient(x: number, y: number): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    const scale = this.cssScale;
+    return {
+      x: rect.left + this.offsetX + x * scale,
+      y: rect.top + this.offsetY + y * scale,
+    };
+  }
+
+  /**
+   * 相机矩阵：世界坐标 -> 裁剪空间，列主序 3×3（gl.uniformMatrix3fv）
+   *
+   * x_clip = 2 * (offsetX + x * scale) / cssWidth - 1
+   * y_clip = 1 - 2 * (offsetY + y * scale) / cssHeight（Y 轴翻转）
+   */
+  get cameraMatrix(): Float32Array {
+    const scale = this.cssScale;
+    const m = this.matrix;
+    m[0] = (2 * scale) / this.cssWidth;
+    m[4] = (-2 * scale) / this.cssHeight;
+    m[6] = (2 * this.offsetX) / this.cssWidth - 1;
+    m[7] = 1 - (2 * this.offsetY) / this.cssHeight;
+    m[8] = 1;
+    return m;
+  }
+
+  /**
+   * 世界在画布后备缓冲区中的可见矩形（裁剪到画布之内），用于只清空世界所在的区域
+   */
+  get pixelRect(): PixelRect {
+    const ratio = this.pixelRatio;
+    const scale = this.cssScale;
+    const clampX = (x: number) =>
+      Math.min(Math.max(Math.round(x * ratio), 0), this.canvas.width);
+    const clampY = (y: number) =>
+      Math.min(Math.max(Math.round(y * ratio), 0), this.canvas.height);
+    const left = clampX(this.offsetX);
+    const top = clampY(this.offsetY);
+    const right = clampX(this.offsetX + this.worldWidth * scale);
+    const bottom = clampY(this.offsetY + this.worldHeight * scale);
+    return {
+      x: left,
+      y: this.canvas.height - bottom,
+      width: right - left,
+      height: bottom - top,
+    };
+  }
+
+  private resize() {
+    this.measure();
+    this.layout();
+  }
+
+  // 读取窗口大小和设备像素比，调整画布的显示大小和后备缓冲区
+  private measure() {
+    this.cssWidth = window.innerWidth;
+    this.cssHeight = window.innerHeight;
+    this.pixelRatio = window.devicePixelRatio || 1;
+
+    this.canvas.style.width = `${this.cssWidth}px`;
+    this.canvas.style.height = `${this.cssHeight}px`;
+    this.canvas.width = Math.round(this.cssWidth * this.pixelRatio);
+    this.canvas.height = Math.round(this.cssHeight * this.pixelRatio);
+  }
+
+  // 相机缩放为 1 时世界按比例缩放到能完整显示的最大尺寸
+  private layout() {
+    this.fitScale = Math.min(
+      this.cssWidth / this.worldWidth,
+      this.cssHeight / this.worldHeight
+    );
+    this.camera.clamp(this.worldWidth, this.worldHeight);
+  }
+
+  // 设备像素比改变时不一定触发 resize（例如窗口移到另一块屏幕），
+  // 所以监听当前像素比的媒体查询，每次改变后按新的像素比重新监听
+  private watchPixelRatio() {
+    const query = window.matchMedia(`(resolution: ${this.pixelRatio}dppx)`);
+    query.addEventListener(
+      "change",
+      () => {
+        this.resize();
+        this.watchPixelRatio();
+      },
+      { once: true }
+    );
+  }
+}
+
+/**
+ * 世界大小设置对应的世界大小（跟随窗口时为当前窗口大小）
+ */
+export function worldSizeOf(
+  size: WorldSize,
+  viewport: Viewport
+): { width: number; height: number } {
+  if (size === "window") {
+    return { width: viewport.windowWidth, height: viewport.windowHeight };
+  }
+  const [width, height] = size.split("x").map(Number);
+  return { width, height };
+}
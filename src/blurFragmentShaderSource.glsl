@@ -0,0 +1,27 @@
+/**
+ * 高斯模糊片段着色器
+ *
+ * 二维高斯模糊可以拆成水平和垂直两次一维模糊（可分离），
+ * 每个像素只需要 9 次采样，而不是 9 × 9 次
+ */
+
+precision mediump float;
+
+varying vec2 v_uv;
+
+uniform sampler2D u_image;
+uniform vec2 u_step;  // 相邻两次采样之间的纹理坐标偏移（水平或垂直）
+
+void main() {
+    // 9 个采样点的高斯权重（中心和两侧各 4 个），总和为 1
+    vec4 color = texture2D(u_image, v_uv) * 0.2270270270;
+    color += texture2D(u_image, v_uv + u_step) * 0.1945945946;
+    color += texture2D(u_image, v_uv - u_step) * 0.1945945946;
+    color += texture2D(u_image, v_uv + u_step * 2.0) * 0.1216216216;
+    color += texture2D(u_image, v_uv - u_step * 2.0) * 0.1216216216;
+    color += texture2D(u_image, v_uv + u_step * 3.0) * 0.0540540541;
+    color += texture2D(u_image, v_uv - u_step * 3.0) * 0.0540540541;
+    color += texture2D(u_image, v_uv + u_step * 4.0) * 0.0162162162;
+    color += texture2D(u_image, v_uv - u_step * 4.0) * 0.0162162162;
+    gl_FragColor = color;
+}
@@ -0,0 +1,20 @@
+/**
+ * 泛光提取片段着色器
+ *
+ * 只保留亮度超过阈值的像素，之后模糊这些像素得到光晕
+ */
+
+precision mediump float;
+
+varying vec2 v_uv;
+
+uniform sampler2D u_image;
+uniform float u_threshold;  // 亮度阈值 [0, 1]
+
+void main() {
+    vec4 color = texture2D(u_image, v_uv);
+    float brightness = max(color.r, max(color.g, color.b));
+
+    // 阈值附近平滑过渡，避免光晕边缘闪烁
+    gl_FragColor = color * smoothstep(u_threshold, u_threshold + 0.1, brightness);
+}
@@ -0,0 +1,58 @@
+import type asModule from "../build/release.d";
+
+type WasmExports = typeof asModule;
+
+/**
+ * 粒子之间的碰撞材质
+ *
+ * 碰撞响应在 WebAssembly 模块中计算（见 assembly/collision.ts），
+ * 这里提供参数类型和参数到物理核心的转换
+ */
+
+/**
+ * 某个种类单独的材质，覆盖全局值
+ */
+export interface SpeciesMaterial {
+  species: number;
+  restitution: number;
+  friction: number;
+}
+
+/**
+ * 碰撞材质参数
+ */
+export interface CollisionMaterial {
+  // 恢复系数 [0, 1]：碰撞后法向相对速度保留的比例，0 为完全非弹性
+  restitution: number;
+  // 库仑摩擦系数（≥ 0）：切向冲量不超过 friction × 法向冲量
+  friction: number;
+  // 是否计算角速度（开启后摩擦会让粒子滚动和旋转）
+  rotation: boolean;
+  // 按种类覆盖的材质，两个粒子碰撞时取双方的平均值
+  species: SpeciesMaterial[];
+}
+
+/**
+ * 默认材质，与原来的弹性碰撞模型相同
+ */
+export const DEFAULT_COLLISION_MATERIAL: CollisionMaterial = {
+  restitution: 0.8,
+  friction: 0,
+  rotation: false,
+  species: [],
+};
+
+/**
+ * 把碰撞材质写入物理核心
+ */
+export function applyCollisionMaterial(
+  wasm: WasmExports,
+  material: CollisionMaterial
+) {
+  wasm.setCollisionMaterial(material.restitution, material.friction);
+  wasm.setRotation(material.rotation);
+  wasm.clearSpeciesMaterials();
+  for (const { species, restitution, friction } of material.species) {
+    wasm.setSpeciesMaterial(species, restitution, friction);
+  }
+}
@@ -0,0 +1,29 @@
+import type asModule from "../build/release.d";
+
+type WasmExports = typeof asModule;
+
+/**
+ * 碰撞检测辅助线程（由 PhysicsWorker 创建）
+ *
+ * 1. 收到编译好的模块和共享内存后实例化，回复主线程（不执行启动函数）
+ * 2. 收到物理线程的共享上下文后进入 runCollisionWorker，此后一直在物理核心中等待和处理块，
+ *    不再处理消息
+ */
+const scope = self as unknown as Worker;
+
+scope.onmessage = async ({ data }) => {
+  const { module, memory } = data as {
+    module: WebAssembly.Module;
+    memory: WebAssembly.Memory;
+  };
+  const instance = await WebAssembly.instantiate(module, {
+    env: {
+      memory,
+      abort: () => console.error("AssemblyScript abort"),
+    },
+  });
+  const wasm = instance.exports as unknown as WasmExports;
+
+  scope.onmessage = ({ data }) => wasm.runCollisionWorker(data.context);
+  scope.postMessage(null);
+};
@@ -0,0 +1,20 @@
+/**
+ * 合成片段着色器
+ *
+ * 把粒子层（可能带拖尾）和泛光叠加后输出到画布，
+ * 颜色是预乘 alpha 的，混合时用 ONE / ONE_MINUS_SRC_ALPHA 盖在背景上
+ */
+
+precision mediump float;
+
+varying vec2 v_uv;
+
+uniform sampler2D u_image;         // 粒子层
+uniform sampler2D u_bloom;         // 模糊后的亮部
+uniform float u_bloomIntensity;    // 泛光强度，0 表示没有泛光
+
+void main() {
+    vec4 color = texture2D(u_image, v_uv);
+    color += texture2D(u_bloom, v_uv) * u_bloomIntensity;
+    gl_FragColor = min(color, 1.0);
+}
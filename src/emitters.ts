@@ -0,0 +1,188 @@
+import type asModule from "../build/release.d";
+import { pushCapsule, pushCircle, pushFan } from "./obstacles";
+
+type WasmExports = typeof asModule;
+
+/**
+ * 粒子流场景：发射器与汇
+ *
+ * 发射器和汇保存在 WebAssembly 模块中（见 assembly/emitters.ts），
+ * 这里提供预设场景，以及把它们的形状转换为三角形的函数
+ */
+
+/**
+ * 发射参数（来自控制面板，作用于场景中的所有发射器）
+ */
+export interface EmitterParams {
+  // 每个发射器每秒生成的粒子数
+  rate: number;
+  // 初速度（像素/秒），实际速度在 [0.8, 1.2] 倍之间随机
+  speed: number;
+  // 发射锥形的半角（度）
+  spread: number;
+  // 寿命（秒），0 表示永久存在
+  lifetime: number;
+  // 生成粒子的半径范围（像素）
+  minRadius: number;
+  maxRadius: number;
+}
+
+// 为发射器设置速率、半径、寿命，以及沿 direction（弧度）方向的速度
+function configure(
+  wasm: WasmExports,
+  id: number,
+  params: EmitterParams,
+  direction: number
+) {
+  wasm.setEmitterRate(id, params.rate);
+  wasm.setEmitterVelocity(
+    id,
+    direction,
+    (params.spread * Math.PI) / 180,
+    params.speed * 0.8,
+    params.speed * 1.2
+  );
+  wasm.setEmitterRadius(id, params.minRadius, params.maxRadius);
+  wasm.setEmitterLifetime(id, params.lifetime);
+}
+
+// 预设场景：按世界大小摆放发射器、汇和需要的障碍物
+export const FLOW_SCENES = {
+  none: {
+    label: "无",
+    build: () => {},
+  },
+  fountain: {
+    label: "喷泉",
+    build: (
+      wasm: WasmExports,
+      params: EmitterParams,
+      width: number,
+      height: number
+    ) => {
+      // 底部中央向上喷射，落到两侧底角的粒子被排走
+      const id = wasm.addPointEmitter(width / 2, height - 20);
+      configure(wasm, id, params, -Math.PI / 2);
+
+      const drain = width * 0.15;
+      wasm.addRectSink(0, height - 30, drain, height);
+      wasm.addRectSink(width - drain, height - 30, width, height);
+    },
+  },
+  rain: {
+    label: "雨",
+    build: (
+      wasm: WasmExports,
+      params: EmitterParams,
+      width: number,
+      height: number
+    ) => {
+      // 从顶部整条边落下，到达底部后被排走
+      const id = wasm.addLineEmitter(0, 5, width, 5);
+      configure(wasm, id, params, Math.PI / 2);
+      wasm.addRectSink(0, height - 15, width, height);
+    },
+  },
+  pipe: {
+    label: "管道",
+    build: (
+      wasm: WasmExports,
+      params: EmitterParams,
+      width: number,
+      height: number
+    ) => {
+      // 水平管道：左端注入，右端排出
+      const top = height * 0.4;
+      const bottom = height * 0.6;
+      wasm.addSegment(0, top, width, top, 4);
+      wasm.addSegment(0, bottom, width, bottom, 4);
+
+      const id = wasm.addAreaEmitter(5, top + 10, 60, bottom - 10);
+      configure(wasm, id, params, 0);
+      wasm.addRectSink(width - 40, top, width, bottom);
+    },
+  },
+} as const;
+
+export type FlowScene = keyof typeof FLOW_SCENES;
+
+/**
+ * 清除现有发射器和汇并搭建预设场景
+ *
+ * 场景需要的障碍物（例如管道壁）直接添加，不会清除已有的障碍物
+ */
+export function buildFlowScene(
+  wasm: WasmExports,
+  scene: FlowScene,
+  params: EmitterParams,
+  width: number,
+  height: number
+) {
+  wasm.clearEmitters();
+  wasm.clearSinks();
+  FLOW_SCENES[scene].build(wasm, params, width, height);
+}
+
+/**
+ * 把发射器和汇转换为三角形（每个顶点 2 个 float：x, y）
+ *
+ * 只需在 getEmitterVersion() 改变时重新生成
+ */
+export function buildFlowTriangles(wasm: WasmExports): {
+  emitters: Float32Array;
+  sinks: Float32Array;
+} {
+  const emitters: number[] = [];
+  for (let id = 0; id < wasm.getEmitterSlots(); id++) {
+    const [x1, y1, x2, y2] = shape(id, wasm.getEmitterShape);
+    switch (wasm.getEmitterKind(id)) {
+      case wasm.EMITTER_POINT.value:
+        pushCircle(emitters, [x1, y1], 8);
+        break;
+      case wasm.EMITTER_LINE.value:
+        pushCapsule(emitters, [x1, y1], [x2, y2], 3);
+        break;
+      case wasm.EMITTER_AREA.value:
+        pushRect(emitters, x1, y1, x2, y2);
+        break;
+    }
+  }
+
+  const sinks: number[] = [];
+  for (let id = 0; id < wasm.getSinkSlots(); id++) {
+    const [a, b, c, d] = shape(id, wasm.getSinkShape);
+    switch (wasm.getSinkKind(id)) {
+      case wasm.SINK_CIRCLE.value:
+        pushCircle(sinks, [a, b], c);
+        break;
+      case wasm.SINK_RECT.value:
+        pushRect(sinks, a, b, c, d);
+        break;
+    }
+  }
+
+  return {
+    emitters: new Float32Array(emitters),
+    sinks: new Float32Array(sinks),
+  };
+}
+
+// 读取形状的 4 个值
+function shape(id: number, get: (id: number, i: number) => number) {
+  return [0, 1, 2, 3].map(i => get(id, i));
+}
+
+function pushRect(
+  vertices: number[],
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+) {
+  pushFan(vertices, [
+    [minX, minY],
+    [maxX, minY],
+    [maxX, maxY],
+    [minX, maxY],
+  ]);
+}
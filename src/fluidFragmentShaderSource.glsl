@@ -0,0 +1,50 @@
+/**
+ * 液面片段着色器（液面渲染的第二步）
+ *
+ * 读取密度纹理，密度超过阈值的区域就是液体：
+ * - 阈值附近平滑过渡，得到抗锯齿的边缘
+ * - 颜色是附近粒子颜色按密度加权的平均
+ * - 用密度的梯度作为表面的法线，加上漫反射和高光，看起来像有厚度的液体
+ *
+ * 输出预乘 alpha 的颜色，用 ONE / ONE_MINUS_SRC_ALPHA 混合到画布或后期处理的粒子层
+ */
+
+precision mediump float;
+
+varying vec2 v_uv;
+
+uniform sampler2D u_density;   // 密度纹理（rgb = 颜色 × 密度，a = 密度）
+uniform vec2 u_texel;          // 密度纹理中一个像素的纹理坐标大小
+uniform float u_threshold;     // 液面的密度阈值
+uniform float u_densityScale;  // 把纹理中的密度换算到阈值的单位（8 位纹理中单个粒子的密度更小）
+
+void main() {
+    vec4 field = texture2D(u_density, v_uv);
+    float density = field.a * u_densityScale;
+
+    float coverage = smoothstep(u_threshold * 0.8, u_threshold * 1.2, density);
+    if(coverage <= 0.0) {
+        discard;
+    }
+
+    vec3 color = field.rgb / max(field.a, 0.001);
+
+    // 中心差分求密度的梯度：液体边缘密度变化快，法线向外倾斜；内部平坦，法线朝向屏幕外
+    float dx = (texture2D(u_density, v_uv + vec2(u_texel.x, 0.0)).a -
+        texture2D(u_density, v_uv - vec2(u_texel.x, 0.0)).a) * u_densityScale;
+    float dy = (texture2D(u_density, v_uv + vec2(0.0, u_texel.y)).a -
+        texture2D(u_density, v_uv - vec2(0.0, u_texel.y)).a) * u_densityScale;
+    vec3 normal = normalize(vec3(-dx, -dy, 0.1));
+
+    // 光从左上方照射（纹理坐标的 y 轴向上）
+    vec3 light = normalize(vec3(-0.5, 0.5, 1.0));
+    float diffuse = max(dot(normal, light), 0.0);
+    float specular = pow(max(dot(reflect(-light, normal), vec3(0.0, 0.0, 1.0)), 0.0), 32.0);
+
+    // 密度越大（液体越深）颜色越暗
+    float depth = smoothstep(u_threshold, u_threshold * 4.0, density);
+    vec3 shaded = color * (0.5 + 0.5 * diffuse) * (1.0 - 0.25 * depth) + specular * 0.5;
+
+    float alpha = coverage * 0.9;
+    gl_FragColor = vec4(min(shaded, 1.0) * alpha, alpha);
+}
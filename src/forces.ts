@@ -0,0 +1,92 @@
+import type asModule from "../build/release.d";
+
+type WasmExports = typeof asModule;
+
+/**
+ * 粒子间作用力
+ *
+ * 作用力在 WebAssembly 模块中计算（见 assembly/forces.ts），
+ * 这里提供模式列表、参数到物理核心的转换，以及随机吸引矩阵
+ */
+
+/**
+ * 作用力模式
+ * - none: 只有碰撞
+ * - soft: 软排斥
+ * - lennardJones: Lennard-Jones 势（接触距离处平衡）
+ * - cohesion: 凝聚（相邻粒子互相吸引）
+ * - species: 种类吸引矩阵（particle life）
+ * - gravity: 万有引力（Barnes–Hut 四叉树）
+ */
+export type PairForce =
+  "none" | "soft" | "lennardJones" | "cohesion" | "species" | "gravity";
+
+export const PAIR_FORCES: Record<PairForce, string> = {
+  none: "无",
+  soft: "软排斥",
+  lennardJones: "Lennard-Jones",
+  cohesion: "凝聚",
+  species: "种类吸引矩阵",
+  gravity: "万有引力",
+};
+
+/**
+ * 作用力参数
+ */
+export interface PairForceParams {
+  mode: PairForce;
+  // 加速度的尺度（像素/秒²），万有引力模式下是引力常数
+  strength: number;
+  // 作用范围（像素），万有引力模式下是软化长度
+  range: number;
+  // Barnes–Hut 开角
+  theta: number;
+  // 种类数，只在种类吸引矩阵模式下生效，其他模式下所有粒子都是种类 0
+  species: number;
+  // 吸引矩阵（species × species，按行存放）：matrix[a * species + b] 是种类 b 对种类 a 的作用
+  matrix: number[];
+}
+
+/**
+ * 把作用力参数写入物理核心
+ */
+export function applyPairForce(wasm: WasmExports, params: PairForceParams) {
+  const modes: Record<PairForce, number> = {
+    none: wasm.PAIR_FORCE_NONE.value,
+    soft: wasm.PAIR_FORCE_SOFT.value,
+    lennardJones: wasm.PAIR_FORCE_LENNARD_JONES.value,
+    cohesion: wasm.PAIR_FORCE_COHESION.value,
+    species: wasm.PAIR_FORCE_SPECIES.value,
+    gravity: wasm.PAIR_FORCE_GRAVITY.value,
+  };
+  wasm.setPairForce(modes[params.mode], params.strength, params.range);
+  wasm.setBarnesHutTheta(params.theta);
+
+  const species = params.mode === "species" ? params.species : 1;
+  wasm.setSpeciesCount(species);
+  for (let a = 0; a < species; a++) {
+    for (let b = 0; b < species; b++) {
+      wasm.setSpeciesAttraction(a, b, params.matrix[a * species + b] ?? 0);
+    }
+  }
+}
+
+/**
+ * 由种子生成 species × species 的随机吸引矩阵，元素在 [-1, 1] 之间
+ *
+ * 相同的种子总是得到相同的矩阵（mulberry32，与物理核心的随机数生成器相同）
+ */
+export function attractionMatrix(seed: number, species: number): number[] {
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from(
+    { length: species * species },
+    () => Math.round((random() * 2 - 1) * 100) / 100
+  );
+}
@@ -17,9 +17,23 @@ precision mediump float;
 // ============ 输入变量 (Varyings) ============
 // 这些值从顶点着色器传入，在三角形内部已经过插值
 
-varying vec2 v_position;    // 当前像素的屏幕坐标 (已插值)
+varying vec2 v_position;    // 当前像素的世界坐标 (已插值)
 varying vec2 v_center;      // 粒子中心坐标 (已插值)
 varying float v_radius;     // 粒子半径 (已插值)
+varying float v_value;      // 归一化后的标量 [0, 1]
+varying vec3 v_color;       // 粒子自身的颜色
+varying float v_selected;   // 1 表示检查器选中的粒子
+
+// ============ Uniform 变量 ============
+
+// 颜色模式：0 = 使用粒子自身的颜色，1 = 用 v_value 查找调色板
+uniform int u_colorMode;
+
+// 调色板纹理：宽 256 像素、高 1 像素的渐变色带
+uniform sampler2D u_palette;
+
+// 整体不透明度：默认 0.9；开启辉光时是辉光强度（叠加混合，重叠处越来越亮）
+uniform float u_opacity;
 
 void main() {
     /**
@@ -68,12 +82,21 @@ void main() {
      * 设置粒子的颜色
      * 
      * vec3 表示 RGB 颜色，每个分量范围 [0, 1]
-     * vec3(0.4, 0.7, 1.0) = 浅蓝色
-     * - 0.4 红色分量
-     * - 0.7 绿色分量
-     * - 1.0 蓝色分量
+     * - 模式 0：直接使用粒子记录中的颜色（默认是浅蓝色 vec3(0.4, 0.7, 1.0)）
+     * - 模式 1：texture2D 在调色板纹理中按 v_value 取色，纹理坐标 y 固定为 0.5（只有一行）
      */
-    vec3 baseColor = vec3(0.4, 0.7, 1.0);
+    vec3 baseColor = v_color;
+    if(u_colorMode == 1) {
+        baseColor = texture2D(u_palette, vec2(v_value, 0.5)).rgb;
+    }
+
+    /**
+     * 检查器选中的粒子：颜色提亮，靠近边缘的一圈画成白色描边
+     */
+    if(v_selected > 0.5) {
+        float ring = smoothstep(0.6, 0.75, normalizedDist);
+        baseColor = mix(min(baseColor + 0.25, 1.0), vec3(1.0), ring);
+    }
 
     /**
      * 输出最终颜色
@@ -83,7 +106,7 @@ void main() {
      * - r, g, b: 红绿蓝颜色分量
      * - a: alpha 透明度 (0 = 完全透明, 1 = 完全不透明)
      * 
-     * alpha * 0.9: 整体稍微透明一点，让粒子重叠时有更好的视觉效果
+     * alpha * u_opacity: 整体稍微透明一点，让粒子重叠时有更好的视觉效果
      */
-    gl_FragColor = vec4(baseColor, alpha * 0.9);
+    gl_FragColor = vec4(baseColor, alpha * u_opacity);
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * 实例化顶点着色器 (Instanced Vertex Shader)
+ * 
+ * 职责：把一个共享的四边形放大、平移到每个粒子的位置
+ * 与 vertexShaderSource.glsl 不同，这里不需要 CPU 为每个粒子生成 6 个顶点：
+ * - a_corner 是四边形的角点，所有粒子共享（每个顶点不同）
+ * - 其他属性直接来自粒子数据缓冲区（每个实例不同，divisor = 1）
+ */
+
+// ============ 每个顶点的属性 ============
+
+attribute vec2 a_corner;    // 四边形角点，范围 [-1, 1]
+
+// ============ 每个实例（粒子）的属性 ============
+// 直接按粒子内存布局读取，步长和偏移量由 JavaScript 根据 ParticleLayout 设置
+
+attribute vec2 a_center;    // 粒子中心的世界坐标 (x, y)
+attribute float a_radius;   // 粒子的半径，单位：像素
+attribute vec2 a_velocity;  // 粒子速度 (vx, vy)，单位：像素/秒
+attribute float a_mass;     // 粒子质量
+attribute float a_species;  // 种类 id
+attribute float a_density;  // 局部密度
+attribute float a_angularVelocity; // 角速度，单位：弧度/秒
+attribute vec3 a_color;     // 粒子自身存储的颜色 (r, g, b)
+
+// ============ Uniform 变量 ============
+
+uniform mat3 u_camera;      // 相机变换：世界坐标 -> 裁剪空间（见 Viewport.ts）
+uniform vec3 u_selection;   // 检查器选中粒子的中心 (x, y)，z = 1 表示有选中的粒子
+uniform vec2 u_valueRange;  // 标量的范围 (最小值, 最大值)，用于归一化
+uniform float u_radiusScale; // 四边形的放大倍数：粒子为 1，液面的密度核更大（见 FluidRenderer.ts）
+
+// 用哪个属性作为调色板标量：0 = 速度大小，1 = 质量，2 = 种类，3 = 密度，4 = 角速度大小
+uniform int u_valueMode;
+
+// ============ 输出变量 (Varyings) ============
+// 与 vertexShaderSource.glsl 相同，片段着色器可以共用
+
+varying vec2 v_position;
+varying vec2 v_center;
+varying float v_radius;
+varying float v_value;
+varying vec3 v_color;
+varying float v_selected;
+
+void main() {
+    // 角点 (-1, -1) 对应 (x-r, y-r)，(1, 1) 对应 (x+r, y+r)
+    float radius = a_radius * u_radiusScale;
+    vec2 position = a_center + a_corner * radius;
+
+    // 世界坐标 -> 裁剪空间（详见 vertexShaderSource.glsl）
+    gl_Position = vec4((u_camera * vec3(position, 1.0)).xy, 0, 1);
+
+    v_position = position;
+    v_center = a_center;
+    v_radius = radius;
+
+    // 在 GPU 上选择标量，CPU 不再需要逐个粒子计算
+    float value = length(a_velocity);
+    if(u_valueMode == 1) {
+        value = a_mass;
+    } else if(u_valueMode == 2) {
+        value = a_species;
+    } else if(u_valueMode == 3) {
+        value = a_density;
+    } else if(u_valueMode == 4) {
+        value = abs(a_angularVelocity);
+    }
+
+    float range = max(u_valueRange.y - u_valueRange.x, 0.0001);
+    v_value = clamp((value - u_valueRange.x) / range, 0.0, 1.0);
+    v_color = a_color;
+
+    // 中心与选中粒子重合的就是选中的粒子（WebGL1 中没有 gl_InstanceID）
+    v_selected = u_selection.z * step(distance(a_center, u_selection.xy), 0.01);
+}
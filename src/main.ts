@@ -1,298 +1,37 @@
 import wasmUrl from "../build/release.wasm?url";
+import simdWasmUrl from "../build/simd.wasm?url";
 import type asModule from "../build/release.d";
 import { ControlPanel } from "./ControlPanel";
-// 顶点着色器
-import vertexShaderSource from "./vertexShaderSource.glsl?raw";
-// 片段着色器 - 绘制圆形粒子
-import fragmentShaderSource from "./fragmentShaderSource.glsl?raw";
-
-/**
- * WebGL 粒子渲染器类
- *
- * 职责：使用 WebGL 在 GPU 上高效渲染大量粒子
- * WebGL 是一种基于 OpenGL ES 的 JavaScript API，可以在浏览器中进行硬件加速的 3D/2D 图形渲染
- */
-class ParticleRenderer {
-  // WebGL 渲染上下文 - 所有 WebGL 操作的入口点
-  private gl: WebGLRenderingContext;
-
-  // 着色器程序 - 包含在 GPU 上运行的顶点着色器和片段着色器
-  private program: WebGLProgram;
-
-  // 顶点缓冲区 - 在 GPU 显存中存储顶点数据的对象
-  private positionBuffer: WebGLBuffer;
-
-  // 顶点数组 - CPU 端的临时数据存储，用于组装顶点数据后传输到 GPU
-  private vertexArray: Float32Array;
-
-  /**
-   * 构造函数 - 初始化 WebGL 环境和着色器程序
-   * @param canvas HTML Canvas 元素，WebGL 将在其上绘制
-   */
-  constructor(canvas: HTMLCanvasElement) {
-    // 获取 WebGL 渲染上下文（类似于 2D canvas 的 getContext('2d')）
-    const gl = canvas.getContext("webgl");
-    if (!gl) throw new Error("WebGL not supported");
-    this.gl = gl;
-
-    /**
-     * 创建着色器程序
-     *
-     * 着色器是在 GPU 上运行的小程序，用 GLSL 语言编写
-     * - 顶点着色器：处理每个顶点的位置变换
-     * - 片段着色器：处理每个像素的颜色计算
-     */
-    const vertexShader = this.createShader(
-      gl.VERTEX_SHADER,
-      vertexShaderSource
-    );
-    const fragmentShader = this.createShader(
-      gl.FRAGMENT_SHADER,
-      fragmentShaderSource
-    );
-
-    // 创建着色器程序并链接顶点着色器和片段着色器
-    const program = gl.createProgram()!;
-    gl.attachShader(program, vertexShader);
-    gl.attachShader(program, fragmentShader);
-    gl.linkProgram(program); // 链接着色器，类似于编译链接 C++ 程序
-
-    // 检查程序是否成功链接
-    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-      throw new Error("Program link failed: " + gl.getProgramInfoLog(program));
-    }
-
-    this.program = program;
-
-    // 创建顶点缓冲区对象（VBO - Vertex Buffer Object）
-    // 这是在 GPU 显存中分配的一块内存，用于存储顶点数据
-    this.positionBuffer = gl.createBuffer()!;
-
-    // 初始化一个空的 Float32Array，后续会根据粒子数量调整大小
-    this.vertexArray = new Float32Array(0);
-
-    /**
-     * 启用混合模式
-     *
-     * 混合允许透明效果，使粒子可以有半透明的边缘
-     * gl.SRC_ALPHA：源颜色的 alpha 值
-     * gl.ONE_MINUS_SRC_ALPHA：1 - 源颜色的 alpha 值
-     * 最终颜色 = 源颜色 * alpha + 目标颜色 * (1 - alpha)
-     */
-    gl.enable(gl.BLEND);
-    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
-  }
-
-  /**
-   * 创建并编译着色器
-   * @param type 着色器类型（VERTEX_SHADER 或 FRAGMENT_SHADER）
-   * @param source GLSL 源代码字符串
-   * @returns 编译好的着色器对象
-   */
-  private createShader(type: number, source: string): WebGLShader {
-    const gl = this.gl;
-
-    // 创建着色器对象
-    const shader = gl.createShader(type)!;
-
-    // 设置着色器源代码
-    gl.shaderSource(shader, source);
-
-    // 编译着色器（类似于编译 C++ 代码）
-    gl.compileShader(shader);
-
-    // 检查编译是否成功
-    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-      const info = gl.getShaderInfoLog(shader);
-      gl.deleteShader(shader);
-      throw new Error("Shader compile failed: " + info);
-    }
-
-    return shader;
-  }
-
-  /**
-   * 渲染粒子
-   *
-   * 这是核心渲染函数，每帧调用一次
-   * 流程：
-   * 1. 清空画布
-   * 2. 为每个粒子生成 6 个顶点（2 个三角形组成 1 个四边形）
-   * 3. 将顶点数据上传到 GPU
-   * 4. 配置着色器属性
-   * 5. 执行绘制
-   *
-   * @param particles 从 WebAssembly 内存中读取的粒子数据数组
-   * @param particleCount 粒子数量
-   * @param width 画布宽度
-   * @param height 画布高度
-   */
-  render(
-    particles: Float32Array,
-    particleCount: number,
-    width: number,
-    height: number
-  ) {
-    const gl = this.gl;
-
-    /**
-     * 步骤 1: 清空画布
-     */
-    // 设置视口（渲染区域）
-    gl.viewport(0, 0, width, height);
-
-    // 设置清空颜色（深蓝色背景）
-    gl.clearColor(0.05, 0.05, 0.1, 1);
-
-    // 清空颜色缓冲区
-    gl.clear(gl.COLOR_BUFFER_BIT);
-
-    /**
-     * 步骤 2: 激活着色器程序
-     */
-    gl.useProgram(this.program);
-
-    // 设置 uniform 变量（传递画布分辨率给着色器）
-    // uniform 是所有顶点/片段共享的全局变量
-    const resolutionLocation = gl.getUniformLocation(
-      this.program,
-      "u_resolution"
-    );
-    gl.uniform2f(resolutionLocation, width, height);
-
-    /**
-     * 步骤 3: 为每个粒子生成顶点数据
-     *
-     * WebGL 只能绘制三角形，所以我们用 2 个三角形组成 1 个四边形来表示圆形粒子
-     * 每个粒子需要 6 个顶点（每个三角形 3 个顶点）
-     */
-    const verticesPerParticle = 6; // 2 个三角形 = 6 个顶点
-    const floatsPerVertex = 5; // 每个顶点 5 个浮点数：x, y, centerX, centerY, radius
-    const totalFloats = particleCount * verticesPerParticle * floatsPerVertex;
-
-    // 如果数组大小不匹配，重新分配内存
-    if (this.vertexArray.length !== totalFloats) {
-      this.vertexArray = new Float32Array(totalFloats);
-    }
-
-    // 遍历每个粒子，生成其顶点数据
-    for (let i = 0; i < particleCount; i++) {
-      // 从 particles 数组中读取粒子数据
-      const particleOffset = i * 6; // PARTICLE_SIZE from AssemblyScript
-      const x = particles[particleOffset]; // 粒子中心 x 坐标
-      const y = particles[particleOffset + 1]; // 粒子中心 y 坐标
-      const radius = particles[particleOffset + 4]; // 粒子半径
-
-      const arrayOffset = i * verticesPerParticle * floatsPerVertex;
-
-      /**
-       * 创建四边形的两个三角形
-       *
-       * 四边形的 4 个角：
-       * (x-r, y-r) ---- (x+r, y-r)
-       *     |               |
-       *     |     (x,y)     |
-       *     |               |
-       * (x-r, y+r) ---- (x+r, y+r)
-       *
-       * 三角形 1: 左上、右上、左下
-       * 三角形 2: 左下、右上、右下
-       */
-
-      // Triangle 1
-      this.setVertex(arrayOffset + 0, x - radius, y - radius, x, y, radius); // 左上
-      this.setVertex(arrayOffset + 5, x + radius, y - radius, x, y, radius); // 右上
-      this.setVertex(arrayOffset + 10, x - radius, y + radius, x, y, radius); // 左下
-
-      // Triangle 2
-      this.setVertex(arrayOffset + 15, x - radius, y + radius, x, y, radius); // 左下
-      this.setVertex(arrayOffset + 20, x + radius, y - radius, x, y, radius); // 右上
-      this.setVertex(arrayOffset + 25, x + radius, y + radius, x, y, radius); // 右下
-    }
-
-    /**
-     * 步骤 4: 上传数据到 GPU
-     */
-    // 绑定缓冲区（告诉 WebGL 我们要操作这个缓冲区）
-    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
-
-    // 将 CPU 端的数据上传到 GPU 显存
-    // DYNAMIC_DRAW 表示这些数据会频繁更新（每帧都更新）
-    gl.bufferData(gl.ARRAY_BUFFER, this.vertexArray, gl.DYNAMIC_DRAW);
-
-    /**
-     * 步骤 5: 配置顶点属性
-     *
-     * 告诉 WebGL 如何从缓冲区中读取数据并传递给着色器
-     */
-    const stride = floatsPerVertex * 4; // 每个顶点的字节大小（4 字节 = 1 个 float）
-
-    // 配置 a_position 属性（顶点位置）
-    const positionLocation = gl.getAttribLocation(this.program, "a_position");
-    gl.enableVertexAttribArray(positionLocation); // 启用属性
-    // 参数：(属性位置, 分量数量, 数据类型, 是否归一化, 步长, 偏移量)
-    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, stride, 0);
-
-    // 配置 a_center 属性（粒子中心坐标）
-    const centerLocation = gl.getAttribLocation(this.program, "a_center");
-    gl.enableVertexAttribArray(centerLocation);
-    gl.vertexAttribPointer(centerLocation, 2, gl.FLOAT, false, stride, 8); // 偏移 8 字节
-
-    // 配置 a_radius 属性（粒子半径）
-    const radiusLocation = gl.getAttribLocation(this.program, "a_radius");
-    gl.enableVertexAttribArray(radiusLocation);
-    gl.vertexAttribPointer(radiusLocation, 1, gl.FLOAT, false, stride, 16); // 偏移 16 字节
-
-    /**
-     * 步骤 6: 执行绘制
-     *
-     * TRIANGLES 模式：每 3 个顶点组成一个三角形
-     * 从第 0 个顶点开始，绘制 particleCount * 6 个顶点
-     */
-    gl.drawArrays(gl.TRIANGLES, 0, particleCount * verticesPerParticle);
-  }
-
-  /**
-   * 设置单个顶点的数据
-   *
-   * 将顶点的位置、粒子中心、半径信息写入顶点数组
-   *
-   * @param offset 在 vertexArray 中的起始位置
-   * @param x 顶点 x 坐标
-   * @param y 顶点 y 坐标
-   * @param cx 粒子中心 x 坐标
-   * @param cy 粒子中心 y 坐标
-   * @param r 粒子半径
-   */
-  private setVertex(
-    offset: number,
-    x: number,
-    y: number,
-    cx: number,
-    cy: number,
-    r: number
-  ) {
-    // 在片段着色器中，我们需要知道：
-    // 1. 当前像素的坐标 (x, y) - 用于判断是否在圆内
-    // 2. 粒子的中心坐标 (cx, cy) - 用于计算距离
-    // 3. 粒子的半径 (r) - 用于判断边界
-    this.vertexArray[offset] = x; // 顶点 x 坐标
-    this.vertexArray[offset + 1] = y; // 顶点 y 坐标
-    this.vertexArray[offset + 2] = cx; // 粒子中心 x
-    this.vertexArray[offset + 3] = cy; // 粒子中心 y
-    this.vertexArray[offset + 4] = r; // 粒子半径
-  }
-}
+import { Simulation } from "./Simulation";
+import { PhysicsWorker } from "./PhysicsWorker";
+import { ParticleRenderer } from "./ParticleRenderer";
+import { ReplayBar } from "./ReplayBar";
+import { Viewport, worldSizeOf } from "./Viewport";
+import { TOOLS, ToolOverlay, type ToolCircle } from "./ToolOverlay";
+import { Inspector } from "./Inspector";
+import { Replay } from "./Replay";
+import { parseInputLog, type InputLog } from "./InputRecorder";
+import { PALETTES, type ColorMode } from "./palettes";
+import {
+  SNAPSHOT_EXTENSION,
+  convertParticles,
+  decodeSnapshot,
+  encodeSnapshot,
+} from "./snapshot";
+import { buildObstacleTriangles, type ObstacleScene } from "./obstacles";
+import { buildFlowTriangles, type EmitterParams } from "./emitters";
+import { attractionMatrix, type PairForceParams } from "./forces";
+import type { CollisionMaterial } from "./collision";
 
 // 主应用
 async function main() {
   // 创建画布
+  // 后备缓冲区大小、世界坐标与画布像素的映射由 Viewport 管理
   const canvas = document.createElement("canvas");
-  canvas.width = window.innerWidth;
-  canvas.height = window.innerHeight;
   canvas.style.display = "block";
   canvas.style.backgroundColor = "#0a0a14";
   document.body.appendChild(canvas);
+  const viewport = new Viewport(canvas);
 
   // 样式
   document.body.style.margin = "0";
@@ -312,79 +51,596 @@ async function main() {
   ui.style.userSelect = "none";
   document.body.appendChild(ui);
 
-  // 加载 WebAssembly
-  const response = await fetch(wasmUrl);
-  const wasmBytes = await response.arrayBuffer();
-  const wasmModule = await WebAssembly.instantiate(wasmBytes, {
-    env: {
-      abort: () => console.error("AssemblyScript abort"),
-      seed: () => Math.random(),
-    },
-  });
-
-  const wasm = wasmModule.instance.exports as typeof asModule;
+  const params = new URLSearchParams(location.search);
+
+  // URL 中带 ?worker=1 时在 Web Worker 中运行物理，碰撞检测分块多线程处理
+  // ?threads=4 指定参与碰撞检测的线程数，默认按 CPU 核数（主线程留给渲染）
+  // 共享内存要求页面跨源隔离（见 vite.config.ts），不满足或线程创建失败时退回主线程单线程模拟
+  let physics: PhysicsWorker | null = null;
+  let physicsMode = "主线程";
+  if (params.get("worker") === "1") {
+    if (crossOriginIsolated) {
+      const threads =
+        Number(params.get("threads")) ||
+        Math.min(Math.max(navigator.hardwareConcurrency - 1, 1), 8);
+      try {
+        physics = await PhysicsWorker.create(threads);
+      } catch (error) {
+        console.warn("物理线程创建失败，物理在主线程中运行：", error);
+        physicsMode = "主线程（物理线程创建失败）";
+      }
+    } else {
+      console.warn("页面没有跨源隔离，无法使用共享内存，物理在主线程中运行");
+      physicsMode = "主线程（未跨源隔离）";
+    }
+  }
+  if (physics) {
+    const worker = physics;
+    physicsMode = `工作线程 ×${worker.threads}`;
+    // 出错的一步被跳过，模拟继续运行；错误显示在统计信息中
+    worker.onError = error => {
+      console.error("物理线程出错：", error);
+      physicsMode = `工作线程 ×${worker.threads}（出错：${error.message}）`;
+    };
+  }
 
   // 创建控制面板
   const controlPanel = new ControlPanel();
 
-  // 初始化粒子系统
-  let PARTICLE_COUNT = controlPanel.settings.particleCount;
-  const PARTICLE_SIZE = 8;
+  // 创建模拟器（固定步长 + 子步）
+  // 单线程时在主线程中加载物理核心
+  // 浏览器支持 SIMD 时使用 SIMD 构建（结果与标量构建逐位相同），?simd=0 强制使用标量构建
+  // ?storage=soa 让 SIMD 构建以 SoA 方式存储位置和速度（见 assembly/simd.ts）
+  const useSimd = !physics && params.get("simd") !== "0" && supportsSimd();
+  const wasm = physics ? null : await loadWasm(useSimd);
+  const simulation = physics ?? new Simulation(wasm!);
+  if (wasm && useSimd) {
+    const soa = params.get("storage") === "soa";
+    wasm.setParticleStorage(
+      soa ? wasm.PARTICLE_STORAGE_SOA.value : wasm.PARTICLE_STORAGE_AOS.value
+    );
+    physicsMode += `（SIMD，${soa ? "SoA" : "AoS"}）`;
+  }
 
-  // 初始化函数
-  function initParticles() {
-    PARTICLE_COUNT = Math.round(controlPanel.settings.particleCount);
+  // 随机种子：URL 中带 ?seed=123 时使用固定种子，便于复现问题
+  const urlSeed = params.get("seed");
+  let seed = urlSeed !== null ? Number(urlSeed) >>> 0 : randomSeed();
 
-    // 设置半径范围
-    wasm.setRadiusRange(
-      controlPanel.settings.minRadius,
-      controlPanel.settings.maxRadius
-    );
+  function randomSeed() {
+    return (Math.random() * 0x100000000) >>> 0;
+  }
 
-    // 初始化粒子
-    wasm.initParticles(
-      PARTICLE_COUNT,
-      canvas.width,
-      canvas.height,
-      controlPanel.settings.damping
-    );
+  // 粒子数量滑块上一次应用的值，滑块改变时实时增删粒子
+  let appliedCount = Math.round(controlPanel.settings.particleCount);
+
+  // 初始化函数
+  // 相同种子 + 相同参数 = 相同的初始状态
+  function initParticles() {
+    appliedCount = Math.round(controlPanel.settings.particleCount);
+    simulation.damping = controlPanel.settings.damping;
+    simulation.reset({
+      seed,
+      count: appliedCount,
+      minRadius: controlPanel.settings.minRadius,
+      maxRadius: controlPanel.settings.maxRadius,
+      width: viewport.worldWidth,
+      height: viewport.worldHeight,
+    });
   }
 
   initParticles();
 
-  // 控制面板改变时重新初始化粒子
+  // 控制面板改变时重新初始化粒子（每次重置使用新的种子）
   controlPanel.onSettingsChange = () => {
+    if (replay) return;
+    if (urlSeed === null) seed = randomSeed();
     initParticles();
   };
 
+  // 导出场景快照：设置、世界大小、粒子布局和粒子数据
+  controlPanel.onExport = async () => {
+    const particles = await simulation.copyParticles();
+    const buffer = encodeSnapshot(
+      {
+        createdAt: new Date().toISOString(),
+        seed,
+        bounds: { width: viewport.worldWidth, height: viewport.worldHeight },
+        settings: { ...controlPanel.settings },
+        layout: simulation.layout,
+      },
+      particles
+    );
+
+    const url = URL.createObjectURL(new Blob([buffer]));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `particles-${seed}${SNAPSHOT_EXTENSION}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  // 导入场景快照
+  // 保存时的世界大小与当前不同时，按"窗口缩放"设置缩放或裁剪粒子
+  controlPanel.onImport = async file => {
+    if (replay) return;
+    // 导入的状态无法从输入日志重现，结束正在进行的录制
+    if (simulation.recording) inputLog = await simulation.stopRecording();
+    try {
+      const snapshot = decodeSnapshot(await file.arrayBuffer());
+      const ignored = controlPanel.applySettings(snapshot.header.settings);
+      // 粒子数量以快照中的粒子为准，不按滑块增删
+      appliedCount = Math.round(controlPanel.settings.particleCount);
+      if (ignored.length > 0) {
+        console.warn("快照中的以下设置项未被应用:", ignored);
+      }
+
+      seed = snapshot.header.seed >>> 0;
+      // 先应用作用力设置：种类数改变会重新分配种类，不能覆盖快照中的种类
+      updatePairForce();
+      const { width, height } = snapshot.header.bounds;
+      simulation.load(
+        convertParticles(snapshot, simulation.layout),
+        width,
+        height
+      );
+      fitParticles(width, height);
+    } catch (error) {
+      alert(`导入失败：${(error as Error).message}`);
+    }
+  };
+
+  // 各颜色模式下标量的取值范围
+  function colorValueRange(mode: ColorMode): [number, number] {
+    const { minRadius, maxRadius } = controlPanel.settings;
+    switch (mode) {
+      case "speed":
+        return [0, 500];
+      case "mass":
+        return [minRadius * minRadius, maxRadius * maxRadius];
+      case "species":
+        return [0, 7];
+      case "density":
+        return [1, 12];
+      case "spin":
+        return [0, 20];
+      default:
+        return [0, 1];
+    }
+  }
+
   // 创建渲染器
-  const renderer = new ParticleRenderer(canvas);
+  // URL 中带 ?instancing=0 时强制使用 CPU 顶点路径，便于对比性能
+  const renderer = new ParticleRenderer(canvas, simulation.layout, {
+    instancing: params.get("instancing") !== "0",
+  });
+
+  // 障碍物和粒子流场景（切换场景、修改发射参数或窗口大小改变时重新搭建）
+  let obstacleScene: ObstacleScene | null = null;
+  let flowSettings: string | null = null;
+  let obstacleVersion = -1;
+  let emitterVersion = -1;
+
+  function updateScene() {
+    const settings = controlPanel.settings;
+    if (settings.obstacleScene !== obstacleScene) {
+      obstacleScene = settings.obstacleScene;
+      simulation.setObstacleScene(
+        obstacleScene,
+        viewport.worldWidth,
+        viewport.worldHeight
+      );
+    }
+
+    const params: EmitterParams = {
+      rate: settings.emitRate,
+      speed: settings.emitSpeed,
+      spread: settings.emitSpread,
+      lifetime: settings.emitLifetime,
+      minRadius: settings.minRadius,
+      maxRadius: settings.maxRadius,
+    };
+    const key = JSON.stringify([settings.flowScene, params]);
+    if (key !== flowSettings) {
+      flowSettings = key;
+      simulation.setFlowScene(
+        settings.flowScene,
+        params,
+        viewport.worldWidth,
+        viewport.worldHeight
+      );
+    }
+  }
+
+  // 世界大小（设置、窗口大小或"窗口缩放"设置改变时调整现有粒子，并按新的大小重新搭建场景）
+  let appliedWorldSize = controlPanel.settings.worldSize;
+
+  function updateWorld() {
+    const { worldSize, resizePolicy } = controlPanel.settings;
+    // 固定世界时窗口大小改变不影响世界，只有切换世界大小设置时才改变
+    if (resizePolicy === "fixed" && worldSize === appliedWorldSize) return;
+
+    const { width, height } = worldSizeOf(worldSize, viewport);
+    // 窗口最小化时大小可能为 0
+    if (width <= 0 || height <= 0) return;
+    appliedWorldSize = worldSize;
+
+    const { worldWidth, worldHeight } = viewport;
+    if (width === worldWidth && height === worldHeight) return;
+    viewport.setWorld(width, height);
+    fitParticles(worldWidth, worldHeight);
+    obstacleScene = null;
+    flowSettings = null;
+  }
+
+  // 把粒子从旧的世界大小调整到当前的世界大小（固定世界时与裁剪相同）
+  function fitParticles(fromWidth: number, fromHeight: number) {
+    const { worldWidth, worldHeight } = viewport;
+    if (fromWidth === worldWidth && fromHeight === worldHeight) return;
+    simulation.resizeWorld(
+      controlPanel.settings.resizePolicy === "rescale" ? "rescale" : "clip",
+      fromWidth,
+      fromHeight,
+      worldWidth,
+      worldHeight
+    );
+  }
+
+  // 粒子间作用力（设置改变时才写入物理核心）
+  let pairForceSettings: string | null = null;
+
+  function updatePairForce() {
+    const settings = controlPanel.settings;
+    const species = Math.round(settings.speciesCount);
+    const params: PairForceParams = {
+      mode: settings.pairForce,
+      strength: settings.pairStrength,
+      range: settings.pairRange,
+      theta: settings.barnesHutTheta,
+      species,
+      matrix: attractionMatrix(settings.speciesSeed, species),
+    };
+    const key = JSON.stringify(params);
+    if (key !== pairForceSettings) {
+      pairForceSettings = key;
+      simulation.setPairForce(params);
+    }
+  }
+
+  // 粒子之间的碰撞材质（设置改变时才写入物理核心）
+  let collisionSettings: string | null = null;
+
+  function updateCollisionMaterial() {
+    const settings = controlPanel.settings;
+    const material: CollisionMaterial = {
+      restitution: settings.collisionRestitution,
+      friction: settings.collisionFriction,
+      rotation: settings.rotation === "on",
+      species: [],
+    };
+    if (settings.speciesMaterial === "on") {
+      const count = Math.round(settings.speciesCount);
+      for (let species = 0; species < count; species++) {
+        material.species.push({
+          species,
+          restitution: settings.speciesRestitution[species],
+          friction: settings.speciesFriction[species],
+        });
+      }
+    }
+    const key = JSON.stringify(material);
+    if (key !== collisionSettings) {
+      collisionSettings = key;
+      simulation.setCollisionMaterial(material);
+    }
+  }
 
-  // 鼠标交互
-  let mouseX = 0;
-  let mouseY = 0;
-  let mouseDown = false;
+  // 边界条件（设置改变时才写入物理核心）
+  let boundarySettings: string | null = null;
+
+  function updateBoundaries() {
+    const settings = controlPanel.settings;
+    const edges = [
+      ["left", settings.boundaryLeft],
+      ["right", settings.boundaryRight],
+      ["top", settings.boundaryTop],
+      ["bottom", settings.boundaryBottom],
+    ] as const;
+    const key = JSON.stringify([
+      edges,
+      settings.wallRestitution,
+      settings.wallFriction,
+    ]);
+    if (key === boundarySettings) return;
+    boundarySettings = key;
+    for (const [edge, mode] of edges) {
+      simulation.setBoundary(
+        edge,
+        mode,
+        settings.wallRestitution,
+        settings.wallFriction
+      );
+    }
+  }
+
+  // 障碍物、发射器或汇变化后重新生成绘制用的三角形
+  // 工作线程模式下三角形由物理线程生成
+  function updateSceneMesh() {
+    const version = wasm ? wasm.getObstacleVersion() : physics!.obstacleVersion;
+    if (version !== obstacleVersion) {
+      renderer.setObstacles(
+        wasm ? buildObstacleTriangles(wasm) : physics!.obstacleTriangles
+      );
+      obstacleVersion = version;
+    }
+    const flowVersion = wasm
+      ? wasm.getEmitterVersion()
+      : physics!.emitterVersion;
+    if (flowVersion !== emitterVersion) {
+      renderer.setFlowZones(
+        wasm ? buildFlowTriangles(wasm) : physics!.flowTriangles
+      );
+      emitterVersion = flowVersion;
+    }
+  }
+
+  // 把控制面板和鼠标的输入交给模拟器（回放时输入来自日志）
+  function applyInputs() {
+    const settings = controlPanel.settings;
+
+    // 重力（向下，单位：像素/秒²）
+    simulation.gravityY = settings.gravity;
+    simulation.substeps = Math.round(settings.substeps);
+
+    // 实时更新阻尼系数
+    simulation.damping = settings.damping;
+
+    // 世界大小
+    updateWorld();
+
+    // 粒子数量滑块改变时增删粒子，不重新初始化
+    const count = Math.round(settings.particleCount);
+    if (count !== appliedCount) {
+      simulation.setParticleCount(
+        count,
+        viewport.worldWidth,
+        viewport.worldHeight
+      );
+      appliedCount = count;
+    }
 
-  canvas.addEventListener("mousemove", e => {
-    mouseX = e.clientX;
-    mouseY = e.clientY;
+    updateBoundaries();
+
+    // 每个按下的指针都使用当前工具
+    const { tool, toolRadius, toolStrength } = settings;
+    simulation.pointers = [...activePointers].map(([id, client]) => ({
+      id,
+      tool,
+      ...viewport.toWorld(client.x, client.y),
+      radius: toolRadius,
+      strength: toolStrength,
+    }));
+
+    // 障碍物与粒子流
+    updateScene();
+    updatePairForce();
+    updateCollisionMaterial();
+  }
+
+  // 录制与回放
+  const replayBar = new ReplayBar();
+  let inputLog: InputLog | null = null;
+  let replay: Replay | null = null;
+
+  // 开始录制时重置粒子，让日志从一个由种子决定的初始状态开始
+  replayBar.onRecordToggle = async () => {
+    if (simulation.recording) {
+      inputLog = await simulation.stopRecording();
+    } else {
+      applyInputs();
+      simulation.startRecording();
+      initParticles();
+    }
+  };
+
+  replayBar.onPlay = () => {
+    if (!inputLog) return;
+    // 回放需要在每个物理步之前注入事件，只能在主线程的模拟器上进行
+    if (!(simulation instanceof Simulation)) {
+      alert("工作线程模式下不支持回放，请去掉 URL 中的 worker 参数后载入日志");
+      return;
+    }
+    replay?.dispose();
+    replay = new Replay(simulation, inputLog);
+  };
+
+  replayBar.onPauseToggle = () => {
+    if (replay) togglePause();
+  };
+
+  replayBar.onStep = () => {
+    if (replay) stepFrame();
+  };
+
+  replayBar.onSeek = step => {
+    if (!replay) return;
+    replay.paused = true;
+    replay.seek(step);
+  };
+
+  // 退出回放后恢复控制面板的设置，粒子保持回放结束时的状态
+  replayBar.onExit = () => {
+    replay?.dispose();
+    replay = null;
+    simulation.fixedStep = 1 / 60;
+    obstacleScene = null;
+    flowSettings = null;
+    pairForceSettings = null;
+    collisionSettings = null;
+    boundarySettings = null;
+  };
+
+  replayBar.onSave = () => {
+    if (!inputLog) return;
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(inputLog)], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `input-${seed}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  replayBar.onLoad = async file => {
+    try {
+      inputLog = parseInputLog(await file.text());
+    } catch (error) {
+      alert(`载入失败：${(error as Error).message}`);
+    }
+  };
+
+  // 指针交互（鼠标、触摸和触控笔）
+  // 每个按下的指针独立使用当前工具，多点触控时可以同时作用于多个位置
+  // 保存的是 clientX / clientY，每帧经相机转换为世界坐标，
+  // 相机移动（例如跟随粒子）时指针下的世界位置随之改变
+  const activePointers = new Map<number, { x: number; y: number }>();
+  // 平移相机的指针（按住 Shift 或鼠标中键拖动）和上一次的位置
+  const panPointers = new Map<number, { x: number; y: number }>();
+  // 鼠标悬停的位置，只用于显示工具范围
+  let hover: { x: number; y: number } | null = null;
+  const toolOverlay = new ToolOverlay();
+  const inspector = new Inspector();
+
+  // 阻止触摸时浏览器的滚动和缩放手势
+  canvas.style.touchAction = "none";
+
+  canvas.addEventListener("pointerdown", e => {
+    const pan = e.shiftKey || e.button === 1;
+    if (e.pointerType === "mouse" && e.button !== 0 && !pan) return;
+    // 捕获指针：拖出画布后仍然能收到移动和抬起事件
+    canvas.setPointerCapture(e.pointerId);
+    if (pan) {
+      // 阻止中键的自动滚动
+      e.preventDefault();
+      panPointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    } else if (e.altKey) {
+      // Alt + 点击选中指针下的粒子（检查器和相机跟随的目标），点击空白处取消选择
+      const { x, y } = viewport.toWorld(e.clientX, e.clientY);
+      simulation.select(x, y);
+    } else {
+      activePointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
   });
 
-  canvas.addEventListener("mousedown", () => (mouseDown = true));
-  canvas.addEventListener("mouseup", () => (mouseDown = false));
-  canvas.addEventListener("mouseleave", () => (mouseDown = false));
+  canvas.addEventListener("pointermove", e => {
+    const panPointer = panPointers.get(e.pointerId);
+    if (panPointer) {
+      viewport.panBy(e.clientX - panPointer.x, e.clientY - panPointer.y);
+      viewport.camera.following = false;
+      panPointer.x = e.clientX;
+      panPointer.y = e.clientY;
+    }
+    const pointer = activePointers.get(e.pointerId);
+    if (pointer) {
+      pointer.x = e.clientX;
+      pointer.y = e.clientY;
+    }
+    if (e.pointerType === "mouse") hover = { x: e.clientX, y: e.clientY };
+  });
+
+  const releasePointer = (e: PointerEvent) => {
+    activePointers.delete(e.pointerId);
+    panPointers.delete(e.pointerId);
+  };
+  canvas.addEventListener("pointerup", releasePointer);
+  canvas.addEventListener("pointercancel", releasePointer);
+  canvas.addEventListener("pointerleave", e => {
+    if (e.pointerType === "mouse") hover = null;
+  });
+
+  // 滚轮以指针下的点为中心缩放
+  canvas.addEventListener(
+    "wheel",
+    e => {
+      e.preventDefault();
+      // 按行滚动的设备（deltaMode 为行）每行约 16 像素
+      const delta =
+        e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      viewport.zoomAt(e.clientX, e.clientY, Math.exp(-delta * 0.0015));
+    },
+    { passive: false }
+  );
+
+  // 暂停与单步
+  // 回放时操作回放自身的暂停状态，否则操作实时模拟
+  let paused = false;
+
+  function togglePause() {
+    if (replay) {
+      replay.paused = !replay.paused;
+    } else {
+      paused = !paused;
+    }
+  }
+
+  // 暂停并向前执行一个物理步
+  function stepFrame() {
+    if (replay) {
+      replay.paused = true;
+      replay.stepForward();
+    } else {
+      paused = true;
+      applyInputs();
+      simulation.stepOnce(viewport.worldWidth, viewport.worldHeight);
+    }
+  }
+
+  // 按 0.1 调整时间倍率（范围与控制面板的滑块一致）
+  function adjustTimeScale(delta: number) {
+    const value = controlPanel.settings.timeScale + delta;
+    controlPanel.applySettings({
+      timeScale: Math.min(Math.max(Math.round(value * 10) / 10, 0.1), 4),
+    });
+  }
 
   // 键盘快捷键
   window.addEventListener("keydown", e => {
-    if (e.key === "h" || e.key === "H") {
-      controlPanel.toggle();
+    // 焦点在输入控件上时不处理，避免和滑块、下拉框的键盘操作冲突
+    if (
+      e.target instanceof HTMLInputElement ||
+      e.target instanceof HTMLSelectElement
+    ) {
+      return;
     }
-  });
 
-  // 窗口大小调整
-  window.addEventListener("resize", () => {
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
+    switch (e.key) {
+      case "h":
+      case "H":
+        controlPanel.toggle();
+        replayBar.toggle();
+        break;
+      case " ":
+        // 阻止空格触发当前聚焦的按钮
+        e.preventDefault();
+        togglePause();
+        break;
+      case ".":
+        stepFrame();
+        break;
+      case "[":
+        adjustTimeScale(-0.1);
+        break;
+      case "]":
+        adjustTimeScale(0.1);
+        break;
+      case "f":
+      case "F":
+        viewport.camera.following = !viewport.camera.following;
+        break;
+      case "0":
+        viewport.resetCamera();
+        break;
+    }
   });
 
   // 动画循环
@@ -406,39 +662,131 @@ async function main() {
       fpsUpdateTime = currentTime;
     }
 
-    // 应用重力（向下）
-    wasm.applyGravity(0, controlPanel.settings.gravity);
-
-    // 实时更新阻尼系数
-    wasm.setDamping(controlPanel.settings.damping);
+    // 按固定步长推进物理（时间倍率只改变推进速度，不改变步长）
+    // 暂停时不推进，但仍然继续渲染
+    // 回放时显示日志中的世界大小
+    const scaledTime = deltaTime * controlPanel.settings.timeScale;
+    if (replay) {
+      replay.advance(scaledTime);
+      viewport.setWorld(replay.worldWidth, replay.worldHeight);
+    } else {
+      applyInputs();
+      if (!paused) {
+        simulation.advance(
+          scaledTime,
+          viewport.worldWidth,
+          viewport.worldHeight
+        );
+      }
+    }
+    updateSceneMesh();
+
+    // 工具范围：按下的指针（回放时来自日志），以及鼠标悬停的位置
+    const circles: ToolCircle[] = simulation.pointers.map(pointer => ({
+      ...pointer,
+      active: true,
+    }));
+    if (hover && !replay && activePointers.size === 0) {
+      circles.push({
+        tool: controlPanel.settings.tool,
+        ...viewport.toWorld(hover.x, hover.y),
+        radius: controlPanel.settings.toolRadius,
+        active: false,
+      });
+    }
+    toolOverlay.update(
+      circles.map(circle => ({
+        ...circle,
+        ...viewport.toClient(circle.x, circle.y),
+        radius: circle.radius * viewport.cssScale,
+      }))
+    );
 
-    // 鼠标交互
-    if (mouseDown) {
-      wasm.applyForce(mouseX, mouseY, 150, 150);
+    replayBar.update({
+      recording: simulation.recording,
+      position: replay ? replay.position : simulation.recordedSteps,
+      length: replay ? replay.length : null,
+      paused: replay?.paused ?? false,
+      hasLog: inputLog !== null,
+    });
+
+    // 渲染方式；液面按自己的颜色来源（速度或种类）在调色板中取色
+    const colorMode =
+      controlPanel.settings.renderMode === "fluid"
+        ? controlPanel.settings.fluidColor
+        : controlPanel.settings.colorMode;
+    renderer.mode = controlPanel.settings.renderMode;
+    renderer.fluidThreshold = controlPanel.settings.fluidThreshold;
+
+    // 颜色模式与调色板
+    renderer.colorMode = colorMode;
+    renderer.valueRange = colorValueRange(colorMode);
+    renderer.setPalette(PALETTES[controlPanel.settings.palette].stops);
+    renderer.showVelocities = controlPanel.settings.velocityVectors === "on";
+
+    // 视觉效果：拖尾保留比例按 60 FPS 设定，换算到实际的帧间隔，
+    // 拖尾的持续时间与帧率无关
+    const settings = controlPanel.settings;
+    renderer.effects = {
+      trails: settings.trails === "on",
+      trailDecay: settings.trailDecay ** (deltaTime * 60),
+      glow: settings.glow === "on",
+      glowIntensity: settings.glowIntensity,
+      bloom: settings.bloom === "on",
+      bloomThreshold: settings.bloomThreshold,
+      bloomIntensity: settings.bloomIntensity,
+      bloomRadius: settings.bloomRadius,
+    };
+
+    // 跟随选中的粒子：相机中心移到它插值后的位置
+    const particles = simulation.getRenderParticles();
+    const selected = simulation.selected;
+    if (viewport.camera.following && selected >= 0) {
+      const { stride, offsets } = simulation.layout;
+      viewport.camera.centerX = particles[selected * stride + offsets.x];
+      viewport.camera.centerY = particles[selected * stride + offsets.y];
     }
 
-    // 更新物理（使用当前阻尼设置）
-    wasm.updateParticles(deltaTime, canvas.width, canvas.height);
+    // 选中的粒子：渲染时高亮，检查器显示它的属性
+    renderer.selected = selected;
+    inspector.update(simulation.inspect());
 
-    // 获取粒子数据
-    const particlesPtr = wasm.getParticlesPtr();
-    const memory = new Float32Array(
-      wasm.memory.buffer,
-      particlesPtr,
-      PARTICLE_COUNT * PARTICLE_SIZE
+    // 渲染（使用插值后的粒子数据）
+    renderer.render(
+      particles,
+      simulation.count,
+      viewport.cameraMatrix,
+      viewport.pixelRect
     );
 
-    // 渲染
-    renderer.render(memory, PARTICLE_COUNT, canvas.width, canvas.height);
+    // 模拟状态
+    const state = (replay ? replay.paused : paused)
+      ? "已暂停"
+      : `运行中 ×${controlPanel.settings.timeScale.toFixed(1)}`;
+
+    // 相机跟随状态
+    let follow = "";
+    if (viewport.camera.following) {
+      follow =
+        selected >= 0 ? `，跟随粒子 #${selected}` : "，跟随（未选中粒子）";
+    }
 
     // 更新UI
     ui.innerHTML = `
-      粒子数量: ${PARTICLE_COUNT}<br>
+      粒子数量: ${simulation.count}<br>
+      种子: ${seed}<br>
       FPS: ${fps}<br>
-      重力: ${controlPanel.settings.gravity.toFixed(1)}<br>
+      状态: ${state}<br>
+      物理步: ${simulation.stepCount}<br>
+      物理: ${physicsMode}<br>
+      世界: ${viewport.worldWidth} × ${viewport.worldHeight}（DPR ${viewport.devicePixelRatio}）<br>
+      相机: ×${viewport.camera.zoom.toFixed(2)}${follow}<br>
+      重力: ${controlPanel.settings.gravity.toFixed(0)} px/s²<br>
       阻尼: ${controlPanel.settings.damping.toFixed(3)}<br>
       <br>
-      鼠标点击拖动以推动粒子<br>
+      ${replay ? `回放: 第 ${replay.position} / ${replay.length} 步<br>` : ""}
+      工具: ${TOOLS[controlPanel.settings.tool].label}（按住画布使用）<br>
+      渲染: ${renderer.pathName}<br>
       使用 WebAssembly + WebGL
     `;
 
@@ -448,4 +796,27 @@ async function main() {
   animate();
 }
 
+// 加载单线程的物理核心
+async function loadWasm(simd: boolean) {
+  const response = await fetch(simd ? simdWasmUrl : wasmUrl);
+  const wasmBytes = await response.arrayBuffer();
+  const wasmModule = await WebAssembly.instantiate(wasmBytes, {
+    env: {
+      abort: () => console.error("AssemblyScript abort"),
+    },
+  });
+
+  return wasmModule.instance.exports as typeof asModule;
+}
+
+// 检测 WebAssembly SIMD：一个只包含 v128 指令的最小模块能否通过验证
+function supportsSimd() {
+  return WebAssembly.validate(
+    new Uint8Array([
+      0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10,
+      1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+    ])
+  );
+}
+
 main().catch(console.error);
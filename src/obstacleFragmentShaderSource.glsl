@@ -0,0 +1,13 @@
+/**
+ * 障碍物片段着色器
+ *
+ * 每批三角形使用同一种颜色：障碍物为不透明的纯色，发射器和汇为半透明的区域
+ */
+
+precision mediump float;
+
+uniform vec4 u_color;  // 颜色 (r, g, b, a)
+
+void main() {
+    gl_FragColor = u_color;
+}
\ No newline at end of file
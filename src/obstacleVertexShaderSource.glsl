@@ -0,0 +1,15 @@
+/**
+ * 障碍物顶点着色器
+ *
+ * 障碍物已经在 CPU 上拆分为三角形（见 src/obstacles.ts），
+ * 这里只需要把像素坐标转换到裁剪空间
+ */
+
+attribute vec2 a_position;  // 顶点的世界坐标 (x, y)
+
+uniform mat3 u_camera;      // 相机变换：世界坐标 -> 裁剪空间（见 Viewport.ts）
+
+void main() {
+    // 世界坐标 -> 裁剪空间（与粒子着色器相同）
+    gl_Position = vec4((u_camera * vec3(a_position, 1.0)).xy, 0, 1);
+}
\ No newline at end of file
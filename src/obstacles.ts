@@ -0,0 +1,192 @@
+import type asModule from "../build/release.d";
+
+type WasmExports = typeof asModule;
+
+/**
+ * 障碍物场景与绘制数据
+ *
+ * 障碍物保存在 WebAssembly 模块中（见 assembly/obstacles.ts），
+ * 这里提供预设场景，以及把障碍物几何转换为三角形的函数
+ */
+
+// 预设场景：按世界大小摆放障碍物
+export const OBSTACLE_SCENES = {
+  none: {
+    label: "无",
+    build: () => {},
+  },
+  funnel: {
+    label: "漏斗",
+    build: (wasm: WasmExports, width: number, height: number) => {
+      const thickness = 4;
+      wasm.addSegment(
+        width * 0.2,
+        height * 0.25,
+        width * 0.46,
+        height * 0.5,
+        thickness
+      );
+      wasm.addSegment(
+        width * 0.8,
+        height * 0.25,
+        width * 0.54,
+        height * 0.5,
+        thickness
+      );
+
+      // 出口下方的三角形分流器
+      const size = Math.min(width, height) * 0.06;
+      polygon(wasm, [
+        [width / 2, height * 0.65 - size],
+        [width / 2 + size, height * 0.65 + size * 0.5],
+        [width / 2 - size, height * 0.65 + size * 0.5],
+      ]);
+    },
+  },
+  galton: {
+    label: "高尔顿板",
+    build: (wasm: WasmExports, width: number, height: number) => {
+      const spacing = 40;
+      const pegRadius = 5;
+
+      // 交错排列的钉子
+      let row = 0;
+      for (let y = height * 0.25; y < height * 0.7; y += spacing * 0.87) {
+        const shift = row % 2 === 0 ? 0 : spacing / 2;
+        for (let x = spacing / 2 + shift; x < width; x += spacing) {
+          wasm.addCircleObstacle(x, y, pegRadius);
+        }
+        row++;
+      }
+
+      // 底部的收集槽
+      for (let x = spacing; x < width; x += spacing) {
+        wasm.addSegment(x, height * 0.78, x, height, 2);
+      }
+    },
+  },
+  hourglass: {
+    label: "沙漏",
+    build: (wasm: WasmExports, width: number, height: number) => {
+      const thickness = 5;
+      const neck = Math.max(width * 0.02, 12);
+      const cx = width / 2;
+      const cy = height / 2;
+      const left = width * 0.25;
+      const right = width * 0.75;
+      const top = height * 0.08;
+      const bottom = height * 0.92;
+
+      wasm.addSegment(left, top, cx - neck, cy, thickness);
+      wasm.addSegment(cx - neck, cy, left, bottom, thickness);
+      wasm.addSegment(right, top, cx + neck, cy, thickness);
+      wasm.addSegment(cx + neck, cy, right, bottom, thickness);
+    },
+  },
+} as const;
+
+export type ObstacleScene = keyof typeof OBSTACLE_SCENES;
+
+/**
+ * 清除现有障碍物并搭建预设场景
+ */
+export function buildObstacleScene(
+  wasm: WasmExports,
+  scene: ObstacleScene,
+  width: number,
+  height: number
+) {
+  wasm.clearObstacles();
+  OBSTACLE_SCENES[scene].build(wasm, width, height);
+}
+
+/**
+ * 添加凸多边形障碍物，返回 id（不是凸多边形时返回 -1）
+ */
+export function polygon(wasm: WasmExports, points: [number, number][]) {
+  wasm.beginPolygon();
+  for (const [x, y] of points) wasm.addPolygonVertex(x, y);
+  return wasm.endPolygon();
+}
+
+// 圆形近似为多少段
+const CIRCLE_SEGMENTS = 32;
+
+/**
+ * 把所有障碍物转换为三角形（每个顶点 2 个 float：x, y）
+ *
+ * 障碍物很少变化，只需在 getObstacleVersion() 改变时重新生成
+ */
+export function buildObstacleTriangles(wasm: WasmExports): Float32Array {
+  const vertices: number[] = [];
+  const slots = wasm.getObstacleSlots();
+
+  for (let id = 0; id < slots; id++) {
+    const kind = wasm.getObstacleKind(id);
+    const radius = wasm.getObstacleRadius(id);
+    const count = wasm.getObstaclePointCount(id);
+    const points: [number, number][] = [];
+    for (let i = 0; i < count; i++) {
+      points.push([
+        wasm.getObstaclePointX(id, i),
+        wasm.getObstaclePointY(id, i),
+      ]);
+    }
+
+    switch (kind) {
+      case wasm.OBSTACLE_CIRCLE.value:
+        pushCircle(vertices, points[0], radius);
+        break;
+      case wasm.OBSTACLE_SEGMENT.value:
+        pushCapsule(vertices, points[0], points[1], Math.max(radius, 1));
+        break;
+      case wasm.OBSTACLE_POLYGON.value:
+        pushFan(vertices, points);
+        break;
+    }
+  }
+  return new Float32Array(vertices);
+}
+
+// 凸多边形按扇形拆分为三角形
+export function pushFan(vertices: number[], points: [number, number][]) {
+  for (let i = 1; i + 1 < points.length; i++) {
+    vertices.push(...points[0], ...points[i], ...points[i + 1]);
+  }
+}
+
+export function pushCircle(
+  vertices: number[],
+  [x, y]: [number, number],
+  radius: number
+) {
+  const points: [number, number][] = [];
+  for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+    const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+    points.push([x + Math.cos(angle) * radius, y + Math.sin(angle) * radius]);
+  }
+  pushFan(vertices, points);
+}
+
+// 胶囊 = 矩形 + 两端的圆
+export function pushCapsule(
+  vertices: number[],
+  a: [number, number],
+  b: [number, number],
+  radius: number
+) {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const length = Math.hypot(dx, dy) || 1;
+  const nx = (-dy / length) * radius;
+  const ny = (dx / length) * radius;
+
+  pushFan(vertices, [
+    [a[0] + nx, a[1] + ny],
+    [b[0] + nx, b[1] + ny],
+    [b[0] - nx, b[1] - ny],
+    [a[0] - nx, a[1] - ny],
+  ]);
+  pushCircle(vertices, a, radius);
+  pushCircle(vertices, b, radius);
+}
@@ -0,0 +1,88 @@
+/**
+ * 颜色模式与调色板
+ *
+ * 除了 "particle" 模式直接使用粒子自身存储的颜色，
+ * 其他模式都会把某个标量（速度、质量……）归一化到 [0, 1]，再到调色板纹理中查找颜色
+ */
+
+export const COLOR_MODES = {
+  particle: "粒子颜色",
+  speed: "速度",
+  mass: "质量",
+  species: "种类",
+  density: "局部密度",
+  spin: "角速度",
+} as const;
+
+export type ColorMode = keyof typeof COLOR_MODES;
+
+// 调色板：按顺序均匀分布的颜色节点，每个分量范围 [0, 1]
+export type Palette = [number, number, number][];
+
+export const PALETTES = {
+  coolwarm: {
+    label: "冷暖",
+    stops: [
+      [0.2, 0.4, 1.0],
+      [0.4, 0.7, 1.0],
+      [0.9, 0.9, 0.9],
+      [1.0, 0.6, 0.3],
+      [1.0, 0.2, 0.2],
+    ],
+  },
+  fire: {
+    label: "火焰",
+    stops: [
+      [0.3, 0.0, 0.0],
+      [0.9, 0.2, 0.0],
+      [1.0, 0.7, 0.1],
+      [1.0, 1.0, 0.8],
+    ],
+  },
+  viridis: {
+    label: "翠绿",
+    stops: [
+      [0.27, 0.0, 0.33],
+      [0.23, 0.32, 0.55],
+      [0.13, 0.57, 0.55],
+      [0.37, 0.79, 0.38],
+      [0.99, 0.91, 0.14],
+    ],
+  },
+  rainbow: {
+    label: "彩虹",
+    stops: [
+      [1.0, 0.3, 0.3],
+      [1.0, 0.8, 0.2],
+      [0.3, 1.0, 0.4],
+      [0.2, 0.8, 1.0],
+      [0.5, 0.3, 1.0],
+      [1.0, 0.3, 0.8],
+    ],
+  },
+} satisfies Record<string, { label: string; stops: Palette }>;
+
+export type PaletteName = keyof typeof PALETTES;
+
+/**
+ * 把调色板节点线性插值为 size 个 RGBA 像素，用作 1D 纹理
+ */
+export function buildPaletteTexels(stops: Palette, size = 256): Uint8Array {
+  const texels = new Uint8Array(size * 4);
+
+  for (let i = 0; i < size; i++) {
+    // 当前像素在节点之间的位置
+    const t = (i / (size - 1)) * (stops.length - 1);
+    const index = Math.min(Math.floor(t), stops.length - 2);
+    const frac = t - index;
+    const a = stops[index];
+    const b = stops[index + 1];
+
+    for (let c = 0; c < 3; c++) {
+      texels[i * 4 + c] = Math.round((a[c] + (b[c] - a[c]) * frac) * 255);
+    }
+    texels[i * 4 + 3] = 255;
+  }
+
+  return texels;
+}
@@ -0,0 +1,176 @@
+import type asModule from "../build/release.d";
+import { Simulation } from "./Simulation";
+import { buildObstacleTriangles } from "./obstacles";
+import { buildFlowTriangles } from "./emitters";
+import type {
+  PhysicsCommand,
+  PhysicsFrame,
+  PhysicsRequest,
+} from "./PhysicsWorker";
+
+type WasmExports = typeof asModule;
+
+/**
+ * 物理线程（由 PhysicsWorker 创建）
+ *
+ * 1. 收到编译好的模块和共享内存后实例化，回复主线程
+ * 2. 收到 start 后执行启动函数，创建 Simulation，回复粒子布局和碰撞检测的共享上下文
+ * 3. 之后逐个处理请求，每个请求回复一个 PhysicsFrame
+ */
+const scope = self as unknown as Worker;
+
+let wasm: WasmExports;
+let simulation: Simulation;
+
+// 渲染缓冲区：两个槽，每个槽 slotFloats 个 float
+let buffer = new SharedArrayBuffer(0);
+let slotFloats = 0;
+let slot = 1;
+
+let obstacleVersion = -1;
+let emitterVersion = -1;
+
+scope.onmessage = async ({ data }) => {
+  const { module, memory } = data as {
+    module: WebAssembly.Module;
+    memory: WebAssembly.Memory;
+  };
+  const instance = await WebAssembly.instantiate(module, {
+    env: {
+      memory,
+      abort: () => console.error("AssemblyScript abort"),
+    },
+  });
+  wasm = instance.exports as unknown as WasmExports;
+  scope.onmessage = start;
+  scope.postMessage(null);
+};
+
+function start() {
+  (wasm as unknown as { _start(): void })._start();
+  simulation = new Simulation(wasm);
+  scope.onmessage = ({ data }) => handle(data);
+  scope.postMessage({
+    layout: simulation.layout,
+    context: wasm.getCollisionContext(),
+  });
+}
+
+function handle({ inputs, commands, advance }: PhysicsRequest) {
+  simulation.fixedStep = inputs.fixedStep;
+  simulation.substeps = inputs.substeps;
+  simulation.gravityX = inputs.gravityX;
+  simulation.gravityY = inputs.gravityY;
+  simulation.damping = inputs.damping;
+  simulation.pointers = inputs.pointers;
+
+  const replies: PhysicsFrame["replies"] = [];
+  for (const command of commands) {
+    const value = execute(command);
+    if ("id" in command) replies.push({ id: command.id, value });
+  }
+  if (advance) {
+    simulation.advance(advance.frameTime, advance.width, advance.height);
+  }
+
+  const frame: PhysicsFrame = {
+    count: simulation.count,
+    selected: simulation.selected,
+    inspected: simulation.inspect(),
+    stepCount: simulation.stepCount,
+    recordedSteps: simulation.recordedSteps,
+    slot: 0,
+    replies,
+  };
+  publish(frame, simulation.getRenderParticles());
+
+  const version = wasm.getObstacleVersion();
+  if (version !== obstacleVersion) {
+    frame.obstacles = buildObstacleTriangles(wasm);
+    obstacleVersion = version;
+  }
+  const flowVersion = wasm.getEmitterVersion();
+  if (flowVersion !== emitterVersion) {
+    frame.flow = buildFlowTriangles(wasm);
+    emitterVersion = flowVersion;
+  }
+
+  scope.postMessage(frame);
+}
+
+function execute(command: PhysicsCommand): unknown {
+  switch (command.type) {
+    case "reset":
+      simulation.reset(command.options);
+      break;
+    case "load":
+      simulation.load(command.particles, command.width, command.height);
+      break;
+    case "count":
+      simulation.setParticleCount(command.count, command.width, command.height);
+      break;
+    case "resizeWorld":
+      simulation.resizeWorld(
+        command.mode,
+        command.fromWidth,
+        command.fromHeight,
+        command.width,
+        command.height
+      );
+      break;
+    case "boundary":
+      simulation.setBoundary(
+        command.edge,
+        command.mode,
+        command.restitution,
+        command.friction
+      );
+      break;
+    case "obstacles":
+      simulation.setObstacleScene(command.scene, command.width, command.height);
+      break;
+    case "flow":
+      simulation.setFlowScene(
+        command.scene,
+        command.params,
+        command.width,
+        command.height
+      );
+      break;
+    case "pairForce":
+      simulation.setPairForce(command.params);
+      break;
+    case "collision":
+      simulation.setCollisionMaterial(command.material);
+      break;
+    case "select":
+      simulation.select(command.x, command.y);
+      break;
+    case "step":
+      simulation.stepOnce(command.width, command.height);
+      break;
+    case "startRecording":
+      simulation.startRecording();
+      break;
+    case "stopRecording":
+      return simulation.stopRecording();
+    case "copy":
+      return simulation.copyParticles();
+  }
+}
+
+// 把插值后的粒子数据写入另一个槽（主线程正在读取的槽保持不变）
+// 每帧多复制一次粒子数据是有意的：插值结果本来就在 wasm 内存之外，
+// 而 wasm 内存中的粒子在下一次请求中会被物理线程和辅助线程改写，主线程直接读取会看到写了一半的数据
+function publish(frame: PhysicsFrame, particles: Float32Array) {
+  if (particles.length > slotFloats) {
+    slotFloats = Math.max(particles.length, slotFloats * 2);
+    buffer = new SharedArrayBuffer(slotFloats * 2 * 4);
+    frame.buffer = buffer;
+  }
+  slot ^= 1;
+  new Float32Array(buffer, slot * slotFloats * 4, particles.length).set(
+    particles
+  );
+  frame.slot = slot;
+}
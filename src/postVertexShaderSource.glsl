@@ -0,0 +1,15 @@
+/**
+ * 后期处理顶点着色器
+ *
+ * 绘制覆盖整个渲染目标的四边形（两个三角形），
+ * 片段着色器按纹理坐标读取上一步的结果
+ */
+
+attribute vec2 a_position;  // 裁剪空间坐标，范围 [-1, 1]
+
+varying vec2 v_uv;          // 纹理坐标，范围 [0, 1]
+
+void main() {
+    gl_Position = vec4(a_position, 0, 1);
+    v_uv = a_position * 0.5 + 0.5;
+}
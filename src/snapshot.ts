@@ -0,0 +1,270 @@
+import {
+  ParticleView,
+  type ParticleField,
+  type ParticleLayout,
+} from "./ParticleLayout";
+
+/**
+ * 场景快照格式
+ *
+ * 文件由三部分组成（整数均为小端序）：
+ *
+ *   偏移 0   4 字节   魔数 "PSNP"
+ *   偏移 4   4 字节   头部长度 n（uint32）
+ *   偏移 8   n 字节   头部 JSON（UTF-8），见 SnapshotHeader
+ *   ...      0-3 字节 填充到 4 字节对齐
+ *   ...               粒子数据，particleCount × layout.stride 个 float32
+ *
+ * 粒子数据按头部记录的布局存放，导入时按字段名转换到当前布局，
+ * 所以增加或调整粒子字段后旧快照仍然可以导入
+ */
+
+// 当前快照格式版本，头部结构不兼容地改变时递增，并在 MIGRATIONS 中添加升级函数
+export const SNAPSHOT_VERSION = 1;
+
+// 快照文件的扩展名
+export const SNAPSHOT_EXTENSION = ".psnp";
+
+const MAGIC = "PSNP";
+const FORMAT = "particle-snapshot";
+
+export interface SnapshotHeader {
+  format: typeof FORMAT;
+  version: number;
+  createdAt: string;
+  seed: number;
+  // 保存时的世界大小（像素）
+  bounds: { width: number; height: number };
+  // 控制面板设置（导入时只应用仍然存在的设置项）
+  settings: Record<string, unknown>;
+  // 粒子数据使用的内存布局
+  layout: ParticleLayout;
+  particleCount: number;
+}
+
+export interface Snapshot {
+  header: SnapshotHeader;
+  // 按 header.layout 存放的粒子数据
+  particles: Float32Array;
+}
+
+// 旧版本头部的升级函数：MIGRATIONS[n] 把版本 n 的头部升级到版本 n + 1
+// 头部来自文件，升级函数不能假设字段存在，升级后的结果由 validateHeader 检查
+const MIGRATIONS: Record<
+  number,
+  (header: Record<string, unknown>) => Record<string, unknown>
+> = {};
+
+// 粒子布局中必须有的字段（其他字段缺少时使用默认值，见 convertParticles）
+const REQUIRED_FIELDS: ParticleField[] = ["x", "y", "vx", "vy", "radius"];
+
+// 当前布局中有、快照布局中没有的字段使用的默认值（质量另外按半径计算）
+const FIELD_DEFAULTS: Partial<Record<ParticleField, number>> = {
+  colorR: 0.4,
+  colorG: 0.7,
+  colorB: 1.0,
+};
+
+/**
+ * 编码快照
+ */
+export function encodeSnapshot(
+  header: Omit<SnapshotHeader, "format" | "version" | "particleCount">,
+  particles: Float32Array
+): ArrayBuffer {
+  const particleCount = particles.length / header.layout.stride;
+  const json = new TextEncoder().encode(
+    JSON.stringify({
+      format: FORMAT,
+      version: SNAPSHOT_VERSION,
+      ...header,
+      particleCount,
+    })
+  );
+
+  const payloadOffset = align4(8 + json.length);
+  const buffer = new ArrayBuffer(payloadOffset + particles.byteLength);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < MAGIC.length; i++) bytes[i] = MAGIC.charCodeAt(i);
+  view.setUint32(4, json.length, true);
+  bytes.set(json, 8);
+  new Float32Array(buffer, payloadOffset, particles.length).set(particles);
+  return buffer;
+}
+
+/**
+ * 解码快照
+ *
+ * 格式不正确、来自更新的版本或数据不完整时抛出错误，错误信息可以直接显示给用户
+ */
+export function decodeSnapshot(buffer: ArrayBuffer): Snapshot {
+  const bytes = new Uint8Array(buffer);
+  const magic = String.fromCharCode(...bytes.subarray(0, 4));
+  if (buffer.byteLength < 8 || magic !== MAGIC) {
+    throw new Error("不是粒子场景快照文件");
+  }
+
+  const view = new DataView(buffer);
+  const headerLength = view.getUint32(4, true);
+  if (8 + headerLength > buffer.byteLength) {
+    throw new Error("快照文件已损坏：头部不完整");
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(
+      new TextDecoder().decode(bytes.subarray(8, 8 + headerLength))
+    );
+  } catch {
+    throw new Error("快照文件已损坏：头部不是有效的 JSON");
+  }
+  if (
+    !isRecord(json) ||
+    json.format !== FORMAT ||
+    !Number.isInteger(json.version)
+  ) {
+    throw new Error("快照文件已损坏：缺少格式或版本信息");
+  }
+
+  const header = validateHeader(migrateHeader(json));
+
+  const { stride } = header.layout;
+  const floats = header.particleCount * stride;
+  const payloadOffset = align4(8 + headerLength);
+  if (payloadOffset + floats * 4 > buffer.byteLength) {
+    throw new Error("快照文件已损坏：粒子数据不完整");
+  }
+
+  return {
+    header,
+    particles: new Float32Array(
+      buffer.slice(payloadOffset, payloadOffset + floats * 4)
+    ),
+  };
+}
+
+/**
+ * 把快照中的粒子数据转换为目标布局
+ *
+ * 布局相同时直接返回原数据；否则按字段名逐个复制，缺少的字段使用默认值
+ */
+export function convertParticles(
+  snapshot: Snapshot,
+  layout: ParticleLayout
+): Float32Array {
+  const source = new ParticleView(snapshot.particles, snapshot.header.layout);
+  if (sameLayout(source.layout, layout)) return snapshot.particles;
+
+  const count = source.count;
+  const target = new ParticleView(
+    new Float32Array(count * layout.stride),
+    layout
+  );
+  const fields = Object.keys(layout.offsets) as ParticleField[];
+
+  for (let i = 0; i < count; i++) {
+    for (const field of fields) {
+      if (field in source.layout.offsets) {
+        target.set(i, field, source.get(i, field));
+      } else if (field === "mass") {
+        const radius = target.get(i, "radius");
+        target.set(i, field, radius * radius);
+      } else {
+        target.set(i, field, FIELD_DEFAULTS[field] ?? 0);
+      }
+    }
+  }
+  return target.data;
+}
+
+// 逐个版本升级头部，拒绝来自更新版本或无法升级的快照
+function migrateHeader(
+  header: Record<string, unknown>
+): Record<string, unknown> {
+  let version = header.version as number;
+  if (version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `快照版本 ${version} 比当前支持的版本 ${SNAPSHOT_VERSION} 新，请更新程序后再导入`
+    );
+  }
+  while (version < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`不再支持版本 ${version} 的快照`);
+    }
+    version++;
+    header = { ...migrate(header), version };
+  }
+  return header;
+}
+
+// 检查头部中之后会直接使用的字段，不合法时拒绝整个文件
+// （例如 particleCount 为 NaN 时"数据不完整"的比较总是 false，文件会被当成空场景导入）
+function validateHeader(header: Record<string, unknown>): SnapshotHeader {
+  const { layout, particleCount, bounds, settings, seed } = header;
+  if (!isRecord(layout) || !isRecord(layout.offsets)) {
+    throw corrupted("缺少粒子布局");
+  }
+  const { stride, offsets } = layout;
+  if (!isCount(stride) || stride === 0) {
+    throw corrupted("粒子布局的步长不合法");
+  }
+  for (const [field, offset] of Object.entries(offsets)) {
+    if (!isCount(offset) || offset >= stride) {
+      throw corrupted(`粒子字段 ${field} 的偏移量不合法`);
+    }
+  }
+  for (const field of REQUIRED_FIELDS) {
+    if (!(field in offsets)) throw corrupted(`粒子布局缺少字段 ${field}`);
+  }
+
+  if (!isCount(particleCount)) {
+    throw corrupted("粒子数量不合法");
+  }
+  if (
+    !isRecord(bounds) ||
+    !isPositive(bounds.width) ||
+    !isPositive(bounds.height)
+  ) {
+    throw corrupted("世界大小不合法");
+  }
+  if (!isRecord(settings)) {
+    throw corrupted("缺少设置");
+  }
+  if (typeof seed !== "number" || !Number.isFinite(seed)) {
+    throw corrupted("随机种子不合法");
+  }
+  return header as unknown as SnapshotHeader;
+}
+
+function corrupted(reason: string): Error {
+  return new Error(`快照文件已损坏：${reason}`);
+}
+
+// 非负整数
+function isCount(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function sameLayout(a: ParticleLayout, b: ParticleLayout): boolean {
+  if (a.stride !== b.stride) return false;
+  const fields = Object.keys(b.offsets) as ParticleField[];
+  return (
+    Object.keys(a.offsets).length === fields.length &&
+    fields.every(field => a.offsets[field] === b.offsets[field])
+  );
+}
+
+function align4(value: number): number {
+  return (value + 3) & ~3;
+}
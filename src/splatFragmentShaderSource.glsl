@@ -0,0 +1,37 @@
+/**
+ * 密度溅射片段着色器（液面渲染的第一步）
+ *
+ * 与粒子使用同一个顶点着色器，但四边形放大了 u_radiusScale 倍，
+ * 每个粒子在密度纹理中叠加一个平滑的核（叠加混合 ONE / ONE）：
+ * - a：密度，中心为 u_splatWeight，到核的边缘平滑地降为 0
+ * - rgb：颜色 × 密度，液面着色时除以密度得到加权平均的颜色
+ *
+ * 密度纹理是 8 位格式时超过 1 会被截断，这时 u_splatWeight 取得更小（见 FluidRenderer.ts）
+ */
+
+precision mediump float;
+
+varying vec2 v_position;    // 当前像素的世界坐标
+varying vec2 v_center;      // 粒子中心
+varying float v_radius;     // 核的半径（粒子半径 × u_radiusScale）
+varying float v_value;      // 归一化后的标量 [0, 1]
+
+// 调色板纹理，液面的颜色总是按标量（速度或种类）取色
+uniform sampler2D u_palette;
+
+// 单个粒子中心处的密度
+uniform float u_splatWeight;
+
+void main() {
+    float q = distance(v_position, v_center) / v_radius;
+    if(q >= 1.0) {
+        discard;
+    }
+
+    // 多项式核 (1 - q²)²：中心最大，在边缘处值和斜率都为 0，叠加后的等值线是光滑的
+    float k = 1.0 - q * q;
+    float density = k * k * u_splatWeight;
+
+    vec3 color = texture2D(u_palette, vec2(v_value, 0.5)).rgb;
+    gl_FragColor = vec4(color * density, density);
+}
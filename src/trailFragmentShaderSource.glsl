@@ -0,0 +1,27 @@
+/**
+ * 拖尾片段着色器
+ *
+ * 把上一帧的累积结果按衰减系数变暗，再把本帧的粒子叠在上面
+ * 两个缓冲区交替作为输入和输出（ping-pong），因为不能同时读写同一个纹理
+ *
+ * 所有纹理中的颜色都是预乘 alpha 的（rgb 已经乘过 a），叠加公式为：
+ * 结果 = 本帧 + 上一帧 × (1 - 本帧的 alpha)
+ */
+
+precision mediump float;
+
+varying vec2 v_uv;
+
+uniform sampler2D u_current;   // 本帧的粒子
+uniform sampler2D u_previous;  // 上一帧的累积结果
+uniform float u_decay;         // 本帧保留的比例
+
+void main() {
+    vec4 current = texture2D(u_current, v_uv);
+
+    // 8 位纹理中乘以衰减系数后会被四舍五入，很暗的颜色永远衰减不到 0，
+    // 所以每帧再减去一点
+    vec4 previous = max(texture2D(u_previous, v_uv) * u_decay - 2.0 / 255.0, 0.0);
+
+    gl_FragColor = current + previous * (1.0 - current.a);
+}
@@ -8,14 +8,19 @@
 // ============ 输入属性 (Attributes) ============
 // attribute 是每个顶点独有的数据，从 JavaScript 通过 vertexAttribPointer 传入
 
-attribute vec2 a_position;  // 顶点的屏幕坐标 (x, y)，单位：像素
-attribute vec2 a_center;    // 粒子中心的屏幕坐标 (x, y)，单位：像素
+attribute vec2 a_position;  // 顶点的世界坐标 (x, y)
+attribute vec2 a_center;    // 粒子中心的世界坐标 (x, y)
 attribute float a_radius;   // 粒子的半径，单位：像素
+attribute float a_value;    // 当前颜色模式下的标量（速度、质量、种类或密度）
+attribute vec3 a_color;     // 粒子自身存储的颜色 (r, g, b)
 
 // ============ Uniform 变量 ============
 // uniform 是所有顶点共享的全局变量，从 JavaScript 通过 uniform2f 传入
 
-uniform vec2 u_resolution;  // 画布的分辨率 (宽度, 高度)，单位：像素
+uniform mat3 u_camera;      // 相机变换：世界坐标 -> 裁剪空间（见 Viewport.ts）
+uniform vec3 u_selection;   // 检查器选中粒子的中心 (x, y)，z = 1 表示有选中的粒子
+uniform vec2 u_valueRange;  // a_value 的范围 (最小值, 最大值)，用于归一化
+uniform float u_radiusScale; // 四边形的放大倍数：粒子为 1，液面的密度核更大（见 FluidRenderer.ts）
 
 // ============ 输出变量 (Varyings) ============
 // varying 变量会传递给片段着色器
@@ -24,10 +29,16 @@ uniform vec2 u_resolution;  // 画布的分辨率 (宽度, 高度)，单位：
 varying vec2 v_position;    // 传递顶点位置给片段着色器
 varying vec2 v_center;      // 传递粒子中心给片段着色器
 varying float v_radius;     // 传递粒子半径给片段着色器
+varying float v_value;      // 归一化到 [0, 1] 的标量，用于查找调色板
+varying vec3 v_color;       // 传递粒子颜色给片段着色器
+varying float v_selected;   // 1 表示检查器选中的粒子
 
 void main() {
+    // CPU 按粒子半径生成四边形，这里以粒子中心为原点放大
+    vec2 position = a_center + (a_position - a_center) * u_radiusScale;
+
     /**
-     * 坐标系统转换：屏幕空间 -> 裁剪空间
+     * 坐标系统转换：世界坐标 -> 裁剪空间
      * 
      * WebGL 使用裁剪空间坐标系统：
      * - x 和 y 的范围都是 [-1, 1]
@@ -35,27 +46,22 @@ void main() {
      * - 右上角是 (1, 1)
      * - 中心是 (0, 0)
      * 
-     * 我们的坐标是屏幕像素坐标：
+     * 我们的坐标是世界坐标：
      * - 左上角是 (0, 0)
      * - 右下角是 (width, height)
+     * - Y 轴向下，而 WebGL 的 Y 轴向上
      * 
-     * 转换步骤：
-     * 1. a_position / u_resolution  → 归一化到 [0, 1]
-     * 2. * 2.0                       → 缩放到 [0, 2]
-     * 3. - 1.0                       → 平移到 [-1, 1]
-     */
-    vec2 clipSpace = (a_position / u_resolution) * 2.0 - 1.0;
-
-    /**
-     * 翻转 Y 轴
+     * 相机矩阵 u_camera 是一个 2D 仿射变换（由 Viewport 根据相机计算）：
+     * 1. 按缩放倍数和设备像素比把世界坐标换算到画布像素
+     * 2. 平移，让相机中心落在画布中心
+     * 3. 归一化到 [-1, 1] 并翻转 Y 轴
      * 
-     * 因为屏幕坐标系 Y 轴向下，而 WebGL Y 轴向上
-     * vec2(1, -1) 保持 X 不变，翻转 Y
+     * 齐次坐标 vec3(x, y, 1) 让平移也能用矩阵乘法表示
      * 
      * gl_Position 是内置变量，表示顶点的最终位置
      * vec4(x, y, z, w) - z 用于深度测试，w 用于透视除法（这里都设为常量）
      */
-    gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
+    gl_Position = vec4((u_camera * vec3(position, 1.0)).xy, 0, 1);
 
     /**
      * 将数据传递给片段着色器
@@ -64,7 +70,19 @@ void main() {
      * 例如：如果三角形的 3 个顶点 v_position 分别是 A, B, C
      *      那么三角形内部每个像素的 v_position 会是 A, B, C 的加权平均
      */
-    v_position = a_position;
+    v_position = position;
     v_center = a_center;
-    v_radius = a_radius;
+    v_radius = a_radius * u_radiusScale;
+
+    /**
+     * 把标量归一化到 [0, 1]
+     *
+     * 同一个粒子的 6 个顶点值相同，所以插值后仍然是常量
+     */
+    float range = max(u_valueRange.y - u_valueRange.x, 0.0001);
+    v_value = clamp((a_value - u_valueRange.x) / range, 0.0, 1.0);
+    v_color = a_color;
+
+    // 中心与选中粒子重合的就是选中的粒子
+    v_selected = u_selection.z * step(distance(a_center, u_selection.xy), 0.01);
 }
\ No newline at end of file
@@ -0,0 +1,248 @@
+/**
+ * WebGL 工具函数：着色器程序和离屏渲染目标
+ *
+ * 粒子渲染器和后期处理共用
+ */
+
+export type GL = WebGLRenderingContext | WebGL2RenderingContext;
+
+/**
+ * 着色器程序及其变量位置
+ *
+ * getUniformLocation / getAttribLocation 需要在驱动中按名字查找，
+ * 所以只在创建程序时查询一次，之后每帧直接使用
+ */
+export interface ProgramInfo {
+  program: WebGLProgram;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+  attributes: Record<string, number>;
+}
+
+/**
+ * 创建并编译着色器
+ * @param gl WebGL 渲染上下文
+ * @param type 着色器类型（VERTEX_SHADER 或 FRAGMENT_SHADER）
+ * @param source GLSL 源代码字符串
+ * @returns 编译好的着色器对象
+ */
+function createShader(gl: GL, type: number, source: string): WebGLShader {
+  // 创建着色器对象
+  const shader = gl.createShader(type)!;
+
+  // 设置着色器源代码
+  gl.shaderSource(shader, source);
+
+  // 编译着色器（类似于编译 C++ 代码）
+  gl.compileShader(shader);
+
+  // 检查编译是否成功
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const info = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error("Shader compile failed: " + info);
+  }
+
+  return shader;
+}
+
+/**
+ * 创建着色器程序，并查询所有 uniform 和 attribute 的位置
+ * @param gl WebGL 渲染上下文
+ * @param vertexSource 顶点着色器源代码
+ * @param fragmentSource 片段着色器源代码
+ * @param uniformNames 需要查询的 uniform 名称
+ * @param attributeNames 需要查询的 attribute 名称
+ */
+export function createProgram(
+  gl: GL,
+  vertexSource: string,
+  fragmentSource: string,
+  uniformNames: string[],
+  attributeNames: string[]
+): ProgramInfo {
+  const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexSource);
+  const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+
+  // 创建着色器程序并链接顶点着色器和片段着色器
+  const program = gl.createProgram()!;
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program); // 链接着色器，类似于编译链接 C++ 程序
+
+  // 检查程序是否成功链接
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error("Program link failed: " + gl.getProgramInfoLog(program));
+  }
+
+  const uniforms: ProgramInfo["uniforms"] = {};
+  for (const name of uniformNames) {
+    uniforms[name] = gl.getUniformLocation(program, name);
+  }
+
+  // 未被着色器使用的 attribute 会被编译器优化掉，位置为 -1
+  const attributes: ProgramInfo["attributes"] = {};
+  for (const name of attributeNames) {
+    attributes[name] = gl.getAttribLocation(program, name);
+  }
+
+  return { program, uniforms, attributes };
+}
+
+/**
+ * 纹理格式（texImage2D 的 internalformat、format 和 type）
+ */
+export interface TextureFormat {
+  internalFormat: number;
+  format: number;
+  type: number;
+}
+
+/**
+ * RGBA，每个分量 8 位，所有实现都可以作为渲染目标
+ */
+export function rgba8Format(gl: GL): TextureFormat {
+  return { internalFormat: gl.RGBA, format: gl.RGBA, type: gl.UNSIGNED_BYTE };
+}
+
+/**
+ * 可以作为渲染目标、支持叠加混合和线性过滤的半精度浮点 RGBA 格式，不支持时返回 null
+ * - WebGL2：RGBA16F 需要 EXT_color_buffer_float 或 EXT_color_buffer_half_float 才能渲染
+ * - WebGL1：需要 OES_texture_half_float、OES_texture_half_float_linear 和 EXT_color_buffer_half_float
+ */
+export function halfFloatFormat(gl: GL): TextureFormat | null {
+  if (gl instanceof WebGL2RenderingContext) {
+    if (
+      !gl.getExtension("EXT_color_buffer_float") &&
+      !gl.getExtension("EXT_color_buffer_half_float")
+    ) {
+      return null;
+    }
+    return { internalFormat: gl.RGBA16F, format: gl.RGBA, type: gl.HALF_FLOAT };
+  }
+
+  const half = gl.getExtension("OES_texture_half_float");
+  if (
+    !half ||
+    !gl.getExtension("OES_texture_half_float_linear") ||
+    !gl.getExtension("EXT_color_buffer_half_float")
+  ) {
+    return null;
+  }
+  return {
+    internalFormat: gl.RGBA,
+    format: gl.RGBA,
+    type: half.HALF_FLOAT_OES,
+  };
+}
+
+/**
+ * 离屏渲染目标：帧缓冲区和作为颜色附件的纹理
+ *
+ * 先把画面绘制到纹理中，之后的处理步骤再把纹理作为输入读取
+ */
+export interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  format: TextureFormat;
+  width: number;
+  height: number;
+}
+
+/**
+ * 创建渲染目标，纹理的大小在 resizeRenderTarget 中分配
+ * @param format 纹理格式，默认为每个分量 8 位的 RGBA
+ */
+export function createRenderTarget(
+  gl: GL,
+  format: TextureFormat = rgba8Format(gl)
+): RenderTarget {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+  const framebuffer = gl.createFramebuffer()!;
+  return { framebuffer, texture, format, width: 0, height: 0 };
+}
+
+/**
+ * 按需重新分配渲染目标的纹理（格式在创建时指定），内容被清空
+ * @returns 大小是否改变
+ */
+export function resizeRenderTarget(
+  gl: GL,
+  target: RenderTarget,
+  width: number,
+  height: number
+): boolean {
+  if (target.width === width && target.height === height) return false;
+  target.width = width;
+  target.height = height;
+
+  const { internalFormat, format, type } = target.format;
+  gl.bindTexture(gl.TEXTURE_2D, target.texture);
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    internalFormat,
+    width,
+    height,
+    0,
+    format,
+    type,
+    null
+  );
+  gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+  gl.framebufferTexture2D(
+    gl.FRAMEBUFFER,
+    gl.COLOR_ATTACHMENT0,
+    gl.TEXTURE_2D,
+    target.texture,
+    0
+  );
+  gl.clearColor(0, 0, 0, 0);
+  gl.clear(gl.COLOR_BUFFER_BIT);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  return true;
+}
+
+/**
+ * 渲染目标能否绘制：扩展存在时驱动仍可能不支持某种格式作为颜色附件
+ * 需要在 resizeRenderTarget 分配纹理之后检查
+ */
+export function isRenderTargetComplete(gl: GL, target: RenderTarget): boolean {
+  gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+  const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  return status === gl.FRAMEBUFFER_COMPLETE;
+}
+
+/**
+ * 创建覆盖 [-1, 1] 的四边形（两个三角形，6 个顶点，每个顶点 2 个 float）
+ * 三角形 1: 左上、右上、左下；三角形 2: 左下、右上、右下
+ */
+export function createQuadBuffer(gl: GL): WebGLBuffer {
+  const buffer = gl.createBuffer()!;
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]),
+    gl.STATIC_DRAW
+  );
+  return buffer;
+}
+
+/**
+ * 用全屏四边形绘制（后期处理的每一步），程序的顶点属性名为 a_position
+ * @param buffer createQuadBuffer 创建的四边形
+ */
+export function drawQuad(gl: GL, buffer: WebGLBuffer, info: ProgramInfo) {
+  const location = info.attributes.a_position;
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.enableVertexAttribArray(location);
+  gl.vertexAttribPointer(location, 2, gl.FLOAT, false, 0, 0);
+  gl.drawArrays(gl.TRIANGLES, 0, 6);
+  gl.disableVertexAttribArray(location);
+}
@@ -1,4 +1,1138 @@
 import assert from "assert";
-import { add } from "../build/debug.js";
-assert.strictEqual(add(1, 2), 3);
-console.log("ok");
+import test from "node:test";
+import { mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Worker } from "node:worker_threads";
+import ts from "typescript";
+import * as wasm from "../build/debug.js";
+import * as simd from "../build/simd.js";
+
+const STRIDE = wasm.PARTICLE_STRIDE.value;
+const X = wasm.FIELD_X.value;
+const Y = wasm.FIELD_Y.value;
+const VX = wasm.FIELD_VX.value;
+const VY = wasm.FIELD_VY.value;
+const RADIUS = wasm.FIELD_RADIUS.value;
+const MASS = wasm.FIELD_MASS.value;
+const SPECIES = wasm.FIELD_SPECIES.value;
+const ANGLE = wasm.FIELD_ANGLE.value;
+const ANGULAR_VELOCITY = wasm.FIELD_ANGULAR_VELOCITY.value;
+
+const WIDTH = 400;
+const HEIGHT = 300;
+
+// 粒子数据视图（内存可能增长，每次重新创建）
+function particles(count) {
+  return new Float32Array(
+    wasm.memory.buffer,
+    wasm.getParticlesPtr(),
+    count * STRIDE
+  );
+}
+
+// 初始化 count 个粒子，并设置默认参数
+function init(
+  count,
+  { seed = 1, minRadius = 3, maxRadius = 8, damping = 1 } = {}
+) {
+  wasm.setSeed(seed);
+  wasm.setRadiusRange(minRadius, maxRadius);
+  wasm.setSpeciesCount(1);
+  wasm.initParticles(count, WIDTH, HEIGHT, damping);
+  wasm.setDamping(damping);
+  // 边界条件是全局状态，每个测试都从四面墙壁开始
+  for (let edge = 0; edge < 4; edge++) {
+    wasm.setBoundary(edge, wasm.BOUNDARY_WALL.value, 0.8, 0);
+  }
+  wasm.clearObstacles();
+  wasm.setObstacleMaterial(0.8, 0);
+  wasm.clearEmitters();
+  wasm.clearSinks();
+  wasm.setPairForce(wasm.PAIR_FORCE_NONE.value, 0, 40);
+  wasm.setCollisionMaterial(0.8, 0);
+  wasm.clearSpeciesMaterials();
+  wasm.setRotation(false);
+  return particles(count);
+}
+
+// 把粒子放到指定位置和速度
+function place(p, i, x, y, vx, vy) {
+  p[i * STRIDE + X] = x;
+  p[i * STRIDE + Y] = y;
+  p[i * STRIDE + VX] = vx;
+  p[i * STRIDE + VY] = vy;
+}
+
+test("initParticles 在边界内生成粒子，半径在设置的范围内", () => {
+  const count = 500;
+  const p = init(count, { minRadius: 4, maxRadius: 6 });
+
+  for (let i = 0; i < count; i++) {
+    const o = i * STRIDE;
+    assert.ok(p[o + X] >= 0 && p[o + X] <= WIDTH);
+    assert.ok(p[o + Y] >= 0 && p[o + Y] <= HEIGHT);
+    assert.ok(p[o + RADIUS] >= 4 && p[o + RADIUS] <= 6);
+    assert.strictEqual(p[o + MASS], Math.fround(p[o + RADIUS] * p[o + RADIUS]));
+  }
+});
+
+test("相同种子和相同的更新序列得到完全相同的粒子数据", () => {
+  const run = () => {
+    init(300, { seed: 42, damping: 0.995 });
+    for (let i = 0; i < 120; i++) {
+      wasm.applyGravity(0, 600, 1 / 60);
+      wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+    }
+    return Array.from(particles(300));
+  };
+
+  assert.deepStrictEqual(run(), run());
+});
+
+test("updateParticles 后粒子中心保持在边界内", () => {
+  const count = 800;
+  init(count, { damping: 0.995 });
+
+  for (let step = 0; step < 300; step++) {
+    wasm.applyGravity(0, 600, 1 / 60);
+    wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  }
+
+  const p = particles(count);
+  for (let i = 0; i < count; i++) {
+    const o = i * STRIDE;
+    assert.ok(p[o + X] >= 0 && p[o + X] <= WIDTH, `x = ${p[o + X]}`);
+    assert.ok(p[o + Y] >= 0 && p[o + Y] <= HEIGHT, `y = ${p[o + Y]}`);
+  }
+});
+
+test("两体正碰：动量守恒，相对速度按恢复系数反向", () => {
+  const p = init(2, { minRadius: 5, maxRadius: 5 });
+  place(p, 0, 100, 150, 100, 0);
+  place(p, 1, 109, 150, -20, 0);
+
+  const mass = p[MASS];
+  const momentumBefore = mass * p[VX] + mass * p[STRIDE + VX];
+  const relativeBefore = p[STRIDE + VX] - p[VX];
+
+  wasm.updateParticles(0.001, WIDTH, HEIGHT);
+
+  const q = particles(2);
+  const momentumAfter = mass * q[VX] + mass * q[STRIDE + VX];
+  const relativeAfter = q[STRIDE + VX] - q[VX];
+
+  assert.ok(Math.abs(momentumAfter - momentumBefore) < 1e-3 * mass);
+  // 碰撞后两个粒子相互远离，且速度不会增加
+  assert.ok(relativeAfter > 0, `relative = ${relativeAfter}`);
+  assert.ok(relativeAfter <= Math.abs(relativeBefore));
+  // 两个粒子不再重叠
+  assert.ok(q[STRIDE + X] - q[X] >= 10 - 1e-3);
+});
+
+test("碰撞恢复系数：0 为完全非弹性，1 为完全弹性，可以按种类覆盖", () => {
+  // 正碰后的相对速度（碰撞前为 120）
+  const relativeAfter = () => {
+    const p = particles(2);
+    place(p, 0, 100, 150, 100, 0);
+    place(p, 1, 109, 150, -20, 0);
+    wasm.updateParticles(0.001, WIDTH, HEIGHT);
+    const q = particles(2);
+    return q[STRIDE + VX] - q[VX];
+  };
+
+  init(2, { minRadius: 5, maxRadius: 5 });
+  wasm.setCollisionMaterial(0, 0);
+  assert.ok(Math.abs(relativeAfter()) < 1e-3);
+  wasm.setCollisionMaterial(1, 0);
+  assert.ok(Math.abs(relativeAfter() - 120) < 1e-3);
+
+  // 种类 1 单独设为完全非弹性，两个粒子取平均值 0.5
+  wasm.setSpeciesCount(2);
+  wasm.setSpeciesMaterial(1, 0, 0);
+  assert.ok(Math.abs(relativeAfter() - 60) < 1e-3);
+  wasm.clearSpeciesMaterials();
+  assert.ok(Math.abs(relativeAfter() - 120) < 1e-3);
+});
+
+test("库仑摩擦：斜碰时交换切向动量，开启旋转后粒子开始转动", () => {
+  // 粒子 0 带有 y 方向的切向速度，起点错开一步的位移，碰撞时法线沿 x 轴
+  const collide = () => {
+    const p = particles(2);
+    place(p, 0, 100, 150 - 50 * 0.001, 100, 50);
+    place(p, 1, 109, 150, -20, 0);
+    p[ANGULAR_VELOCITY] = 0;
+    p[STRIDE + ANGULAR_VELOCITY] = 0;
+    wasm.updateParticles(0.001, WIDTH, HEIGHT);
+    return particles(2);
+  };
+
+  init(2, { minRadius: 5, maxRadius: 5 });
+  let q = collide();
+  assert.ok(Math.abs(q[VY] - 50) < 1e-2, `vy = ${q[VY]}`);
+  assert.ok(Math.abs(q[STRIDE + VY]) < 1e-2);
+
+  // 摩擦足够大时接触点不再滑动：切向速度相等，动量守恒
+  wasm.setCollisionMaterial(0.8, 1);
+  q = collide();
+  assert.ok(Math.abs(q[VY] - 25) < 1e-3, `vy = ${q[VY]}`);
+  assert.ok(Math.abs(q[STRIDE + VY] - 25) < 1e-3);
+  assert.strictEqual(q[ANGULAR_VELOCITY], 0);
+
+  // 开启旋转后一部分切向动量变成转动，接触点的相对速度仍然为 0
+  wasm.setRotation(true);
+  q = collide();
+  const w0 = q[ANGULAR_VELOCITY];
+  const w1 = q[STRIDE + ANGULAR_VELOCITY];
+  assert.ok(w0 !== 0 && Math.abs(w0 - w1) < 1e-3);
+  assert.ok(Math.abs(q[VY] + q[STRIDE + VY] - 50) < 1e-3);
+  const slip = q[STRIDE + VY] - q[VY] - (w0 + w1) * 5;
+  assert.ok(Math.abs(slip) < 1e-3, `slip = ${slip}`);
+
+  // 朝向按角速度积分
+  wasm.updateParticles(0.01, WIDTH, HEIGHT);
+  const angle = particles(2)[ANGLE];
+  const expected =
+    (((w0 * 0.01) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  assert.ok(Math.abs(angle - expected) < 1e-3, `angle = ${angle}`);
+});
+
+test("applyForce 只影响 forceRadius 内的粒子", () => {
+  const count = 400;
+  const p = init(count);
+  for (let i = 0; i < count; i++) {
+    p[i * STRIDE + VX] = 0;
+    p[i * STRIDE + VY] = 0;
+  }
+
+  const cx = 200;
+  const cy = 150;
+  const radius = 80;
+  wasm.applyForce(cx, cy, radius, 1000, 1 / 60);
+
+  const q = particles(count);
+  let affected = 0;
+  for (let i = 0; i < count; i++) {
+    const o = i * STRIDE;
+    const dx = q[o + X] - cx;
+    const dy = q[o + Y] - cy;
+    const dist = Math.hypot(dx, dy);
+
+    if (dist >= radius) {
+      assert.strictEqual(q[o + VX], 0);
+      assert.strictEqual(q[o + VY], 0);
+    } else if (dist > 0.1) {
+      // 速度方向背离力场中心
+      assert.ok(q[o + VX] * dx + q[o + VY] * dy > 0);
+      affected++;
+    }
+  }
+  assert.ok(affected > 0);
+});
+
+test("applyVortex 产生绕中心的切向速度", () => {
+  const p = init(2);
+  place(p, 0, 250, 150, 0, 0);
+  place(p, 1, 200, 100, 0, 0);
+
+  wasm.applyVortex(200, 150, 80, 1000, 1 / 60);
+
+  const q = particles(2);
+  // 中心右侧的粒子向下运动，上方的粒子向右运动（屏幕坐标下顺时针）
+  assert.strictEqual(q[VX], 0);
+  assert.ok(q[VY] > 0);
+  assert.ok(q[STRIDE + VX] > 0);
+  assert.strictEqual(q[STRIDE + VY], 0);
+});
+
+test("spawnParticles 在圆内追加粒子，removeParticlesInCircle 删除圆内的粒子", () => {
+  const count = 200;
+  init(count, { minRadius: 4, maxRadius: 6 });
+
+  wasm.spawnParticles(100, 100, 30, 50);
+  assert.strictEqual(wasm.getParticleCount(), count + 50);
+
+  let p = particles(count + 50);
+  for (let i = count; i < count + 50; i++) {
+    const o = i * STRIDE;
+    assert.ok(Math.hypot(p[o + X] - 100, p[o + Y] - 100) <= 30 + 1e-3);
+    assert.ok(p[o + RADIUS] >= 4 && p[o + RADIUS] <= 6);
+  }
+
+  const removed = wasm.removeParticlesInCircle(100, 100, 40);
+  assert.ok(removed >= 50);
+  const remaining = wasm.getParticleCount();
+  assert.strictEqual(remaining, count + 50 - removed);
+
+  p = particles(remaining);
+  for (let i = 0; i < remaining; i++) {
+    const o = i * STRIDE;
+    assert.ok(Math.hypot(p[o + X] - 100, p[o + Y] - 100) >= 40);
+  }
+});
+
+test("grabParticle 抓住最近的粒子，删除其他粒子后仍然跟随", () => {
+  const p = init(3);
+  place(p, 0, 50, 50, 0, 0);
+  place(p, 1, 300, 200, 0, 0);
+  place(p, 2, 200, 150, 0, 0);
+
+  assert.strictEqual(wasm.grabParticle(20, 20, 10), -1);
+  const handle = wasm.grabParticle(210, 150, 30);
+  assert.ok(handle >= 0);
+
+  // 删除粒子 0 会把最后一个粒子（被抓住的）移到下标 0
+  wasm.removeParticlesInCircle(50, 50, 5);
+  assert.ok(wasm.dragParticle(handle, 220, 150, 1 / 60));
+  const q = particles(2);
+  assert.strictEqual(q[X], 200);
+  assert.ok(q[VX] > 0);
+  assert.strictEqual(q[STRIDE + VX], 0);
+
+  // 被抓住的粒子被删除后自动松开
+  wasm.removeParticlesInCircle(200, 150, 5);
+  assert.ok(!wasm.dragParticle(handle, 220, 150, 1 / 60));
+  wasm.releaseParticle(handle);
+});
+
+test("网格单元边长跟随最大半径，跨单元重叠的大粒子发生碰撞，越界的粒子不会丢失", () => {
+  // 半径 15：中心相距 29，按原来固定 20 px 的单元会落在不相邻的单元中
+  const p = init(3, { minRadius: 15, maxRadius: 15 });
+  place(p, 0, 35, 150, 0, 0);
+  place(p, 1, 64, 150, 0, 0);
+  place(p, 2, 300, 100, 0, 0);
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  assert.strictEqual(wasm.getCollisionsResolved(), 1);
+  const q = particles(3);
+  assert.ok(q[STRIDE + X] - q[X] >= 30 - 1e-3);
+
+  // 世界之外的粒子放进边缘的单元，仍然可以被找到
+  place(q, 2, WIDTH + 20, HEIGHT + 20, 0, 0);
+  assert.strictEqual(
+    wasm.pickParticle(WIDTH + 20, HEIGHT + 20, WIDTH, HEIGHT),
+    2
+  );
+  assert.strictEqual(wasm.pickParticle(-5, 150, WIDTH, HEIGHT), -1);
+});
+
+test("没有粒子时 updateParticles 和 pickParticle 正常返回", () => {
+  init(0);
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  assert.strictEqual(wasm.getParticleCount(), 0);
+  assert.strictEqual(wasm.getPairsChecked(), 0);
+  assert.strictEqual(wasm.pickParticle(10, 10, WIDTH, HEIGHT), -1);
+});
+
+test("pickParticle 查找指针下的粒子，选中的粒子跟随删除并统计碰撞", () => {
+  const p = init(3, { minRadius: 5, maxRadius: 5 });
+  place(p, 0, 50, 50, 0, 0);
+  place(p, 1, 300, 150, 0, 0);
+  place(p, 2, 200, 150, 100, 0);
+
+  // 点必须落在粒子内
+  assert.strictEqual(wasm.pickParticle(200, 157, WIDTH, HEIGHT), -1);
+  assert.strictEqual(wasm.pickParticle(203, 152, WIDTH, HEIGHT), 2);
+
+  wasm.selectParticle(2);
+  wasm.removeParticlesInCircle(50, 50, 5);
+  assert.strictEqual(wasm.getSelectedParticle(), 0);
+
+  // 粒子 0 向右撞上另一个粒子
+  for (let i = 0; i < 120 && wasm.getSelectedCollisions() === 0; i++) {
+    wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  }
+  assert.strictEqual(wasm.getSelectedCollisions(), 1);
+  assert.ok(particles(2)[VX] < 100);
+
+  // 选中的粒子被删除后取消选择
+  wasm.selectParticle(1);
+  wasm.removeParticleAt(1);
+  assert.strictEqual(wasm.getSelectedParticle(), -1);
+});
+
+test("applyGravity 按 deltaTime 积分加速度", () => {
+  const p = init(3);
+  for (let i = 0; i < 3; i++) place(p, i, 100 * i + 50, 100, 10, 20);
+
+  wasm.applyGravity(30, 600, 0.5);
+
+  const q = particles(3);
+  for (let i = 0; i < 3; i++) {
+    assert.strictEqual(q[i * STRIDE + VX], 10 + 15);
+    assert.strictEqual(q[i * STRIDE + VY], 20 + 300);
+  }
+});
+
+test("setDamping 使速度按每 1/60 秒的比例衰减", () => {
+  const p = init(1);
+  place(p, 0, 200, 150, 100, 0);
+  wasm.setDamping(0.9);
+
+  // 1/60 秒衰减一次
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  assert.ok(Math.abs(particles(1)[VX] - 90) < 1e-3);
+
+  // 1/30 秒衰减两次
+  wasm.updateParticles(1 / 30, WIDTH, HEIGHT);
+  assert.ok(Math.abs(particles(1)[VX] - 90 * 0.81) < 1e-3);
+});
+
+test("墙壁按恢复系数反弹，摩擦衰减切向速度", () => {
+  const p = init(1, { minRadius: 5, maxRadius: 5 });
+  wasm.setBoundary(wasm.EDGE_RIGHT.value, wasm.BOUNDARY_WALL.value, 0.5, 0.2);
+  place(p, 0, WIDTH - 6, 150, 120, 50);
+
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+
+  const q = particles(1);
+  assert.strictEqual(q[X], WIDTH - 5);
+  assert.ok(Math.abs(q[VX] + 60) < 1e-3, `vx = ${q[VX]}`);
+  assert.ok(Math.abs(q[VY] - 40) < 1e-3, `vy = ${q[VY]}`);
+});
+
+test("环绕边界：从右边离开的粒子从左边进入，并且成对设置", () => {
+  const p = init(1, { minRadius: 5, maxRadius: 5 });
+  wasm.setBoundary(wasm.EDGE_RIGHT.value, wasm.BOUNDARY_WRAP.value, 0.8, 0);
+  assert.strictEqual(
+    wasm.getBoundary(wasm.EDGE_LEFT.value),
+    wasm.BOUNDARY_WRAP.value
+  );
+  place(p, 0, WIDTH - 1, 150, 120, 0);
+
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+
+  const q = particles(1);
+  assert.ok(Math.abs(q[X] - 1) < 1e-3, `x = ${q[X]}`);
+  assert.strictEqual(q[VX], 120);
+});
+
+test("环绕边界：跨越边界的两个粒子也会碰撞", () => {
+  const p = init(2, { minRadius: 5, maxRadius: 5 });
+  wasm.setBoundary(wasm.EDGE_LEFT.value, wasm.BOUNDARY_WRAP.value, 0.8, 0);
+  place(p, 0, 2, 150, -50, 0);
+  place(p, 1, WIDTH - 5, 150, 50, 0);
+
+  wasm.updateParticles(0.001, WIDTH, HEIGHT);
+
+  const q = particles(2);
+  assert.ok(q[VX] > 0 && q[STRIDE + VX] < 0);
+});
+
+test("开放边界：完全离开画布的粒子被删除", () => {
+  const p = init(3, { minRadius: 5, maxRadius: 5 });
+  wasm.setBoundary(wasm.EDGE_BOTTOM.value, wasm.BOUNDARY_REMOVE.value, 0, 0);
+  place(p, 0, 50, HEIGHT + 2, 0, 60);
+  place(p, 1, 200, 150, 0, 0);
+  place(p, 2, 350, HEIGHT + 10, 0, 100);
+
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+
+  // 第一个粒子还有一部分在画布内，第三个被删除
+  assert.strictEqual(wasm.getParticleCount(), 2);
+  const q = particles(2);
+  assert.strictEqual(q[X], 50);
+  assert.strictEqual(q[STRIDE + X], 200);
+});
+
+test("圆形障碍物把粒子推出并反弹", () => {
+  const p = init(1, { minRadius: 5, maxRadius: 5 });
+  wasm.setObstacleMaterial(1, 0);
+  wasm.addCircleObstacle(200, 150, 20);
+  place(p, 0, 177, 150, 120, 0);
+
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+
+  const q = particles(1);
+  assert.ok(Math.abs(q[X] - 175) < 1e-3, `x = ${q[X]}`);
+  assert.ok(Math.abs(q[VX] + 120) < 1e-3, `vx = ${q[VX]}`);
+});
+
+test("线段障碍物按厚度处理接触，删除后不再阻挡", () => {
+  const p = init(1, { minRadius: 5, maxRadius: 5 });
+  const id = wasm.addSegment(100, 200, 300, 200, 2);
+  place(p, 0, 200, 195, 0, 120);
+
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  let q = particles(1);
+  assert.ok(Math.abs(q[Y] - 193) < 1e-3, `y = ${q[Y]}`);
+  assert.ok(q[VY] < 0);
+
+  assert.strictEqual(wasm.removeObstacle(id), true);
+  assert.strictEqual(wasm.getObstacleKind(id), wasm.OBSTACLE_NONE.value);
+  place(q, 0, 200, 195, 0, 120);
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  q = particles(1);
+  assert.ok(q[Y] > 195);
+});
+
+test("凸多边形：任意绕向都可以，拒绝凹多边形", () => {
+  const polygon = points => {
+    wasm.beginPolygon();
+    for (const [x, y] of points) wasm.addPolygonVertex(x, y);
+    return wasm.endPolygon();
+  };
+  const p = init(1, { minRadius: 5, maxRadius: 5 });
+  // 顺时针和逆时针的正方形
+  assert.ok(
+    polygon([
+      [100, 100],
+      [200, 100],
+      [200, 200],
+      [100, 200],
+    ]) >= 0
+  );
+  assert.ok(
+    polygon([
+      [250, 100],
+      [250, 200],
+      [350, 200],
+      [350, 100],
+    ]) >= 0
+  );
+  // 凹多边形
+  assert.strictEqual(
+    polygon([
+      [0, 0],
+      [50, 0],
+      [25, 10],
+      [50, 50],
+      [0, 50],
+    ]),
+    -1
+  );
+
+  // 中心进入正方形内部的粒子从最近的边推出
+  place(p, 0, 150, 103, 0, 60);
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  const q = particles(1);
+  assert.ok(Math.abs(q[Y] - 95) < 1e-3, `y = ${q[Y]}`);
+  assert.ok(q[VY] < 0);
+});
+
+test("loadParticles 用暂存缓冲区中的数据替换所有粒子", () => {
+  const source = Array.from(init(50, { seed: 7 }));
+  init(10, { seed: 8 });
+
+  const ptr = wasm.allocParticleBuffer(50);
+  new Float32Array(wasm.memory.buffer, ptr, source.length).set(source);
+  wasm.loadParticles(ptr, 50);
+
+  assert.strictEqual(wasm.getParticleCount(), 50);
+  assert.deepStrictEqual(Array.from(particles(50)), source);
+});
+
+test("追加粒子时容量按倍数增长，已有粒子保持不变", () => {
+  const before = Array.from(init(100));
+  assert.strictEqual(wasm.getParticleCapacity(), 100);
+
+  assert.strictEqual(wasm.addParticle(10, 20, 30, 40), 100);
+  const capacity = wasm.getParticleCapacity();
+  assert.strictEqual(capacity, 200);
+
+  // 容量足够时不再重新分配
+  wasm.addRandomParticles(capacity - 101, WIDTH, HEIGHT);
+  assert.strictEqual(wasm.getParticleCount(), capacity);
+  assert.strictEqual(wasm.getParticleCapacity(), capacity);
+
+  const p = particles(capacity);
+  assert.deepStrictEqual(Array.from(p.subarray(0, before.length)), before);
+  assert.deepStrictEqual(
+    [p[100 * STRIDE + X], p[100 * STRIDE + Y], p[100 * STRIDE + VX]],
+    [10, 20, 30]
+  );
+
+  // 从暂存缓冲区追加完整的粒子记录
+  const record = Array.from(p.subarray(0, STRIDE));
+  const ptr = wasm.allocParticleBuffer(1);
+  new Float32Array(wasm.memory.buffer, ptr, STRIDE).set(record);
+  wasm.appendParticles(ptr, 1);
+  assert.strictEqual(wasm.getParticleCount(), capacity + 1);
+  assert.deepStrictEqual(
+    Array.from(particles(capacity + 1).subarray(capacity * STRIDE)),
+    record
+  );
+});
+
+test("按下标、区域和数量删除粒子，最后一个粒子补到空位", () => {
+  const p = init(4);
+  place(p, 0, 50, 50, 0, 0);
+  place(p, 1, 100, 100, 0, 0);
+  place(p, 2, 150, 150, 0, 0);
+  place(p, 3, 200, 200, 0, 0);
+
+  assert.ok(!wasm.removeParticleAt(4));
+  assert.ok(wasm.removeParticleAt(0));
+  let q = particles(3);
+  assert.strictEqual(q[X], 200);
+
+  assert.strictEqual(wasm.removeParticlesInRect(90, 90, 160, 160), 2);
+  q = particles(1);
+  assert.strictEqual(q[X], 200);
+
+  assert.strictEqual(wasm.removeLastParticles(5), 1);
+  assert.strictEqual(wasm.getParticleCount(), 0);
+});
+
+test("世界大小改变：按比例缩放粒子位置，或删除新世界之外的粒子", () => {
+  const p = init(3);
+  place(p, 0, 100, 100, 10, -10);
+  place(p, 1, 300, 50, 0, 0);
+  place(p, 2, 390, 290, 0, 0);
+
+  // 400 × 300 -> 200 × 600
+  wasm.scaleParticlePositions(0.5, 2);
+  let q = particles(3);
+  assert.deepStrictEqual([q[X], q[Y], q[VX], q[VY]], [50, 200, 10, -10]);
+  assert.deepStrictEqual([q[2 * STRIDE + X], q[2 * STRIDE + Y]], [195, 580]);
+
+  // 裁剪到 120 × 300：中心在世界之外的粒子被删除
+  assert.strictEqual(wasm.removeParticlesOutside(120, 300), 2);
+  q = particles(1);
+  assert.deepStrictEqual([q[X], q[Y]], [50, 200]);
+});
+
+test("发射器按速率在锥形内发射粒子，寿命到期后删除", () => {
+  init(0);
+  const id = wasm.addPointEmitter(200, 280);
+  wasm.setEmitterRate(id, 10);
+  wasm.setEmitterVelocity(id, -Math.PI / 2, 0.2, 150, 150);
+  wasm.setEmitterRadius(id, 2, 3);
+  wasm.setEmitterLifetime(id, 2);
+
+  // 每秒 10 个：每 6 步发射一个，速度相同，相邻粒子不会碰撞
+  for (let step = 0; step < 60; step++) {
+    wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  }
+  const count = wasm.getParticleCount();
+  assert.strictEqual(count, 10);
+
+  const p = particles(count);
+  for (let i = 0; i < count; i++) {
+    const o = i * STRIDE;
+    const speed = Math.hypot(p[o + VX], p[o + VY]);
+    const angle = Math.atan2(p[o + VY], p[o + VX]);
+    assert.ok(Math.abs(speed - 150) < 1e-3);
+    assert.ok(Math.abs(angle + Math.PI / 2) <= 0.2 + 1e-3);
+    assert.ok(p[o + RADIUS] >= 2 && p[o + RADIUS] <= 3);
+  }
+
+  // 停止发射后，所有粒子在寿命到期时被删除
+  wasm.setEmitterRate(id, 0);
+  for (let step = 0; step < 120; step++) {
+    wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  }
+  assert.strictEqual(wasm.getParticleCount(), 0);
+});
+
+test("粒子进入汇后被删除", () => {
+  const p = init(3, { minRadius: 5, maxRadius: 5 });
+  place(p, 0, 100, 150, 0, 0);
+  place(p, 1, 290, 150, 60, 0);
+  place(p, 2, 50, 50, 0, 0);
+
+  wasm.addRectSink(300, 100, 400, 200);
+  const circle = wasm.addCircleSink(50, 50, 10);
+  wasm.updateParticles(1 / 4, WIDTH, HEIGHT);
+  assert.strictEqual(wasm.getParticleCount(), 1);
+  assert.strictEqual(particles(1)[X], 100);
+
+  // 删除后不再生效
+  assert.ok(wasm.removeSink(circle));
+  assert.ok(!wasm.removeSink(circle));
+});
+
+test("软排斥和 Lennard-Jones：相互作用对称，只在作用范围内生效", () => {
+  const p = init(3, { minRadius: 5, maxRadius: 5 });
+  place(p, 0, 100, 150, 0, 0);
+  place(p, 1, 120, 150, 0, 0);
+  place(p, 2, 300, 150, 0, 0);
+
+  wasm.setPairForce(wasm.PAIR_FORCE_SOFT.value, 1000, 40);
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  // 距离 20：加速度 1000 * (1 - 20/40) = 500，方向相反
+  assert.ok(Math.abs(p[VX] + 500 / 60) < 1e-3);
+  assert.ok(Math.abs(p[STRIDE + VX] - 500 / 60) < 1e-3);
+  assert.strictEqual(p[2 * STRIDE + VX], 0);
+
+  // Lennard-Jones：接触距离处没有作用力，稍远处互相吸引
+  place(p, 0, 100, 150, 0, 0);
+  place(p, 1, 110, 150, 0, 0);
+  wasm.setPairForce(wasm.PAIR_FORCE_LENNARD_JONES.value, 1000, 40);
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  assert.ok(Math.abs(p[VX]) < 1e-3);
+
+  place(p, 0, 100, 150, 0, 0);
+  place(p, 1, 112, 150, 0, 0);
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  assert.ok(p[VX] > 0 && p[STRIDE + VX] < 0);
+  assert.ok(Math.abs(p[VX] + p[STRIDE + VX]) < 1e-4);
+});
+
+test("种类吸引矩阵可以不对称", () => {
+  const p = init(2, { minRadius: 5, maxRadius: 5 });
+  wasm.setSpeciesCount(2);
+  assert.strictEqual(p[SPECIES], 0);
+  assert.strictEqual(p[STRIDE + SPECIES], 1);
+  place(p, 0, 100, 150, 0, 0);
+  place(p, 1, 125, 150, 0, 0);
+
+  // 种类 0 被种类 1 吸引，种类 1 不受种类 0 影响
+  wasm.setSpeciesAttraction(0, 1, 1);
+  wasm.setSpeciesAttraction(1, 0, 0);
+  wasm.setPairForce(wasm.PAIR_FORCE_SPECIES.value, 600, 40);
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  assert.ok(p[VX] > 0);
+  assert.strictEqual(p[STRIDE + VX], 0);
+
+  // 新粒子随机取种类，不超过种类数
+  wasm.spawnParticles(300, 150, 50, 20);
+  const all = particles(22);
+  for (let i = 2; i < 22; i++) {
+    assert.ok(
+      all[i * STRIDE + SPECIES] === 0 || all[i * STRIDE + SPECIES] === 1
+    );
+  }
+  wasm.setSpeciesAttraction(0, 1, 0);
+});
+
+test("万有引力：Barnes–Hut 近似接近精确结果", () => {
+  const count = 300;
+  const run = theta => {
+    init(count, { seed: 7 });
+    wasm.setPairForce(wasm.PAIR_FORCE_GRAVITY.value, 1000, 10);
+    wasm.setBarnesHutTheta(theta);
+    wasm.updateParticles(1e-3, WIDTH, HEIGHT);
+    return Array.from(particles(count));
+  };
+
+  const exact = run(0);
+  const approx = run(0.5);
+  let error = 0;
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const o = i * STRIDE;
+    error += Math.hypot(
+      approx[o + VX] - exact[o + VX],
+      approx[o + VY] - exact[o + VY]
+    );
+    total += Math.hypot(exact[o + VX], exact[o + VY]);
+  }
+  assert.ok(wasm.getQuadtreeNodeCount() > count);
+  assert.ok(error / total < 0.05);
+
+  // 精确计算时两体互相吸引，动量守恒
+  const p = init(2, { minRadius: 4, maxRadius: 4 });
+  place(p, 0, 100, 150, 0, 0);
+  place(p, 1, 300, 150, 0, 0);
+  wasm.setPairForce(wasm.PAIR_FORCE_GRAVITY.value, 1000, 10);
+  wasm.setBarnesHutTheta(0);
+  wasm.updateParticles(1 / 60, WIDTH, HEIGHT);
+  assert.ok(p[VX] > 0);
+  assert.ok(Math.abs(p[VX] + p[STRIDE + VX]) < 1e-5);
+  wasm.setBarnesHutTheta(0.7);
+});
+
+// 在共享内存上实例化多线程构建，helpers 个辅助线程在 worker_threads 中运行
+// 辅助线程必须在主实例执行启动函数之前实例化（实例化会重新写入数据段）
+async function instantiateThreads(helpers) {
+  const module = await WebAssembly.compile(
+    await readFile(new URL("../build/threads.wasm", import.meta.url))
+  );
+  const memory = new WebAssembly.Memory({
+    initial: 64,
+    maximum: 4096,
+    shared: true,
+  });
+  const imports = { env: { memory, abort: () => assert.fail("abort") } };
+  const { exports } = await WebAssembly.instantiate(module, imports);
+
+  const workers = [];
+  for (let i = 0; i < helpers; i++) {
+    const worker = new Worker(
+      `
+      const { parentPort, workerData } = require("node:worker_threads");
+      const { module, memory } = workerData;
+      WebAssembly.instantiate(module, { env: { memory, abort() {} } }).then(
+        ({ exports }) => {
+          parentPort.once("message", context => exports.runCollisionWorker(context));
+          parentPort.postMessage("ready");
+        }
+      );`,
+      { eval: true, workerData: { module, memory } }
+    );
+    await new Promise(resolve => worker.once("message", resolve));
+    workers.push(worker);
+  }
+
+  exports._start();
+  const context = exports.getCollisionContext();
+  for (const worker of workers) worker.postMessage(context);
+  // 等待辅助线程登记（之后的碰撞检测才会分给它们）
+  const shared = new Int32Array(memory.buffer);
+  while (Atomics.load(shared, (context + 4) >> 2) < helpers) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+  return { exports, memory, terminate: () => workers.map(w => w.terminate()) };
+}
+
+test("多线程分块碰撞检测与单线程结果逐位相同", async () => {
+  const run = async helpers => {
+    const {
+      exports: threads,
+      memory,
+      terminate,
+    } = await instantiateThreads(helpers);
+    threads.setSeed(3);
+    threads.setRadiusRange(3, 8);
+    threads.setCollisionMaterial(0.8, 0.3);
+    threads.setRotation(true);
+    threads.initParticles(2000, 800, 600, 0.999);
+    // 左右环绕，检查跨越边界的块
+    threads.setBoundary(wasm.EDGE_LEFT.value, wasm.BOUNDARY_WRAP.value, 0.8, 0);
+    // 选中的粒子参与的碰撞可能由任意线程处理
+    threads.selectParticle(1000);
+    let pairs = 0;
+    for (let i = 0; i < 60; i++) {
+      threads.applyGravity(0, 600, 1 / 60);
+      threads.updateParticles(1 / 60, 800, 600);
+      pairs += threads.getPairsChecked();
+    }
+    const count = threads.getParticleCount();
+    const data = new Float32Array(
+      memory.buffer,
+      threads.getParticlesPtr(),
+      count * STRIDE
+    ).slice();
+    const collisions = threads.getSelectedCollisions();
+    await Promise.all(terminate());
+    return { data, pairs, collisions };
+  };
+
+  const serial = await run(0);
+  const parallel = await run(3);
+  assert.ok(serial.pairs > 0);
+  assert.strictEqual(parallel.pairs, serial.pairs);
+  assert.ok(serial.collisions > 0);
+  assert.strictEqual(parallel.collisions, serial.collisions);
+  assert.deepStrictEqual(parallel.data, serial.data);
+});
+
+test("SIMD 构建（AoS 和 SoA 存储）与标量构建结果逐位相同", () => {
+  const run = (module, storage, boundary) => {
+    module.setParticleStorage(storage);
+    module.setSeed(5);
+    module.setRadiusRange(2, 9);
+    module.setSpeciesCount(1);
+    // 与 init 相同，清除之前测试留下的全局状态
+    module.clearObstacles();
+    module.clearEmitters();
+    module.clearSinks();
+    module.setPairForce(wasm.PAIR_FORCE_NONE.value, 0, 40);
+    module.clearSpeciesMaterials();
+    module.setCollisionMaterial(0.8, 0.2);
+    module.setRotation(true);
+    for (let edge = 0; edge < 4; edge++) {
+      module.setBoundary(edge, wasm.BOUNDARY_WALL.value, 0.7, edge * 0.1);
+    }
+    module.setBoundary(...boundary);
+    // 粒子数不是 4 的倍数，检查最后不满一组的粒子
+    module.initParticles(503, WIDTH, HEIGHT, 0.999);
+    for (let i = 0; i < 120; i++) {
+      module.applyGravity(30, 900, 1 / 120);
+      module.applyForce(200, 150, 120, i % 2 ? 3000 : -3000, 1 / 120);
+      module.updateParticles(1 / 120, WIDTH, HEIGHT);
+    }
+    return new Float32Array(
+      module.memory.buffer,
+      module.getParticlesPtr(),
+      module.getParticleCount() * STRIDE
+    ).slice();
+  };
+
+  for (const boundary of [
+    [wasm.EDGE_RIGHT.value, wasm.BOUNDARY_WALL.value, 0.9, 0.3],
+    [wasm.EDGE_LEFT.value, wasm.BOUNDARY_WRAP.value, 0.8, 0],
+    [wasm.EDGE_BOTTOM.value, wasm.BOUNDARY_RECYCLE.value, 0.8, 0],
+    [wasm.EDGE_RIGHT.value, wasm.BOUNDARY_REMOVE.value, 0.8, 0],
+  ]) {
+    const scalar = run(wasm, 0, boundary);
+    for (const storage of [
+      simd.PARTICLE_STORAGE_AOS.value,
+      simd.PARTICLE_STORAGE_SOA.value,
+    ]) {
+      assert.deepStrictEqual(run(simd, storage, boundary), scalar);
+    }
+  }
+  simd.setParticleStorage(simd.PARTICLE_STORAGE_AOS.value);
+});
+
+// 把 src 中的 TypeScript 模块转译为 CommonJS 放到临时目录，返回加载函数
+// （只去掉类型，不做类型检查；类型检查由 tsc 负责）
+async function loadSources() {
+  const dir = await mkdtemp(join(tmpdir(), "particles-src-"));
+  await writeFile(join(dir, "package.json"), '{ "type": "commonjs" }');
+  const src = new URL("../src/", import.meta.url);
+  for (const file of await readdir(src)) {
+    if (!file.endsWith(".ts")) continue;
+    const { outputText } = ts.transpileModule(
+      await readFile(new URL(file, src), "utf8"),
+      {
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2022,
+        },
+      }
+    );
+    await writeFile(join(dir, file.replace(/\.ts$/, ".js")), outputText);
+  }
+  const require = createRequire(join(dir, "index.js"));
+  return {
+    load: name => require(`./${name}.js`),
+    dispose: () => rm(dir, { recursive: true, force: true }),
+  };
+}
+
+// 比较两份粒子数据的每一位（NaN 和 -0 也必须相同）
+function assertBitIdentical(actual, expected, message) {
+  assert.deepStrictEqual(
+    new Uint32Array(actual.buffer, actual.byteOffset, actual.length),
+    new Uint32Array(expected.buffer, expected.byteOffset, expected.length),
+    message
+  );
+}
+
+test("录制的输入回放后与原始运行逐位相同，跳转到任意步与从头运行相同", async () => {
+  const sources = await loadSources();
+  try {
+    const { Simulation } = sources.load("Simulation");
+    const { Replay } = sources.load("Replay");
+    const { parseInputLog } = sources.load("InputRecorder");
+    init(0);
+
+    const simulation = new Simulation(wasm);
+    simulation.startRecording();
+    const reset = { seed: 7, count: 150, minRadius: 3, maxRadius: 8 };
+    simulation.reset({ ...reset, width: WIDTH, height: HEIGHT });
+
+    const scrubStep = 70;
+    let scrubbed = null;
+    let width = WIDTH;
+    for (let i = 0; i < 120; i++) {
+      simulation.pointers =
+        i % 40 < 25
+          ? [
+              {
+                id: 1,
+                tool: i < 40 ? "repel" : "attract",
+                x: 100 + i * 2,
+                y: 150,
+                radius: 60,
+                strength: 6000,
+              },
+            ]
+          : [];
+      if (i === 20) simulation.gravityY = 0;
+      if (i === 50) simulation.gravityY = -300;
+      if (i === 30) simulation.damping = 0.99;
+      if (i === 45) width = WIDTH - 80;
+      if (i === 90) width = WIDTH;
+      if (i === 60) {
+        simulation.reset({ ...reset, seed: 8, width, height: HEIGHT });
+      }
+      if (i === scrubStep) scrubbed = simulation.copyParticles();
+      simulation.stepOnce(width, HEIGHT);
+    }
+    const final = simulation.copyParticles();
+    const log = parseInputLog(JSON.stringify(simulation.stopRecording()));
+    assert.strictEqual(log.steps, 120);
+    for (const type of ["pointers", "gravity", "damping", "reset", "resize"]) {
+      assert.ok(
+        log.events.some(event => event.type === type),
+        `缺少 ${type} 事件`
+      );
+    }
+
+    // 回放到最后
+    const replay = new Replay(simulation, log);
+    replay.seek(log.steps);
+    assertBitIdentical(simulation.copyParticles(), final, "回放到最后");
+
+    // 向后跳转到第 N 步（从头重新运行）
+    replay.seek(scrubStep);
+    assertBitIdentical(simulation.copyParticles(), scrubbed, "跳转到第 N 步");
+    replay.dispose();
+
+    // 新的模拟逐步运行到第 N 步
+    const fresh = new Simulation(wasm);
+    const stepped = new Replay(fresh, log);
+    for (let i = 0; i < scrubStep; i++) stepped.stepForward();
+    assertBitIdentical(fresh.copyParticles(), scrubbed, "逐步运行到第 N 步");
+
+    // 帧间隔与固定步长不同时按累加器播放，结果不变
+    while (!stepped.finished) stepped.advance(0.013);
+    assertBitIdentical(fresh.copyParticles(), final, "按帧播放到最后");
+    stepped.dispose();
+  } finally {
+    await sources.dispose();
+  }
+});
+
+test("版本 1 的输入日志升级到当前版本，不完整或更新版本的日志被拒绝", async () => {
+  const sources = await loadSources();
+  try {
+    const { Simulation } = sources.load("Simulation");
+    const { Replay } = sources.load("Replay");
+    const { parseInputLog, INPUT_LOG_VERSION } = sources.load("InputRecorder");
+    init(0);
+
+    const resetEvent = {
+      step: 0,
+      type: "reset",
+      seed: 3,
+      count: 50,
+      minRadius: 3,
+      maxRadius: 6,
+      width: WIDTH,
+      height: HEIGHT,
+    };
+    const force = { x: 200, y: 150, radius: 80, strength: 5000 };
+    const log = parseInputLog(
+      JSON.stringify({
+        version: 1,
+        fixedStep: 1 / 60,
+        steps: 3,
+        events: [
+          resetEvent,
+          { step: 0, type: "force", force },
+          { step: 2, type: "force", force: null },
+        ],
+      })
+    );
+    assert.strictEqual(log.version, INPUT_LOG_VERSION);
+    assert.deepStrictEqual(log.events.slice(1), [
+      {
+        step: 0,
+        type: "pointers",
+        pointers: [{ id: 0, tool: "repel", ...force }],
+      },
+      { step: 2, type: "pointers", pointers: [] },
+    ]);
+
+    const replay = new Replay(new Simulation(wasm), log);
+    replay.seek(log.steps);
+    assert.ok(replay.finished);
+    replay.dispose();
+
+    const reject = (value, pattern) =>
+      assert.throws(() => parseInputLog(JSON.stringify(value)), pattern);
+    reject(
+      {
+        version: INPUT_LOG_VERSION + 1,
+        fixedStep: 1 / 60,
+        steps: 0,
+        events: [],
+      },
+      /版本/
+    );
+    reject({ version: 1, fixedStep: 1 / 60, steps: 1 }, /已损坏/);
+    reject(
+      { version: INPUT_LOG_VERSION, fixedStep: 1 / 60, steps: 1, events: [] },
+      /reset/
+    );
+    assert.throws(() => parseInputLog("{"), /JSON/);
+  } finally {
+    await sources.dispose();
+  }
+});
+
+// 替换快照头部中的字段，粒子数据保持不变（用于构造旧版本或损坏的快照）
+function patchSnapshot(buffer, patch) {
+  const headerLength = new DataView(buffer).getUint32(4, true);
+  const header = JSON.parse(
+    new TextDecoder().decode(new Uint8Array(buffer, 8, headerLength))
+  );
+  const json = new TextEncoder().encode(
+    JSON.stringify({ ...header, ...patch })
+  );
+  const payload = new Uint8Array(buffer, (8 + headerLength + 3) & ~3);
+  const payloadOffset = (8 + json.length + 3) & ~3;
+  const bytes = new Uint8Array(payloadOffset + payload.length);
+  bytes.set(new Uint8Array(buffer, 0, 4));
+  new DataView(bytes.buffer).setUint32(4, json.length, true);
+  bytes.set(json, 8);
+  bytes.set(payload, payloadOffset);
+  return bytes.buffer;
+}
+
+test("快照按字段名转换旧布局，损坏或更新版本的快照被拒绝", async () => {
+  const sources = await loadSources();
+  try {
+    const { readParticleLayout } = sources.load("ParticleLayout");
+    const { encodeSnapshot, decodeSnapshot, convertParticles } =
+      sources.load("snapshot");
+    const layout = readParticleLayout(wasm);
+    const header = {
+      createdAt: new Date(0).toISOString(),
+      seed: 1,
+      bounds: { width: WIDTH, height: HEIGHT },
+      settings: { gravity: 600 },
+      layout,
+    };
+
+    // 布局相同时原样返回粒子数据
+    const data = init(40).slice();
+    const encoded = encodeSnapshot(header, data);
+    const snapshot = decodeSnapshot(encoded);
+    assert.strictEqual(snapshot.header.particleCount, 40);
+    assert.deepStrictEqual(snapshot.header.settings, header.settings);
+    assertBitIdentical(convertParticles(snapshot, layout), data);
+
+    // 旧布局：字段顺序不同，缺少质量和部分颜色
+    const old = {
+      stride: 7,
+      offsets: { radius: 0, colorR: 1, species: 2, x: 3, y: 4, vx: 5, vy: 6 },
+    };
+    const oldData = new Float32Array([4, 0.5, 2, 10, 20, -3, 7]);
+    const converted = convertParticles(
+      decodeSnapshot(encodeSnapshot({ ...header, layout: old }, oldData)),
+      layout
+    );
+    assert.strictEqual(converted.length, STRIDE);
+    assert.deepStrictEqual(
+      [converted[X], converted[Y], converted[VX], converted[VY]],
+      [10, 20, -3, 7]
+    );
+    assert.strictEqual(converted[RADIUS], 4);
+    assert.strictEqual(converted[MASS], 16);
+    assert.strictEqual(converted[SPECIES], 2);
+    assert.strictEqual(converted[wasm.FIELD_COLOR_R.value], 0.5);
+    assert.strictEqual(converted[wasm.FIELD_COLOR_G.value], Math.fround(0.7));
+
+    // 更新的版本、错误的魔数、不完整的粒子数据和不合法的粒子数量
+    assert.throws(
+      () => decodeSnapshot(patchSnapshot(encoded, { version: 99 })),
+      /快照版本 99 比当前支持的版本 \d+ 新/
+    );
+    const badMagic = encoded.slice(0);
+    new Uint8Array(badMagic)[0] = 0;
+    assert.throws(() => decodeSnapshot(badMagic), /不是粒子场景快照文件/);
+    assert.throws(
+      () => decodeSnapshot(encoded.slice(0, encoded.byteLength - 4)),
+      /快照文件已损坏：粒子数据不完整/
+    );
+    assert.throws(
+      () => decodeSnapshot(patchSnapshot(encoded, { particleCount: NaN })),
+      /快照文件已损坏：粒子数量不合法/
+    );
+    assert.throws(
+      () =>
+        decodeSnapshot(
+          patchSnapshot(encoded, { layout: { ...layout, stride: 0 } })
+        ),
+      /快照文件已损坏：粒子布局的步长不合法/
+    );
+  } finally {
+    await sources.dispose();
+  }
+});
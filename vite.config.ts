@@ -0,0 +1,12 @@
+import { defineConfig } from "vite";
+
+// 工作线程模式（?worker=1）使用共享内存，页面必须跨源隔离才能创建 SharedArrayBuffer
+const crossOriginIsolation = {
+  "Cross-Origin-Opener-Policy": "same-origin",
+  "Cross-Origin-Embedder-Policy": "require-corp",
+};
+
+export default defineConfig({
+  server: { headers: crossOriginIsolation },
+  preview: { headers: crossOriginIsolation },
+});